@@ -33,6 +33,15 @@ export interface RelatedNodeInfo<T extends Metadata = Metadata> {
   hash?: string;
 }
 
+/**
+ * A sparse vector, e.g. produced by a BM25 encoder: only the non-zero
+ * `values` and their `indices` are stored.
+ */
+export type SparseEmbedding = {
+  indices: number[];
+  values: number[];
+};
+
 export type RelatedNodeType<T extends Metadata = Metadata> =
   | RelatedNodeInfo<T>
   | RelatedNodeInfo<T>[];
@@ -49,6 +58,7 @@ export abstract class BaseNode<T extends Metadata = Metadata> {
    */
   id_: string = randomUUID();
   embedding?: number[];
+  sparseEmbedding?: SparseEmbedding;
 
   // Metadata fields
   metadata: T = {} as T;
@@ -113,7 +123,7 @@ export abstract class BaseNode<T extends Metadata = Metadata> {
   get childNodes(): RelatedNodeInfo<T>[] | undefined {
     const relationship = this.relationships[NodeRelationship.CHILD];
 
-    if (!Array.isArray(relationship)) {
+    if (relationship !== undefined && !Array.isArray(relationship)) {
       throw new Error(
         "Child object must be a an array of RelatedNodeInfo objects",
       );
@@ -118,6 +118,49 @@ Refined Answer:`;
 
 export type RefinePrompt = typeof defaultRefinePrompt;
 
+export const defaultCitationQaPrompt: TextQaPrompt = ({
+  context = "",
+  query = "",
+}) => {
+  return `Please provide an answer based solely on the provided sources. When referencing information from a source, cite the appropriate source(s) using their corresponding numbers. Every answer should include at least one source citation. Only cite a source when you are explicitly referencing it. If none of the sources are helpful, you should indicate that.
+For example:
+Source 1:
+The sky is red in the evening and blue in the morning.
+Source 2:
+Water is wet when the sky is red.
+User query: When is water wet?
+Answer: Water will be wet when the sky is red [2], which occurs in the evening [1].
+Now it's your turn. Below are several numbered sources of information:
+------
+${context}
+------
+User query: ${query}
+Answer:`;
+};
+
+export const defaultCitationRefinePrompt: RefinePrompt = ({
+  query = "",
+  existingAnswer = "",
+  context = "",
+}) => {
+  return `Please provide an answer based solely on the provided sources. When referencing information from a source, cite the appropriate source(s) using their corresponding numbers. Every answer should include at least one source citation. Only cite a source when you are explicitly referencing it. If none of the sources are helpful, you should repeat the existing answer.
+For example:
+Source 1:
+The sky is red in the evening and blue in the morning.
+Source 2:
+Water is wet when the sky is red.
+User query: When is water wet?
+Existing answer: Water will be wet when the sky is red [2].
+Refined answer: Water will be wet when the sky is red [2], which occurs in the evening [1].
+Now it's your turn. We have provided an existing answer: ${existingAnswer}
+Below are several numbered sources of information. Use them to refine the existing answer. If the provided sources are not helpful, you will repeat the existing answer.
+------
+${context}
+------
+User query: ${query}
+Refined answer:`;
+};
+
 /*
 DEFAULT_TREE_SUMMARIZE_TMPL = (
   "Context information from multiple sources is below.\n"
@@ -409,3 +452,12 @@ export const defaultQueryKeywordExtractPrompt = ({
 )`;
 };
 export type QueryKeywordExtractPrompt = typeof defaultQueryKeywordExtractPrompt;
+
+export const defaultQueryGenPrompt = ({ numQueries = 4, query = "" }) => {
+  return `You are a helpful assistant that generates multiple search queries based on a single input query. Generate ${numQueries} search queries, one on each line, related to the following input query:
+Query: ${query}
+Queries:
+`;
+};
+
+export type QueryGenPrompt = typeof defaultQueryGenPrompt;
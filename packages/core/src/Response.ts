@@ -1,4 +1,16 @@
-import type { BaseNode } from "./Node.js";
+import type { BaseNode, NodeWithScore } from "./Node.js";
+import { MetadataMode } from "./Node.js";
+
+/**
+ * A sentence of a response citing some of its source nodes.
+ */
+export type Citation = {
+  text: string;
+  startCharIdx: number;
+  endCharIdx: number;
+  // the numbers of the cited source nodes, starting at 1
+  sourceNumbers: number[];
+};
 
 /**
  * Response is the output of a LLM
@@ -6,15 +18,36 @@ import type { BaseNode } from "./Node.js";
 export class Response {
   response: string;
   sourceNodes?: BaseNode[];
+  // the source nodes with their scores, if the response was generated from retrieved nodes
+  sourceNodesWithScore?: NodeWithScore[];
+  // the sentences citing the source nodes, for responses generated with citations
+  citations?: Citation[];
   metadata: Record<string, unknown> = {};
 
-  constructor(response: string, sourceNodes?: BaseNode[]) {
+  constructor(response: string, sourceNodes?: BaseNode[] | NodeWithScore[]) {
     this.response = response;
-    this.sourceNodes = sourceNodes || [];
+    if (sourceNodes?.length && "node" in sourceNodes[0]) {
+      this.sourceNodesWithScore = sourceNodes as NodeWithScore[];
+      this.sourceNodes = this.sourceNodesWithScore.map(({ node }) => node);
+    } else {
+      this.sourceNodes = (sourceNodes as BaseNode[]) || [];
+    }
   }
 
-  protected _getFormattedSources() {
-    throw new Error("Not implemented yet");
+  /**
+   * The numbered list of the source nodes, with the beginning of their content.
+   * @param length the maximum length of the content of each source node
+   */
+  getFormattedSources(length = 100) {
+    return (this.sourceNodes ?? [])
+      .map((node, index) => {
+        let content = node.getContent(MetadataMode.NONE);
+        if (content.length > length) {
+          content = `${content.slice(0, length - 3)}...`;
+        }
+        return `[${index + 1}] (Node id: ${node.id_}): ${content}`;
+      })
+      .join("\n\n");
   }
 
   toString() {
@@ -32,14 +32,16 @@ export interface ServiceContextOptions {
 
 export function serviceContextFromDefaults(options?: ServiceContextOptions) {
   const callbackManager = options?.callbackManager ?? new CallbackManager();
+  // the default components trace their events with the callback manager
   const serviceContext: ServiceContext = {
-    llm: options?.llm ?? new OpenAI(),
-    embedModel: options?.embedModel ?? new OpenAIEmbedding(),
+    llm: options?.llm ?? new OpenAI({ callbackManager }),
+    embedModel: options?.embedModel ?? new OpenAIEmbedding({ callbackManager }),
     nodeParser:
       options?.nodeParser ??
       new SimpleNodeParser({
         chunkSize: options?.chunkSize,
         chunkOverlap: options?.chunkOverlap,
+        callbackManager,
       }),
     promptHelper: options?.promptHelper ?? new PromptHelper(),
     callbackManager,
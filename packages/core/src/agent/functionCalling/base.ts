@@ -0,0 +1,72 @@
+import type { CallbackManager } from "../../callbacks/CallbackManager.js";
+import type { ChatMessage, LLM, ToolChoice } from "../../llm/index.js";
+import type { BaseMemory } from "../../memory/types.js";
+import type { ObjectRetriever } from "../../objects/base.js";
+import type { BaseTool } from "../../types.js";
+import { AgentRunner } from "../runner/base.js";
+import { FunctionCallingAgentWorker } from "./worker.js";
+
+export type FunctionCallingAgentParams = {
+  llm: LLM;
+  tools?: BaseTool[];
+  toolRetriever?: ObjectRetriever;
+  memory?: BaseMemory;
+  prefixMessages?: ChatMessage[];
+  systemPrompt?: string;
+  verbose?: boolean;
+  maxIterations?: number;
+  allowParallelToolCalls?: boolean;
+  defaultToolChoice?: ToolChoice;
+  callbackManager?: CallbackManager;
+};
+
+/**
+ * An agent that calls tools using the tool calling API of its LLM.
+ * Works with any LLM that has `isFunctionCallingModel` set in its metadata.
+ */
+export class FunctionCallingAgent extends AgentRunner {
+  constructor({
+    llm,
+    tools,
+    toolRetriever,
+    memory,
+    prefixMessages,
+    systemPrompt,
+    verbose,
+    maxIterations,
+    allowParallelToolCalls,
+    defaultToolChoice = "auto",
+    callbackManager,
+  }: FunctionCallingAgentParams) {
+    if (systemPrompt) {
+      if (prefixMessages) {
+        throw new Error("Cannot provide both systemPrompt and prefixMessages");
+      }
+
+      prefixMessages = [
+        {
+          content: systemPrompt,
+          role: "system",
+        },
+      ];
+    }
+
+    const agentWorker = new FunctionCallingAgentWorker({
+      llm,
+      tools,
+      toolRetriever,
+      prefixMessages,
+      verbose,
+      maxIterations,
+      allowParallelToolCalls,
+      callbackManager,
+    });
+
+    super({
+      agentWorker,
+      memory,
+      callbackManager,
+      defaultToolChoice,
+    });
+  }
+}
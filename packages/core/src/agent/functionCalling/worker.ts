@@ -0,0 +1,359 @@
+import { randomUUID } from "@llamaindex/env";
+import { Response } from "../../Response.js";
+import type {
+  CallbackManager,
+  Event,
+} from "../../callbacks/CallbackManager.js";
+import { traceEvent } from "../../callbacks/CallbackManager.js";
+import {
+  AgentChatResponse,
+  ChatResponseMode,
+  StreamingAgentChatResponse,
+} from "../../engines/chat/types.js";
+import type {
+  ChatMessage,
+  ChatResponseChunk,
+  LLM,
+  LLMChatParamsBase,
+  ToolCall,
+  ToolChoice,
+} from "../../llm/index.js";
+import {
+  extractText,
+  streamConverter,
+  streamReducer,
+} from "../../llm/utils.js";
+import { ChatMemoryBuffer } from "../../memory/ChatMemoryBuffer.js";
+import type { ObjectRetriever } from "../../objects/base.js";
+import { ToolOutput } from "../../tools/types.js";
+import { callToolWithErrorHandling } from "../../tools/utils.js";
+import type { BaseTool } from "../../types.js";
+import type { AgentWorker, Task } from "../types.js";
+import { TaskStep, TaskStepOutput } from "../types.js";
+import { addUserStepToMemory, getFunctionByName } from "../utils.js";
+
+const DEFAULT_MAX_ITERATIONS = 10;
+
+type FunctionCallingAgentWorkerParams = {
+  llm: LLM;
+  tools?: BaseTool[];
+  toolRetriever?: ObjectRetriever;
+  prefixMessages?: ChatMessage[];
+  verbose?: boolean;
+  // maximum number of LLM calls per task, can be overridden per task
+  maxIterations?: number;
+  // run the tool calls of a LLM response concurrently
+  allowParallelToolCalls?: boolean;
+  callbackManager?: CallbackManager;
+};
+
+type CallToolOutput = {
+  message: ChatMessage;
+  toolOutput: ToolOutput;
+};
+
+/**
+ * Agent worker that works with any LLM supporting tool calls,
+ * i.e. with `isFunctionCallingModel` set in its metadata.
+ */
+export class FunctionCallingAgentWorker implements AgentWorker {
+  llm: LLM;
+  verbose: boolean;
+  maxIterations: number;
+  allowParallelToolCalls: boolean;
+
+  public prefixMessages: ChatMessage[];
+  public callbackManager: CallbackManager | undefined;
+
+  private _getTools: (input: string) => Promise<BaseTool[]>;
+
+  constructor({
+    llm,
+    tools = [],
+    toolRetriever,
+    prefixMessages,
+    verbose,
+    maxIterations = DEFAULT_MAX_ITERATIONS,
+    allowParallelToolCalls = true,
+    callbackManager,
+  }: FunctionCallingAgentWorkerParams) {
+    if (!llm.metadata.isFunctionCallingModel) {
+      throw new Error(
+        `LLM model ${llm.metadata.model} must be a function-calling model`,
+      );
+    }
+
+    this.llm = llm;
+    this.verbose = verbose ?? false;
+    this.maxIterations = maxIterations;
+    this.allowParallelToolCalls = allowParallelToolCalls;
+    this.prefixMessages = prefixMessages ?? [];
+    this.callbackManager = callbackManager;
+
+    if (tools.length > 0 && toolRetriever) {
+      throw new Error("Cannot specify both tools and tool_retriever");
+    } else if (toolRetriever) {
+      this._getTools = async (message: string) =>
+        toolRetriever.retrieve(message);
+    } else {
+      this._getTools = async () => tools;
+    }
+  }
+
+  /**
+   * Get all messages.
+   * @param task: task
+   * @returns: messages
+   */
+  public getAllMessages(task: Task): ChatMessage[] {
+    return [
+      ...this.prefixMessages,
+      ...task.memory.get(),
+      ...task.extraState.newMemory.get(),
+    ];
+  }
+
+  /**
+   * Get tools.
+   * @param input: input
+   * @returns: tools
+   */
+  async getTools(input: string): Promise<BaseTool[]> {
+    return this._getTools(input);
+  }
+
+  /**
+   * Initialize step.
+   * @param task: task
+   * @param kwargs: kwargs, `maxIterations` overrides the one of the worker
+   * @returns: task step
+   */
+  initializeStep(task: Task, kwargs?: any): TaskStep {
+    const sources: ToolOutput[] = [];
+
+    task.extraState = {
+      ...task.extraState,
+      sources,
+      nIterations: 0,
+      maxIterations: kwargs?.maxIterations ?? this.maxIterations,
+      newMemory: new ChatMemoryBuffer(),
+    };
+
+    return new TaskStep(task.taskId, randomUUID(), task.input);
+  }
+
+  /**
+   * Call a tool, errors are returned to the LLM as the tool output.
+   * @param tools: tools
+   * @param toolCall: tool call
+   * @param parentEvent: parent event
+   * @returns: tool message and output
+   */
+  async callTool(
+    tools: BaseTool[],
+    toolCall: ToolCall,
+    parentEvent?: Event,
+  ): Promise<CallToolOutput> {
+    const { name, arguments: argumentsStr } = toolCall.function;
+
+    const toolOutput = await traceEvent(
+      this.callbackManager,
+      { type: "toolCall", parentEvent, input: toolCall.function },
+      async () => {
+        if (this.verbose) {
+          console.log("=== Calling Function ===");
+          console.log(`Calling function: ${name} with args: ${argumentsStr}`);
+        }
+
+        let tool: BaseTool;
+        try {
+          tool = getFunctionByName(tools, name);
+        } catch (error) {
+          const output = new ToolOutput(
+            `Error: ${error}`,
+            name,
+            argumentsStr,
+            error,
+          );
+          output.isError = true;
+          return output;
+        }
+        // invalid arguments are returned as errors too
+        const output = await callToolWithErrorHandling(tool, argumentsStr);
+
+        if (this.verbose) {
+          console.log(`Got output ${output}`);
+          console.log("==========================");
+        }
+        return output;
+      },
+    );
+
+    return {
+      message: {
+        content: String(toolOutput),
+        role: "tool",
+        additionalKwargs: { name, toolCallId: toolCall.id },
+      },
+      toolOutput,
+    };
+  }
+
+  private async _callTools(
+    tools: BaseTool[],
+    toolCalls: ToolCall[],
+    parentEvent?: Event,
+  ): Promise<CallToolOutput[]> {
+    if (this.allowParallelToolCalls) {
+      return Promise.all(
+        toolCalls.map((toolCall) =>
+          this.callTool(tools, toolCall, parentEvent),
+        ),
+      );
+    }
+    const outputs: CallToolOutput[] = [];
+    for (const toolCall of toolCalls) {
+      outputs.push(await this.callTool(tools, toolCall, parentEvent));
+    }
+    return outputs;
+  }
+
+  private async _getStreamResponse(
+    task: Task,
+    params: LLMChatParamsBase,
+  ): Promise<StreamingAgentChatResponse> {
+    const stream = await this.llm.chat({ ...params, stream: true });
+
+    const iterator = streamConverter(
+      streamReducer({
+        stream,
+        initialValue: "",
+        reducer: (accumulator, part) => (accumulator += part.delta),
+        finished: (accumulator) => {
+          task.extraState.newMemory.put({
+            content: accumulator,
+            role: "assistant",
+          });
+        },
+      }),
+      (r: ChatResponseChunk) => new Response(r.delta),
+    );
+
+    return new StreamingAgentChatResponse(iterator, task.extraState.sources);
+  }
+
+  private async _runStep(
+    step: TaskStep,
+    task: Task,
+    mode: ChatResponseMode,
+    kwargs?: any,
+  ): Promise<TaskStepOutput> {
+    const parentEvent: Event | undefined = kwargs?.parentEvent;
+    const tools = await this.getTools(task.input);
+
+    if (step.input) {
+      addUserStepToMemory(step, task.extraState.newMemory, this.verbose);
+    }
+
+    task.extraState.nIterations += 1;
+    // the last LLM call of a task must answer without calling tools
+    const isLastIteration =
+      task.extraState.nIterations >= task.extraState.maxIterations;
+    const toolChoice: ToolChoice = isLastIteration
+      ? "none"
+      : kwargs?.toolChoice ?? "auto";
+
+    const params: LLMChatParamsBase = {
+      messages: this.getAllMessages(task),
+      parentEvent,
+    };
+    if (tools.length > 0) {
+      params.tools = tools.map((tool) => tool.metadata);
+      params.toolChoice = toolChoice;
+    }
+
+    // tool calls are only returned by non-streaming responses
+    if (
+      mode === ChatResponseMode.STREAM &&
+      (tools.length === 0 || toolChoice === "none")
+    ) {
+      const output = await this._getStreamResponse(task, params);
+      return new TaskStepOutput(output, step, [], true);
+    }
+
+    const response = await this.llm.chat({ ...params, stream: false });
+    task.extraState.newMemory.put(response.message);
+
+    const toolCalls: ToolCall[] =
+      response.message.additionalKwargs?.toolCalls ?? [];
+
+    const content = extractText(response.message.content);
+
+    if (toolCalls.length === 0 || isLastIteration) {
+      const output =
+        mode === ChatResponseMode.STREAM
+          ? new StreamingAgentChatResponse(
+              (async function* () {
+                yield new Response(content);
+              })(),
+              task.extraState.sources,
+            )
+          : new AgentChatResponse(content, task.extraState.sources);
+      return new TaskStepOutput(output, step, [], true);
+    }
+
+    const outputs = await this._callTools(tools, toolCalls, parentEvent);
+    for (const { message, toolOutput } of outputs) {
+      task.extraState.newMemory.put(message);
+      task.extraState.sources.push(toolOutput);
+    }
+
+    return new TaskStepOutput(
+      new AgentChatResponse(content, task.extraState.sources),
+      step,
+      [step.getNextStep(randomUUID(), undefined)],
+      false,
+    );
+  }
+
+  /**
+   * Run step.
+   * @param step: step
+   * @param task: task
+   * @param kwargs: kwargs
+   * @returns: task step output
+   */
+  async runStep(
+    step: TaskStep,
+    task: Task,
+    kwargs?: any,
+  ): Promise<TaskStepOutput> {
+    return this._runStep(step, task, ChatResponseMode.WAIT, kwargs);
+  }
+
+  /**
+   * Stream step.
+   * @param step: step
+   * @param task: task
+   * @param kwargs: kwargs
+   * @returns: task step output
+   */
+  async streamStep(
+    step: TaskStep,
+    task: Task,
+    kwargs?: any,
+  ): Promise<TaskStepOutput> {
+    return this._runStep(step, task, ChatResponseMode.STREAM, kwargs);
+  }
+
+  /**
+   * Finalize task.
+   * @param task: task
+   * @param kwargs: kwargs
+   * @returns: void
+   */
+  finalizeTask(task: Task, kwargs?: any): void {
+    task.memory.set(task.memory.get().concat(task.extraState.newMemory.get()));
+    task.extraState.newMemory.reset();
+  }
+}
@@ -1,3 +1,5 @@
+export * from "./functionCalling/base.js";
+export * from "./functionCalling/worker.js";
 export * from "./openai/base.js";
 export * from "./openai/worker.js";
 export * from "./react/base.js";
@@ -1,77 +1,38 @@
-import type { CallbackManager } from "../../callbacks/CallbackManager.js";
-import type { ChatMessage } from "../../llm/index.js";
 import { OpenAI } from "../../llm/index.js";
-import type { ObjectRetriever } from "../../objects/base.js";
-import type { BaseTool } from "../../types.js";
-import { AgentRunner } from "../runner/base.js";
-import { OpenAIAgentWorker } from "./worker.js";
+import type { FunctionCallingAgentParams } from "../functionCalling/base.js";
+import { FunctionCallingAgent } from "../functionCalling/base.js";
 
-type OpenAIAgentParams = {
-  tools?: BaseTool[];
+type OpenAIAgentParams = Omit<FunctionCallingAgentParams, "llm"> & {
   llm?: OpenAI;
-  memory?: any;
-  prefixMessages?: ChatMessage[];
-  verbose?: boolean;
+  /**
+   * The maximum number of iterations of the agent, the calls of the tools
+   * requested in a single LLM response count as one.
+   * @deprecated use maxIterations instead
+   */
   maxFunctionCalls?: number;
-  defaultToolChoice?: string;
-  callbackManager?: CallbackManager;
-  toolRetriever?: ObjectRetriever;
-  systemPrompt?: string;
 };
 
+// the defaults of the OpenAIAgent from before it became a FunctionCallingAgent
+const DEFAULT_MAX_FUNCTION_CALLS = 5;
+const DEFAULT_MODEL = "gpt-3.5-turbo-0613";
+
 /**
  * An agent that uses OpenAI's API to generate text.
  *
  * @category OpenAI
  */
-export class OpenAIAgent extends AgentRunner {
+export class OpenAIAgent extends FunctionCallingAgent {
   constructor({
-    tools,
     llm,
-    memory,
-    prefixMessages,
-    verbose,
-    maxFunctionCalls = 5,
-    defaultToolChoice = "auto",
-    callbackManager,
-    toolRetriever,
-    systemPrompt,
+    maxFunctionCalls,
+    maxIterations,
+    ...params
   }: OpenAIAgentParams) {
-    llm = llm ?? new OpenAI({ model: "gpt-3.5-turbo-0613" });
-
-    if (systemPrompt) {
-      if (prefixMessages) {
-        throw new Error("Cannot provide both systemPrompt and prefixMessages");
-      }
-
-      prefixMessages = [
-        {
-          content: systemPrompt,
-          role: "system",
-        },
-      ];
-    }
-
-    if (!llm?.metadata.isFunctionCallingModel) {
-      throw new Error("LLM model must be a function-calling model");
-    }
-
-    const stepEngine = new OpenAIAgentWorker({
-      tools,
-      callbackManager,
-      llm,
-      prefixMessages,
-      maxFunctionCalls,
-      toolRetriever,
-      verbose,
-    });
-
     super({
-      agentWorker: stepEngine,
-      memory,
-      callbackManager,
-      defaultToolChoice,
-      chatHistory: prefixMessages,
+      ...params,
+      llm: llm ?? new OpenAI({ model: DEFAULT_MODEL }),
+      maxIterations:
+        maxIterations ?? maxFunctionCalls ?? DEFAULT_MAX_FUNCTION_CALLS,
     });
   }
 }
@@ -1,13 +1,4 @@
-export type OpenAIToolCall = ChatCompletionMessageToolCall;
+import type { ToolCall } from "../../../llm/types.js";
 
-export interface Function {
-  arguments: string;
-  name: string;
-  type: "function";
-}
-
-export interface ChatCompletionMessageToolCall {
-  id: string;
-  function: Function;
-  type: "function";
-}
+// the tool calls of all LLMs use the format of OpenAI
+export type OpenAIToolCall = ToolCall;
@@ -1,6 +1,10 @@
 import { randomUUID } from "@llamaindex/env";
 import { Response } from "../../Response.js";
-import type { CallbackManager } from "../../callbacks/CallbackManager.js";
+import type {
+  CallbackManager,
+  Event,
+} from "../../callbacks/CallbackManager.js";
+import { traceEvent } from "../../callbacks/CallbackManager.js";
 import {
   AgentChatResponse,
   ChatResponseMode,
@@ -10,6 +14,7 @@ import type {
   ChatMessage,
   ChatResponse,
   ChatResponseChunk,
+  ToolChoice,
 } from "../../llm/index.js";
 import { OpenAI } from "../../llm/index.js";
 import { streamConverter, streamReducer } from "../../llm/utils.js";
@@ -17,12 +22,11 @@ import { ChatMemoryBuffer } from "../../memory/ChatMemoryBuffer.js";
 import type { ObjectRetriever } from "../../objects/base.js";
 import type { ToolOutput } from "../../tools/types.js";
 import { callToolWithErrorHandling } from "../../tools/utils.js";
-import type { BaseTool } from "../../types.js";
+import type { BaseTool, ToolMetadata } from "../../types.js";
 import type { AgentWorker, Task } from "../types.js";
 import { TaskStep, TaskStepOutput } from "../types.js";
 import { addUserStepToMemory, getFunctionByName } from "../utils.js";
 import type { OpenAIToolCall } from "./types/chat.js";
-import { toOpenAiTool } from "./utils.js";
 
 const DEFAULT_MAX_FUNCTION_CALLS = 5;
 
@@ -49,11 +53,10 @@ async function callFunction(
   }
 
   const tool = getFunctionByName(tools, name);
-  const argumentDict = JSON.parse(argumentsStr);
 
-  // Call tool
+  // Call tool, the arguments are validated by the tool
   // Use default error message
-  const output = await callToolWithErrorHandling(tool, argumentDict, null);
+  const output = await callToolWithErrorHandling(tool, argumentsStr, null);
 
   if (verbose) {
     console.log(`Got output ${output}`);
@@ -66,7 +69,7 @@ async function callFunction(
       role: "tool",
       additionalKwargs: {
         name,
-        tool_call_id: id_,
+        toolCallId: id_,
       },
     },
     output,
@@ -91,6 +94,7 @@ type CallFunctionOutput = {
 /**
  * OpenAI agent worker.
  * This class is responsible for running the agent.
+ * @deprecated use FunctionCallingAgentWorker instead, which works with any function-calling LLM
  */
 export class OpenAIAgentWorker implements AgentWorker {
   private llm: OpenAI;
@@ -163,21 +167,21 @@ export class OpenAIAgentWorker implements AgentWorker {
   /**
    *
    * @param task
-   * @param openaiTools
+   * @param tools
    * @param toolChoice
    * @returns
    */
   private _getLlmChatKwargs(
     task: Task,
-    openaiTools: { [key: string]: any }[],
-    toolChoice: string | { [key: string]: any } = "auto",
+    tools: ToolMetadata[],
+    toolChoice: ToolChoice = "auto",
   ): { [key: string]: any } {
     const llmChatKwargs: { [key: string]: any } = {
       messages: this.getAllMessages(task),
     };
 
-    if (openaiTools.length > 0) {
-      llmChatKwargs.tools = openaiTools;
+    if (tools.length > 0) {
+      llmChatKwargs.tools = tools;
       llmChatKwargs.toolChoice = toolChoice;
     }
 
@@ -204,9 +208,11 @@ export class OpenAIAgentWorker implements AgentWorker {
     task: Task,
     llmChatKwargs: any,
   ): Promise<StreamingAgentChatResponse> {
+    // streamed responses don't return tool calls
     const stream = await this.llm.chat({
       stream: true,
       ...llmChatKwargs,
+      ...(llmChatKwargs.tools && { toolChoice: "none" }),
     });
 
     const iterator = streamConverter(
@@ -264,6 +270,7 @@ export class OpenAIAgentWorker implements AgentWorker {
   async callFunction(
     tools: BaseTool[],
     toolCall: OpenAIToolCall,
+    parentEvent?: Event,
   ): Promise<CallFunctionOutput> {
     const functionCall = toolCall.function;
 
@@ -271,7 +278,11 @@ export class OpenAIAgentWorker implements AgentWorker {
       throw new Error("Invalid tool_call object");
     }
 
-    const functionMessage = await callFunction(tools, toolCall, this.verbose);
+    const functionMessage = await traceEvent(
+      this.callbackManager,
+      { type: "toolCall", parentEvent, input: functionCall },
+      () => callFunction(tools, toolCall, this.verbose),
+    );
 
     const message = functionMessage[0];
     const toolOutput = functionMessage[1];
@@ -341,23 +352,22 @@ export class OpenAIAgentWorker implements AgentWorker {
     step: TaskStep,
     task: Task,
     mode: ChatResponseMode = ChatResponseMode.WAIT,
-    toolChoice: string | { [key: string]: any } = "auto",
+    kwargs?: any,
   ): Promise<TaskStepOutput> {
+    const toolChoice: ToolChoice = kwargs?.toolChoice || "auto";
+    const parentEvent: Event | undefined = kwargs?.parentEvent;
     const tools = await this.getTools(task.input);
 
     if (step.input) {
       addUserStepToMemory(step, task.extraState.newMemory, this.verbose);
     }
 
-    const openaiTools = tools.map((tool) =>
-      toOpenAiTool({
-        name: tool.metadata.name,
-        description: tool.metadata.description,
-        parameters: tool.metadata.parameters,
-      }),
+    const llmChatKwargs = this._getLlmChatKwargs(
+      task,
+      tools.map((tool) => tool.metadata),
+      toolChoice,
     );
-
-    const llmChatKwargs = this._getLlmChatKwargs(task, openaiTools, toolChoice);
+    llmChatKwargs.parentEvent = parentEvent;
 
     const agentChatResponse = await this._getAgentResponse(
       task,
@@ -381,6 +391,7 @@ export class OpenAIAgentWorker implements AgentWorker {
         const { message, toolOutput } = await this.callFunction(
           tools,
           toolCall,
+          parentEvent,
         );
 
         task.extraState.sources.push(toolOutput);
@@ -407,8 +418,7 @@ export class OpenAIAgentWorker implements AgentWorker {
     task: Task,
     kwargs?: any,
   ): Promise<TaskStepOutput> {
-    const toolChoice = kwargs?.toolChoice || "auto";
-    return this._runStep(step, task, ChatResponseMode.WAIT, toolChoice);
+    return this._runStep(step, task, ChatResponseMode.WAIT, kwargs);
   }
 
   /**
@@ -423,8 +433,7 @@ export class OpenAIAgentWorker implements AgentWorker {
     task: Task,
     kwargs?: any,
   ): Promise<TaskStepOutput> {
-    const toolChoice = kwargs?.toolChoice || "auto";
-    return this._runStep(step, task, ChatResponseMode.STREAM, toolChoice);
+    return this._runStep(step, task, ChatResponseMode.STREAM, kwargs);
   }
 
   /**
@@ -1,5 +1,9 @@
 import { randomUUID } from "crypto";
-import { CallbackManager } from "../../callbacks/CallbackManager.js";
+import type { Event } from "../../callbacks/CallbackManager.js";
+import {
+  CallbackManager,
+  traceEvent,
+} from "../../callbacks/CallbackManager.js";
 import { AgentChatResponse } from "../../engines/chat/index.js";
 import type { ChatResponse, LLM } from "../../llm/index.js";
 import { OpenAI } from "../../llm/index.js";
@@ -187,14 +191,18 @@ export class ReActAgentWorker implements AgentWorker {
    * @param task - task
    * @param tools - tools
    * @param output - chat response
-   * @param isStreaming - whether the chat response is streaming
+   * @param options.isStreaming - whether the chat response is streaming
+   * @param options.parentEvent - event of the agent step
    * @returns - [reasoning steps, is done]
    */
   async _processActions(
     task: Task,
     tools: BaseTool[],
     output: ChatResponse,
-    isStreaming: boolean = false,
+    {
+      isStreaming = false,
+      parentEvent,
+    }: { isStreaming?: boolean; parentEvent?: Event } = {},
   ): Promise<[BaseReasoningStep[], boolean]> {
     const toolsDict: Record<string, BaseTool> = {};
 
@@ -223,7 +231,18 @@ export class ReActAgentWorker implements AgentWorker {
 
     const tool = toolsDict[actionReasoningStep.action];
 
-    const toolOutput = await tool?.call?.(actionReasoningStep.actionInput);
+    const toolOutput = await traceEvent(
+      this.callbackManager,
+      {
+        type: "toolCall",
+        parentEvent,
+        input: {
+          name: actionReasoningStep.action,
+          arguments: actionReasoningStep.actionInput,
+        },
+      },
+      async () => tool?.call?.(actionReasoningStep.actionInput),
+    );
 
     task.extraState.sources.push(
       new ToolOutput(
@@ -330,12 +349,14 @@ export class ReActAgentWorker implements AgentWorker {
 
     const chatResponse = await this.llm.chat({
       messages: inputChat,
+      parentEvent: kwargs?.parentEvent,
     });
 
     const [reasoningSteps, isDone] = await this._processActions(
       task,
       tools,
       chatResponse,
+      { parentEvent: kwargs?.parentEvent },
     );
 
     task.extraState.currentReasoning.push(...reasoningSteps);
@@ -367,7 +388,7 @@ export class ReActAgentWorker implements AgentWorker {
     task: Task,
     kwargs?: any,
   ): Promise<TaskStepOutput> {
-    return await this._runStep(step, task);
+    return await this._runStep(step, task, kwargs);
   }
 
   /**
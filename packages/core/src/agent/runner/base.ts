@@ -1,12 +1,15 @@
 import { randomUUID } from "crypto";
-import { CallbackManager } from "../../callbacks/CallbackManager.js";
+import {
+  CallbackManager,
+  traceEvent,
+} from "../../callbacks/CallbackManager.js";
 import type { ChatEngineAgentParams } from "../../engines/chat/index.js";
 import {
   AgentChatResponse,
   ChatResponseMode,
   StreamingAgentChatResponse,
 } from "../../engines/chat/index.js";
-import type { ChatMessage, LLM } from "../../llm/index.js";
+import type { ChatMessage, LLM, ToolChoice } from "../../llm/index.js";
 import { ChatMemoryBuffer } from "../../memory/ChatMemoryBuffer.js";
 import type { BaseMemory } from "../../memory/types.js";
 import type { AgentWorker, TaskStepOutput } from "../types.js";
@@ -39,7 +42,7 @@ type AgentRunnerParams = {
   callbackManager?: CallbackManager;
   initTaskStateKwargs?: Record<string, any>;
   deleteTaskOnFinish?: boolean;
-  defaultToolChoice?: string;
+  defaultToolChoice?: string | ToolChoice;
 };
 
 export class AgentRunner extends BaseAgentRunner {
@@ -49,7 +52,7 @@ export class AgentRunner extends BaseAgentRunner {
   callbackManager: CallbackManager;
   initTaskStateKwargs: Record<string, any>;
   deleteTaskOnFinish: boolean;
-  defaultToolChoice: string;
+  defaultToolChoice: string | ToolChoice;
 
   /**
    * Creates an AgentRunner.
@@ -102,7 +105,7 @@ export class AgentRunner extends BaseAgentRunner {
       ...kwargs,
     });
 
-    const initialStep = this.agentWorker.initializeStep(task);
+    const initialStep = this.agentWorker.initializeStep(task, kwargs);
 
     const taskState = new TaskState({
       task,
@@ -165,20 +168,25 @@ export class AgentRunner extends BaseAgentRunner {
     const task = this.state.getTask(taskId);
     const curStep = step || this.state.getStepQueue(taskId).shift();
 
-    let curStepOutput;
-
     if (!curStep) {
       throw new Error(`No step found for task ${taskId}`);
     }
 
-    if (mode === ChatResponseMode.WAIT) {
-      curStepOutput = await this.agentWorker.runStep(curStep, task, kwargs);
-    } else if (mode === ChatResponseMode.STREAM) {
-      curStepOutput = await this.agentWorker.streamStep(curStep, task, kwargs);
-    } else {
+    if (mode !== ChatResponseMode.WAIT && mode !== ChatResponseMode.STREAM) {
       throw new Error(`Invalid mode: ${mode}`);
     }
 
+    const curStepOutput = await traceEvent(
+      this.callbackManager,
+      { type: "agentStep", parentEvent: kwargs?.parentEvent, input: curStep },
+      (event) => {
+        const stepKwargs = { ...kwargs, parentEvent: event };
+        return mode === ChatResponseMode.WAIT
+          ? this.agentWorker.runStep(curStep, task, stepKwargs)
+          : this.agentWorker.streamStep(curStep, task, stepKwargs);
+      },
+    );
+
     const nextSteps = curStepOutput.nextSteps;
 
     this.state.addSteps(taskId, nextSteps);
@@ -1,4 +1,5 @@
 import type { Anthropic } from "@anthropic-ai/sdk";
+import { globalsHelper } from "../GlobalsHelper.js";
 import type { NodeWithScore } from "../Node.js";
 
 /*
@@ -9,7 +10,16 @@ import type { NodeWithScore } from "../Node.js";
 */
 
 export type EventTag = "intermediate" | "final";
-export type EventType = "retrieve" | "llmPredict" | "wrapper";
+export type EventType =
+  | "retrieve"
+  | "llmPredict"
+  | "wrapper"
+  | "embedding"
+  | "nodeParsing"
+  | "synthesize"
+  | "toolCall"
+  | "agentStep"
+  | "subQuestion";
 export interface Event {
   id: string;
   type: EventType;
@@ -44,7 +54,6 @@ export type AnthropicStreamToken = Anthropic.Completion;
 //
 //Callback Responses
 //
-//TODO: Write Embedding Callbacks
 
 //StreamCallbackResponse should let practitioners implement callbacks out of the box...
 //When custom streaming LLMs are involved, people are expected to write their own StreamCallbackResponses
@@ -59,6 +68,18 @@ export interface RetrievalCallbackResponse extends BaseCallbackResponse {
   nodes: NodeWithScore[];
 }
 
+export interface EventStartCallbackResponse extends BaseCallbackResponse {
+  input?: unknown;
+}
+
+export interface EventEndCallbackResponse extends BaseCallbackResponse {
+  // for streams, the list of all streamed items
+  output?: unknown;
+  // set if the operation failed
+  error?: unknown;
+  durationMs: number;
+}
+
 interface CallbackManagerMethods {
   /*
     onLLMStream is called when a token is streamed from the LLM. Defining this
@@ -71,14 +92,99 @@ interface CallbackManagerMethods {
     is still running.
   */
   onRetrieve?: (params: RetrievalCallbackResponse) => Promise<void> | void;
+  /*
+    onEventStart and onEventEnd are called before and after traced operations:
+    LLM calls, embedding batches, node parsing, synthesis, tool calls, agent steps
+    and sub-questions.
+    Nested operations are linked to their parent by the parentId of the event.
+  */
+  onEventStart?: (params: EventStartCallbackResponse) => Promise<void> | void;
+  onEventEnd?: (params: EventEndCallbackResponse) => Promise<void> | void;
 }
 
 export class CallbackManager implements CallbackManagerMethods {
   onLLMStream?: (params: StreamCallbackResponse) => Promise<void> | void;
   onRetrieve?: (params: RetrievalCallbackResponse) => Promise<void> | void;
+  onEventStart?: (params: EventStartCallbackResponse) => Promise<void> | void;
+  onEventEnd?: (params: EventEndCallbackResponse) => Promise<void> | void;
 
   constructor(handlers?: CallbackManagerMethods) {
     this.onLLMStream = handlers?.onLLMStream;
     this.onRetrieve = handlers?.onRetrieve;
+    this.onEventStart = handlers?.onEventStart;
+    this.onEventEnd = handlers?.onEventEnd;
+  }
+}
+
+export type TraceEventOptions = {
+  type: EventType;
+  parentEvent?: Event;
+  tags?: EventTag[];
+  input?: unknown;
+};
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return (
+    typeof value === "object" && value !== null && Symbol.asyncIterator in value
+  );
+}
+
+async function* traceStream<T>(
+  stream: AsyncIterable<T>,
+  end: (result: { output?: unknown; error?: unknown }) => Promise<void>,
+): AsyncIterable<T> {
+  const items: T[] = [];
+  let result: { output?: unknown; error?: unknown } = { output: items };
+  try {
+    for await (const item of stream) {
+      items.push(item);
+      yield item;
+    }
+  } catch (error) {
+    result = { error };
+    throw error;
+  } finally {
+    // also runs when the consumer stops early, the output is what was consumed
+    await end(result);
+  }
+}
+
+/**
+ * Runs `fn` in a new event and calls the `onEventStart` and `onEventEnd`
+ * callbacks of the callback manager (if any) around it.
+ * Pass the event that `fn` receives as `parentEvent` to nested operations.
+ * If `fn` returns a stream, the end of the event is the end of the stream.
+ */
+export async function traceEvent<T>(
+  callbackManager: CallbackManager | undefined,
+  { type, parentEvent, tags, input }: TraceEventOptions,
+  fn: (event: Event) => Promise<T>,
+): Promise<T> {
+  const event = globalsHelper.createEvent({ parentEvent, type, tags });
+  if (!callbackManager?.onEventStart && !callbackManager?.onEventEnd) {
+    return fn(event);
+  }
+
+  const startTime = Date.now();
+  const end = async (result: { output?: unknown; error?: unknown }) => {
+    await callbackManager.onEventEnd?.({
+      event,
+      ...result,
+      durationMs: Date.now() - startTime,
+    });
+  };
+  await callbackManager.onEventStart?.({ event, input });
+
+  let output: T;
+  try {
+    output = await fn(event);
+  } catch (error) {
+    await end({ error });
+    throw error;
+  }
+  if (isAsyncIterable(output)) {
+    return traceStream(output, end) as T;
   }
+  await end({ output });
+  return output;
 }
@@ -0,0 +1,226 @@
+import { globalsHelper } from "../GlobalsHelper.js";
+import type { ChatMessage, TokenUsage } from "../llm/types.js";
+import { extractText } from "../llm/utils.js";
+import type {
+  Event,
+  EventEndCallbackResponse,
+  EventStartCallbackResponse,
+} from "./CallbackManager.js";
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export type ModelPricing = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+export type UsageSummary = TokenUsage & {
+  llmCalls: number;
+  // estimated cost in USD, 0 for models without pricing
+  cost: number;
+};
+
+export type QueryUsage = {
+  // the root event of the query and its input
+  event: Event;
+  input?: unknown;
+  usage: UsageSummary;
+};
+
+export type TokenCountingHandlerOptions = {
+  pricing?: Record<string, ModelPricing>;
+  // count the tokens with the default tokenizer if a LLM doesn't report its usage
+  estimateMissingUsage?: boolean;
+};
+
+type EventInfo = {
+  rootId: string;
+  taskId?: string;
+  input?: unknown;
+};
+
+const emptyUsage = (): UsageSummary => ({
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  llmCalls: 0,
+  cost: 0,
+});
+
+function getOutputText(output: unknown): string {
+  if (Array.isArray(output)) {
+    // the chunks of a stream
+    return output.map(getOutputText).join("");
+  }
+  const { message, text, delta } = (output ?? {}) as Record<string, any>;
+  return extractText(message?.content ?? text ?? delta ?? "");
+}
+
+function getUsage(output: unknown): TokenUsage | undefined {
+  if (Array.isArray(output)) {
+    // the last chunk of a stream has the usage
+    return [...output].reverse().find((chunk) => chunk?.usage)?.usage;
+  }
+  return (output as { usage?: TokenUsage } | undefined)?.usage;
+}
+
+function copyUsages(
+  usages: Record<string, UsageSummary>,
+): Record<string, UsageSummary> {
+  return Object.fromEntries(
+    Object.entries(usages).map(([key, usage]) => [key, { ...usage }]),
+  );
+}
+
+/**
+ * Aggregates the token usage of the LLM calls of a CallbackManager
+ * per model, per query (i.e. per root event) and per agent task.
+ *
+ * @example
+ * const tokenCounter = new TokenCountingHandler({
+ *   pricing: { "gpt-3.5-turbo": { promptTokens: 0.5, completionTokens: 1.5 } },
+ * });
+ * const callbackManager = new CallbackManager(tokenCounter);
+ * // ... run queries using the callback manager
+ * console.log(tokenCounter.getTotalUsage().cost);
+ */
+export class TokenCountingHandler {
+  pricing: Record<string, ModelPricing>;
+  estimateMissingUsage: boolean;
+
+  private events = new Map<string, EventInfo>();
+  private totalUsage = emptyUsage();
+  private usageByModel: Record<string, UsageSummary> = {};
+  private usageByQuery = new Map<string, QueryUsage>();
+  private usageByTask: Record<string, UsageSummary> = {};
+
+  constructor(options?: TokenCountingHandlerOptions) {
+    this.pricing = options?.pricing ?? {};
+    this.estimateMissingUsage = options?.estimateMissingUsage ?? true;
+  }
+
+  onEventStart = ({ event, input }: EventStartCallbackResponse) => {
+    const parent = event.parentId ? this.events.get(event.parentId) : undefined;
+    const taskId =
+      event.type === "agentStep"
+        ? (input as { taskId?: string } | undefined)?.taskId
+        : parent?.taskId;
+    this.events.set(event.id, {
+      rootId: parent?.rootId ?? event.id,
+      taskId,
+      input,
+    });
+    if (!parent) {
+      this.usageByQuery.set(event.id, { event, input, usage: emptyUsage() });
+    }
+  };
+
+  onEventEnd = ({ event, output, error }: EventEndCallbackResponse) => {
+    const info = this.events.get(event.id);
+    if (!info) {
+      return;
+    }
+    // events end after their children, so their info is not needed anymore
+    this.events.delete(event.id);
+    if (event.type === "llmPredict" && !error) {
+      this.addUsage(info, output);
+    }
+    // only keep the queries that called a LLM
+    if (!this.usageByQuery.get(event.id)?.usage.llmCalls) {
+      this.usageByQuery.delete(event.id);
+    }
+  };
+
+  private addUsage(info: EventInfo, output: unknown) {
+    const { model = "unknown" } = (info.input ?? {}) as { model?: string };
+    const usage = getUsage(output) ?? this.estimateUsage(info.input, output);
+    if (!usage) {
+      return;
+    }
+
+    const pricing = this.pricing[model];
+    const cost = pricing
+      ? (usage.promptTokens * pricing.promptTokens +
+          usage.completionTokens * pricing.completionTokens) /
+        1_000_000
+      : 0;
+    if (!this.usageByModel[model]) {
+      this.usageByModel[model] = emptyUsage();
+    }
+    if (info.taskId && !this.usageByTask[info.taskId]) {
+      this.usageByTask[info.taskId] = emptyUsage();
+    }
+    const summaries = [
+      this.totalUsage,
+      this.usageByModel[model],
+      this.usageByQuery.get(info.rootId)?.usage,
+      info.taskId ? this.usageByTask[info.taskId] : undefined,
+    ];
+    for (const summary of summaries) {
+      if (summary) {
+        summary.promptTokens += usage.promptTokens;
+        summary.completionTokens += usage.completionTokens;
+        summary.totalTokens += usage.totalTokens;
+        summary.llmCalls += 1;
+        summary.cost += cost;
+      }
+    }
+  }
+
+  private estimateUsage(
+    input: unknown,
+    output: unknown,
+  ): TokenUsage | undefined {
+    if (!this.estimateMissingUsage) {
+      return undefined;
+    }
+    const { messages, prompt } = (input ?? {}) as {
+      messages?: ChatMessage[];
+      prompt?: string;
+    };
+    const promptText = messages
+      ? messages.map((message) => extractText(message.content)).join("\n")
+      : extractText(prompt ?? "");
+    const tokenizer = globalsHelper.tokenizer();
+    const promptTokens = tokenizer(promptText).length;
+    const completionTokens = tokenizer(getOutputText(output)).length;
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+    };
+  }
+
+  getTotalUsage(): UsageSummary {
+    return { ...this.totalUsage };
+  }
+
+  getUsageByModel(): Record<string, UsageSummary> {
+    return copyUsages(this.usageByModel);
+  }
+
+  /**
+   * @returns the usage of each query, in the order the queries started
+   */
+  getUsageByQuery(): QueryUsage[] {
+    return [...this.usageByQuery.values()]
+      .filter(({ usage }) => usage.llmCalls > 0)
+      .map((query) => ({ ...query, usage: { ...query.usage } }));
+  }
+
+  /**
+   * @returns the usage of each agent task, by task id
+   */
+  getUsageByTask(): Record<string, UsageSummary> {
+    return copyUsages(this.usageByTask);
+  }
+
+  reset(): void {
+    this.events.clear();
+    this.totalUsage = emptyUsage();
+    this.usageByModel = {};
+    this.usageByQuery.clear();
+    this.usageByTask = {};
+  }
+}
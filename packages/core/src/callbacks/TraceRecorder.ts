@@ -0,0 +1,79 @@
+import type {
+  Event,
+  EventEndCallbackResponse,
+  EventStartCallbackResponse,
+} from "./CallbackManager.js";
+
+export type TraceSpan = {
+  event: Event;
+  input?: unknown;
+  output?: unknown;
+  error?: unknown;
+  // undefined while the operation is running
+  durationMs?: number;
+  children: TraceSpan[];
+};
+
+/**
+ * Records the start and end events of a CallbackManager as a tree of spans.
+ *
+ * @example
+ * const recorder = new TraceRecorder();
+ * const callbackManager = new CallbackManager(recorder);
+ * // ... run a query using the callback manager
+ * console.log(recorder.formatTraceTree());
+ */
+export class TraceRecorder {
+  private spans = new Map<string, TraceSpan>();
+
+  onEventStart = ({ event, input }: EventStartCallbackResponse) => {
+    const span: TraceSpan = { event, input, children: [] };
+    this.spans.set(event.id, span);
+    if (event.parentId) {
+      this.spans.get(event.parentId)?.children.push(span);
+    }
+  };
+
+  onEventEnd = ({
+    event,
+    output,
+    error,
+    durationMs,
+  }: EventEndCallbackResponse) => {
+    const span = this.spans.get(event.id);
+    if (span) {
+      Object.assign(span, { output, error, durationMs });
+    }
+  };
+
+  /**
+   * @returns the root spans, i.e. spans without a recorded parent
+   */
+  getTraceTree(): TraceSpan[] {
+    return [...this.spans.values()].filter(
+      ({ event }) => !event.parentId || !this.spans.has(event.parentId),
+    );
+  }
+
+  /**
+   * Renders the trace tree, one span per line, indented by depth.
+   */
+  formatTraceTree(): string {
+    const lines: string[] = [];
+    const format = (span: TraceSpan, depth: number) => {
+      const duration =
+        span.durationMs === undefined ? "running" : `${span.durationMs}ms`;
+      const error = span.error ? ` error: ${span.error}` : "";
+      lines.push(
+        `${"  ".repeat(depth)}${span.event.type} (${duration})${error}`,
+      );
+      span.children.forEach((child) => format(child, depth + 1));
+    };
+    this.getTraceTree().forEach((span) => format(span, 0));
+    return lines.join("\n");
+  }
+
+  reset(): void {
+    this.spans.clear();
+  }
+}
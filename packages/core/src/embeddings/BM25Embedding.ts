@@ -0,0 +1,145 @@
+import type { SparseEmbedding } from "../Node.js";
+import { BaseSparseEmbedding } from "./types.js";
+
+export type BM25EmbeddingOptions = {
+  // term frequency saturation
+  k1?: number;
+  // document length normalization
+  b?: number;
+};
+
+export type BM25EmbeddingData = {
+  k1: number;
+  b: number;
+  numDocs: number;
+  totalDocLength: number;
+  docFreq: Record<number, number>;
+};
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+// 32-bit FNV-1a hash, used as the index of a token in the sparse embedding
+function tokenIndex(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function termFrequencies(text: string): Map<number, number> {
+  const frequencies = new Map<number, number>();
+  for (const token of tokenize(text)) {
+    const index = tokenIndex(token);
+    frequencies.set(index, (frequencies.get(index) ?? 0) + 1);
+  }
+  return frequencies;
+}
+
+function toSparseEmbedding(weights: Map<number, number>): SparseEmbedding {
+  const indices = [...weights.keys()].sort((a, b) => a - b);
+  return { indices, values: indices.map((index) => weights.get(index)!) };
+}
+
+/**
+ * BM25 sparse embeddings. The dot product of a query embedding and a text
+ * embedding is the BM25 score of the text (up to a constant factor).
+ *
+ * Text embeddings are computed with the corpus statistics known at the time
+ * they are embedded: `getTextSparseEmbeddings` first adds the texts to the
+ * statistics. Query embeddings contain the inverse document frequencies of
+ * the query terms, so the same (persisted) instance must be used for
+ * embedding the texts and the queries, see `toJSON` and `fromJSON`.
+ */
+export class BM25Embedding extends BaseSparseEmbedding {
+  k1: number;
+  b: number;
+  numDocs: number = 0;
+  totalDocLength: number = 0;
+  docFreq: Map<number, number> = new Map();
+
+  constructor(options?: BM25EmbeddingOptions) {
+    super();
+    this.k1 = options?.k1 ?? 1.2;
+    this.b = options?.b ?? 0.75;
+  }
+
+  /**
+   * Adds the texts to the corpus statistics.
+   */
+  fit(texts: string[]): void {
+    for (const text of texts) {
+      const frequencies = termFrequencies(text);
+      this.numDocs++;
+      this.totalDocLength += [...frequencies.values()].reduce(
+        (sum, tf) => sum + tf,
+        0,
+      );
+      for (const index of frequencies.keys()) {
+        this.docFreq.set(index, (this.docFreq.get(index) ?? 0) + 1);
+      }
+    }
+  }
+
+  async getTextSparseEmbeddings(texts: string[]): Promise<SparseEmbedding[]> {
+    this.fit(texts);
+    return texts.map((text) => this.encodeText(text));
+  }
+
+  async getQuerySparseEmbedding(query: string): Promise<SparseEmbedding> {
+    const weights = new Map<number, number>();
+    for (const index of termFrequencies(query).keys()) {
+      const docFreq = this.docFreq.get(index) ?? 0;
+      weights.set(
+        index,
+        Math.log(1 + (this.numDocs - docFreq + 0.5) / (docFreq + 0.5)),
+      );
+    }
+    const total = [...weights.values()].reduce((sum, w) => sum + w, 0);
+    for (const [index, weight] of weights) {
+      weights.set(index, weight / total);
+    }
+    return toSparseEmbedding(weights);
+  }
+
+  private encodeText(text: string): SparseEmbedding {
+    const frequencies = termFrequencies(text);
+    const docLength = [...frequencies.values()].reduce(
+      (sum, tf) => sum + tf,
+      0,
+    );
+    const avgDocLength = this.totalDocLength / Math.max(this.numDocs, 1) || 1;
+    const norm = this.k1 * (1 - this.b + (this.b * docLength) / avgDocLength);
+    const weights = new Map<number, number>();
+    for (const [index, tf] of frequencies) {
+      weights.set(index, (tf * (this.k1 + 1)) / (tf + norm));
+    }
+    return toSparseEmbedding(weights);
+  }
+
+  toJSON(): BM25EmbeddingData {
+    return {
+      k1: this.k1,
+      b: this.b,
+      numDocs: this.numDocs,
+      totalDocLength: this.totalDocLength,
+      docFreq: Object.fromEntries(this.docFreq),
+    };
+  }
+
+  static fromJSON(data: BM25EmbeddingData): BM25Embedding {
+    const embedding = new BM25Embedding({ k1: data.k1, b: data.b });
+    embedding.numDocs = data.numDocs;
+    embedding.totalDocLength = data.totalDocLength;
+    embedding.docFreq = new Map(
+      Object.entries(data.docFreq).map(([index, freq]) => [
+        Number(index),
+        freq,
+      ]),
+    );
+    return embedding;
+  }
+}
@@ -61,6 +61,7 @@ export class OpenAIEmbedding extends BaseEmbedding {
     this.dimensions = init?.dimensions; // if no dimensions provided, will be undefined/not sent to OpenAI
 
     this.embedBatchSize = init?.embedBatchSize ?? 10;
+    this.callbackManager = init?.callbackManager;
     this.maxRetries = init?.maxRetries ?? 10;
 
     this.timeout = init?.timeout ?? 60 * 1000; // Default is 60 seconds
@@ -1,3 +1,4 @@
+export * from "./BM25Embedding.js";
 export * from "./ClipEmbedding.js";
 export * from "./HuggingFaceEmbedding.js";
 export * from "./MistralAIEmbedding.js";
@@ -1,5 +1,7 @@
-import type { BaseNode } from "../Node.js";
+import type { BaseNode, SparseEmbedding } from "../Node.js";
 import { MetadataMode } from "../Node.js";
+import type { CallbackManager, Event } from "../callbacks/CallbackManager.js";
+import { traceEvent } from "../callbacks/CallbackManager.js";
 import type { TransformComponent } from "../ingestion/types.js";
 import { SimilarityType, similarity } from "./utils.js";
 
@@ -7,6 +9,7 @@ const DEFAULT_EMBED_BATCH_SIZE = 10;
 
 export abstract class BaseEmbedding implements TransformComponent {
   embedBatchSize = DEFAULT_EMBED_BATCH_SIZE;
+  callbackManager?: CallbackManager;
 
   similarity(
     embedding1: number[],
@@ -43,6 +46,7 @@ export abstract class BaseEmbedding implements TransformComponent {
     texts: string[],
     options?: {
       logProgress?: boolean;
+      parentEvent?: Event;
     },
   ): Promise<Array<number[]>> {
     const resultEmbeddings: Array<number[]> = [];
@@ -55,7 +59,16 @@ export abstract class BaseEmbedding implements TransformComponent {
     for (let i = 0; i < queue.length; i++) {
       curBatch.push(queue[i]);
       if (i == queue.length - 1 || curBatch.length == chunkSize) {
-        const embeddings = await this.getTextEmbeddings(curBatch);
+        const batch = [...curBatch];
+        const embeddings = await traceEvent(
+          this.callbackManager,
+          {
+            type: "embedding",
+            parentEvent: options?.parentEvent,
+            input: batch,
+          },
+          () => this.getTextEmbeddings(batch),
+        );
 
         resultEmbeddings.push(...embeddings);
 
@@ -82,3 +95,24 @@ export abstract class BaseEmbedding implements TransformComponent {
     return nodes;
   }
 }
+
+/*
+ * Base class for sparse embeddings, e.g. keyword based embeddings like BM25
+ * that are used for the sparse part of hybrid retrieval.
+ */
+export abstract class BaseSparseEmbedding implements TransformComponent {
+  abstract getTextSparseEmbeddings(texts: string[]): Promise<SparseEmbedding[]>;
+  abstract getQuerySparseEmbedding(query: string): Promise<SparseEmbedding>;
+
+  async transform(nodes: BaseNode[], _options?: any): Promise<BaseNode[]> {
+    const texts = nodes.map((node) => node.getContent(MetadataMode.EMBED));
+
+    const sparseEmbeddings = await this.getTextSparseEmbeddings(texts);
+
+    for (let i = 0; i < nodes.length; i++) {
+      nodes[i].sparseEmbedding = sparseEmbeddings[i];
+    }
+
+    return nodes;
+  }
+}
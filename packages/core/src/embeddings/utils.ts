@@ -119,17 +119,232 @@ export function getTopKEmbeddings(
   return [resultSimilarities, resultIds];
 }
 
+type LinearModel = { weights: number[]; bias: number };
+
+function dot(a: number[], b: number[]): number {
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result += a[i] * b[i];
+  }
+  return result;
+}
+
+// adds scale * x to target in place
+function addScaled(target: number[], x: number[], scale: number): void {
+  for (let i = 0; i < target.length; i++) {
+    target[i] += scale * x[i];
+  }
+}
+
+/**
+ * Linear SVM with squared hinge loss and balanced class weights (like sklearn's
+ * LinearSVC), trained with dual coordinate descent
+ * (Hsieh et al., "A Dual Coordinate Descent Method for Large-scale Linear SVM").
+ * The bias is learned as the weight of an additional constant feature.
+ */
+function fitLinearSVM(
+  x: number[][],
+  y: number[],
+  classWeights: number[],
+): LinearModel {
+  const C = 0.1;
+  const maxIter = 1000;
+  const tolerance = 1e-6;
+
+  const samples = x.map((xi) => [...xi, 1]);
+  const weights = new Array<number>(samples[0].length).fill(0);
+  const alpha = new Array<number>(samples.length).fill(0);
+  const diag = classWeights.map((weight) => 1 / (2 * C * weight));
+  const qDiag = samples.map((xi, i) => dot(xi, xi) + diag[i]);
+
+  for (let iter = 0; iter < maxIter; iter++) {
+    let maxPG = Number.NEGATIVE_INFINITY;
+    let minPG = Number.POSITIVE_INFINITY;
+    for (let i = 0; i < samples.length; i++) {
+      const gradient = y[i] * dot(weights, samples[i]) - 1 + diag[i] * alpha[i];
+      const projectedGradient =
+        alpha[i] === 0 ? Math.min(gradient, 0) : gradient;
+      maxPG = Math.max(maxPG, projectedGradient);
+      minPG = Math.min(minPG, projectedGradient);
+      if (projectedGradient !== 0) {
+        const previous = alpha[i];
+        alpha[i] = Math.max(alpha[i] - gradient / qDiag[i], 0);
+        addScaled(weights, samples[i], (alpha[i] - previous) * y[i]);
+      }
+    }
+    if (maxPG - minPG <= tolerance) {
+      break;
+    }
+  }
+
+  return { weights: weights.slice(0, -1), bias: weights[weights.length - 1] };
+}
+
+/**
+ * L2 regularized logistic regression with balanced class weights (like sklearn's
+ * LogisticRegression), trained with accelerated gradient descent.
+ */
+function fitLogisticRegression(
+  x: number[][],
+  y: number[],
+  classWeights: number[],
+): LinearModel {
+  const C = 1;
+  const maxIter = 500;
+  const tolerance = 1e-4;
+
+  const dimensions = x[0].length;
+  // Lipschitz constant of the gradient, gives a step size that always converges
+  const lipschitz =
+    1 +
+    0.25 *
+      C *
+      x.reduce((sum, xi, i) => sum + classWeights[i] * (dot(xi, xi) + 1), 0);
+  const step = 1 / lipschitz;
+
+  let weights = new Array<number>(dimensions).fill(0);
+  let bias = 0;
+  let previousWeights = weights;
+  let previousBias = bias;
+
+  for (let iter = 1; iter <= maxIter; iter++) {
+    // Nesterov momentum
+    const momentum = (iter - 1) / (iter + 2);
+    const lookaheadWeights = weights.map(
+      (w, j) => w + momentum * (w - previousWeights[j]),
+    );
+    const lookaheadBias = bias + momentum * (bias - previousBias);
+
+    const gradient = [...lookaheadWeights];
+    let biasGradient = 0;
+    for (let i = 0; i < x.length; i++) {
+      const margin = y[i] * (dot(lookaheadWeights, x[i]) + lookaheadBias);
+      const coefficient =
+        (-C * classWeights[i] * y[i]) / (1 + Math.exp(margin));
+      addScaled(gradient, x[i], coefficient);
+      biasGradient += coefficient;
+    }
+
+    previousWeights = weights;
+    previousBias = bias;
+    weights = lookaheadWeights.map((w, j) => w - step * gradient[j]);
+    bias = lookaheadBias - step * biasGradient;
+
+    const gradientNorm = Math.sqrt(
+      dot(gradient, gradient) + biasGradient * biasGradient,
+    );
+    if (gradientNorm < tolerance) {
+      break;
+    }
+  }
+
+  return { weights, bias };
+}
+
+/**
+ * Ordinary least squares linear regression (like sklearn's LinearRegression).
+ * Solved with conjugate gradients on the normal equations (CGLS) which returns
+ * the minimum norm solution if there are more dimensions than samples.
+ */
+function fitLinearRegression(x: number[][], y: number[]): LinearModel {
+  const tolerance = 1e-10;
+  const dimensions = x[0].length;
+  const maxIter = Math.min(x.length, dimensions, 1000);
+
+  // center the data to fit the intercept
+  const xMean = new Array<number>(dimensions).fill(0);
+  x.forEach((xi) => addScaled(xMean, xi, 1 / x.length));
+  const yMean = y.reduce((sum, yi) => sum + yi, 0) / y.length;
+  const a = x.map((xi) => xi.map((v, j) => v - xMean[j]));
+
+  const weights = new Array<number>(dimensions).fill(0);
+  const residual = y.map((yi) => yi - yMean);
+  const transposeTimes = (v: number[]) => {
+    const result = new Array<number>(dimensions).fill(0);
+    a.forEach((ai, i) => addScaled(result, ai, v[i]));
+    return result;
+  };
+  let s = transposeTimes(residual);
+  let p = [...s];
+  let gamma = dot(s, s);
+
+  for (let iter = 0; iter < maxIter && Math.sqrt(gamma) > tolerance; iter++) {
+    const q = a.map((ai) => dot(ai, p));
+    const stepSize = gamma / dot(q, q);
+    addScaled(weights, p, stepSize);
+    addScaled(residual, q, -stepSize);
+    s = transposeTimes(residual);
+    const nextGamma = dot(s, s);
+    p = s.map((sj, j) => sj + (nextGamma / gamma) * p[j]);
+    gamma = nextGamma;
+  }
+
+  return { weights, bias: yMean - dot(weights, xMean) };
+}
+
+/**
+ * Get the top K embeddings by fitting a linear model (SVM, logistic or linear
+ * regression) that separates the query (positive) from the embeddings
+ * (negatives) and ranking the embeddings by the model's decision function.
+ * See https://github.com/karpathy/randomfun/blob/master/knn_vs_svm.ipynb
+ * @param queryEmbedding
+ * @param embeddings list of embeddings to consider
+ * @param similarityTopK max number of embeddings to return, default 2
+ * @param embeddingsIds ids of embeddings in the embeddings list
+ * @param queryMode the learner to use
+ * @returns decision function values and ids of the top K embeddings
+ */
 // eslint-disable-next-line max-params
 export function getTopKEmbeddingsLearner(
   queryEmbedding: number[],
   embeddings: number[][],
-  similarityTopK?: number,
+  similarityTopK: number = DEFAULT_SIMILARITY_TOP_K,
   embeddingsIds?: any[],
   queryMode: VectorStoreQueryMode = VectorStoreQueryMode.SVM,
 ): [number[], any[]] {
-  throw new Error("Not implemented yet");
-  // To support SVM properly we're probably going to have to use something like
-  // https://github.com/mljs/libsvm which itself hasn't been updated in a while
+  const ids = embeddingsIds ?? embeddings.map((_, i) => i);
+  if (ids.length !== embeddings.length) {
+    throw new Error(
+      "getTopKEmbeddingsLearner: embeddings and embeddingIds length mismatch",
+    );
+  }
+  if (embeddings.length === 0) {
+    return [[], []];
+  }
+
+  const x = [queryEmbedding, ...embeddings];
+  const y = x.map((_, i) => (i === 0 ? 1 : -1));
+  // balanced class weights: n_samples / (n_classes * n_samples_of_class)
+  const classWeights = y.map((yi) =>
+    yi === 1 ? x.length / 2 : x.length / (2 * embeddings.length),
+  );
+
+  let model: LinearModel;
+  switch (queryMode) {
+    case VectorStoreQueryMode.SVM:
+      model = fitLinearSVM(x, y, classWeights);
+      break;
+    case VectorStoreQueryMode.LOGISTIC_REGRESSION:
+      model = fitLogisticRegression(x, y, classWeights);
+      break;
+    case VectorStoreQueryMode.LINEAR_REGRESSION:
+      model = fitLinearRegression(
+        x,
+        y.map((yi) => (yi === 1 ? 1 : 0)),
+      );
+      break;
+    default:
+      throw new Error(`Unsupported learner query mode: ${queryMode}`);
+  }
+
+  const scores = embeddings.map((embedding, i) => ({
+    similarity: dot(model.weights, embedding) + model.bias,
+    id: ids[i],
+  }));
+  scores.sort((a, b) => b.similarity - a.similarity);
+  const top = scores.slice(0, similarityTopK);
+
+  return [top.map((score) => score.similarity), top.map((score) => score.id)];
 }
 
 // eslint-disable-next-line max-params
@@ -1,10 +1,14 @@
 import { randomUUID } from "@llamaindex/env";
 import type { ChatHistory } from "../../ChatHistory.js";
 import { getHistory } from "../../ChatHistory.js";
+import { globalsHelper } from "../../GlobalsHelper.js";
+import type { MetadataMode } from "../../Node.js";
 import type { ContextSystemPrompt } from "../../Prompt.js";
+import { PromptHelper } from "../../PromptHelper.js";
 import { Response } from "../../Response.js";
 import type { BaseRetriever } from "../../Retriever.js";
 import type { Event } from "../../callbacks/CallbackManager.js";
+import { DEFAULT_NUM_OUTPUTS } from "../../constants.js";
 import type { ChatMessage, ChatResponseChunk, LLM } from "../../llm/index.js";
 import { OpenAI } from "../../llm/index.js";
 import type { MessageContent } from "../../llm/types.js";
@@ -27,11 +31,16 @@ import type {
  * ContextChatEngine uses the Index to get the appropriate context for each query.
  * The context is stored in the system prompt, and the chat history is preserved,
  * ideally allowing the appropriate context to be surfaced for each query.
+ *
+ * The context and the chat history are fitted in the context window of the chat
+ * model: the oldest messages and the nodes with the lowest scores are left out.
  */
 export class ContextChatEngine extends PromptMixin implements ChatEngine {
   chatModel: LLM;
   chatHistory: ChatHistory;
   contextGenerator: ContextGenerator;
+  promptHelper: PromptHelper;
+  historyRatio: number;
 
   constructor(init: {
     retriever: BaseRetriever;
@@ -39,16 +48,31 @@ export class ContextChatEngine extends PromptMixin implements ChatEngine {
     chatHistory?: ChatMessage[];
     contextSystemPrompt?: ContextSystemPrompt;
     nodePostprocessors?: BaseNodePostprocessor[];
+    // the maximum share of the context window used by the chat history, the context gets the rest
+    historyRatio?: number;
+    // the metadata of the nodes included in the context, MetadataMode.LLM by default
+    metadataMode?: MetadataMode;
   }) {
     super();
 
     this.chatModel =
       init.chatModel ?? new OpenAI({ model: "gpt-3.5-turbo-16k" });
     this.chatHistory = getHistory(init?.chatHistory);
+    const { contextWindow, maxTokens, tokenizer } = this.chatModel.metadata;
+    this.promptHelper = new PromptHelper(
+      contextWindow,
+      maxTokens ?? DEFAULT_NUM_OUTPUTS,
+      undefined,
+      undefined,
+      globalsHelper.tokenizer(tokenizer),
+    );
+    this.historyRatio = init.historyRatio ?? 0.5;
     this.contextGenerator = new DefaultContextGenerator({
       retriever: init.retriever,
       contextSystemPrompt: init?.contextSystemPrompt,
       nodePostprocessors: init?.nodePostprocessors,
+      metadataMode: init?.metadataMode,
+      tokenizer: this.promptHelper.tokenizer,
     });
   }
 
@@ -118,11 +142,47 @@ export class ContextChatEngine extends PromptMixin implements ChatEngine {
       role: "user",
     });
     const textOnly = extractText(message);
-    const context = await this.contextGenerator.generate(textOnly, parentEvent);
-    const nodes = context.nodes.map((r) => r.node);
-    const messages = await chatHistory.requestMessages(
-      context ? [context.message] : undefined,
+    const { contextWindow, numOutput } = this.promptHelper;
+    const availableTokens = contextWindow - numOutput;
+    const historyMessages = this.fitMessages(
+      await chatHistory.requestMessages(),
+      Math.floor(availableTokens * this.historyRatio),
+    );
+    const context = await this.contextGenerator.generate(
+      textOnly,
+      parentEvent,
+      availableTokens - this.countTokens(historyMessages),
     );
-    return { nodes, messages };
+    const nodes = context.nodes.map((r) => r.node);
+    return { nodes, messages: [context.message, ...historyMessages] };
+  }
+
+  /**
+   * Keeps the latest messages that fit in the tokens, at least the last one.
+   */
+  private fitMessages(messages: ChatMessage[], maxTokens: number) {
+    let start = messages.length - 1;
+    while (
+      start > 0 &&
+      this.countTokens(messages.slice(start - 1)) <= maxTokens
+    ) {
+      start--;
+    }
+    return messages.slice(start);
+  }
+
+  private countTokens(messages: ChatMessage[]): number {
+    try {
+      return this.chatModel.tokens(messages);
+    } catch {
+      // not all LLMs count the tokens of messages, count the tokens of their content
+      return messages.reduce(
+        (tokens, message) =>
+          tokens +
+          this.promptHelper.tokenizer(extractText(message.content)).length +
+          3,
+        3,
+      );
+    }
   }
 }
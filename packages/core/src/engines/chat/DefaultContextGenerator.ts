@@ -1,5 +1,7 @@
 import { randomUUID } from "@llamaindex/env";
-import type { NodeWithScore, TextNode } from "../../Node.js";
+import { globalsHelper } from "../../GlobalsHelper.js";
+import type { NodeWithScore } from "../../Node.js";
+import { MetadataMode } from "../../Node.js";
 import type { ContextSystemPrompt } from "../../Prompt.js";
 import { defaultContextSystemPrompt } from "../../Prompt.js";
 import type { BaseRetriever } from "../../Retriever.js";
@@ -8,6 +10,11 @@ import type { BaseNodePostprocessor } from "../../postprocessors/index.js";
 import { PromptMixin } from "../../prompts/index.js";
 import type { Context, ContextGenerator } from "./types.js";
 
+// a node is dropped instead of truncated if fewer tokens are left for it
+const MIN_TRUNCATED_NODE_TOKENS = 20;
+// the tokens of the separator between the nodes
+const SEPARATOR_TOKENS = 1;
+
 export class DefaultContextGenerator
   extends PromptMixin
   implements ContextGenerator
@@ -15,11 +22,17 @@ export class DefaultContextGenerator
   retriever: BaseRetriever;
   contextSystemPrompt: ContextSystemPrompt;
   nodePostprocessors: BaseNodePostprocessor[];
+  metadataMode: MetadataMode;
+  tokenizer: (text: string) => Uint32Array;
 
   constructor(init: {
     retriever: BaseRetriever;
     contextSystemPrompt?: ContextSystemPrompt;
     nodePostprocessors?: BaseNodePostprocessor[];
+    // the metadata of the nodes included in the context
+    metadataMode?: MetadataMode;
+    // counts the tokens of the context, should be the tokenizer of the chat model
+    tokenizer?: (text: string) => Uint32Array;
   }) {
     super();
 
@@ -27,6 +40,8 @@ export class DefaultContextGenerator
     this.contextSystemPrompt =
       init?.contextSystemPrompt ?? defaultContextSystemPrompt;
     this.nodePostprocessors = init.nodePostprocessors || [];
+    this.metadataMode = init.metadataMode ?? MetadataMode.LLM;
+    this.tokenizer = init.tokenizer ?? globalsHelper.tokenizer();
   }
 
   protected _getPrompts(): { contextSystemPrompt: ContextSystemPrompt } {
@@ -56,7 +71,11 @@ export class DefaultContextGenerator
     return nodesWithScore;
   }
 
-  async generate(message: string, parentEvent?: Event): Promise<Context> {
+  async generate(
+    message: string,
+    parentEvent?: Event,
+    maxTokens?: number,
+  ): Promise<Context> {
     if (!parentEvent) {
       parentEvent = {
         id: randomUUID(),
@@ -69,19 +88,69 @@ export class DefaultContextGenerator
       parentEvent,
     });
 
-    const nodes = await this.applyNodePostprocessors(
+    const nodesWithScore = await this.applyNodePostprocessors(
       sourceNodesWithScore,
       message,
     );
 
+    const texts = new Map(
+      nodesWithScore.map((nodeWithScore) => [
+        nodeWithScore,
+        nodeWithScore.node.getContent(this.metadataMode),
+      ]),
+    );
+    if (maxTokens !== undefined) {
+      this.fitTexts(texts, maxTokens);
+    }
+    const nodes = nodesWithScore.filter((nodeWithScore) =>
+      texts.has(nodeWithScore),
+    );
+
     return {
       message: {
         content: this.contextSystemPrompt({
-          context: nodes.map((r) => (r.node as TextNode).text).join("\n\n"),
+          context: nodes.map((r) => texts.get(r)).join("\n\n"),
         }),
         role: "system",
       },
       nodes,
     };
   }
+
+  /**
+   * Keeps the texts of the nodes with the highest scores that fit in the
+   * context. The first text that doesn't fit is truncated, the others removed.
+   */
+  private fitTexts(texts: Map<NodeWithScore, string>, maxTokens: number) {
+    let availableTokens =
+      maxTokens - this.tokenizer(this.contextSystemPrompt({})).length;
+    const nodesByScore = [...texts.keys()].sort(
+      (a, b) => (b.score ?? 0) - (a.score ?? 0),
+    );
+    for (const [index, nodeWithScore] of nodesByScore.entries()) {
+      const text = texts.get(nodeWithScore)!;
+      const tokens = this.tokenizer(text).length + SEPARATOR_TOKENS;
+      if (tokens <= availableTokens) {
+        availableTokens -= tokens;
+        continue;
+      }
+      let removedNodes = nodesByScore.slice(index);
+      const truncatedTokens = availableTokens - SEPARATOR_TOKENS;
+      if (truncatedTokens >= MIN_TRUNCATED_NODE_TOKENS) {
+        texts.set(nodeWithScore, this.truncate(text, truncatedTokens));
+        removedNodes = removedNodes.slice(1);
+      }
+      removedNodes.forEach((removed) => texts.delete(removed));
+      return;
+    }
+  }
+
+  private truncate(text: string, maxTokens: number): string {
+    const tokens = this.tokenizer(text).length;
+    let end = Math.floor((text.length * maxTokens) / tokens);
+    while (end > 0 && this.tokenizer(text.slice(0, end)).length > maxTokens) {
+      end = Math.floor(end * 0.9);
+    }
+    return text.slice(0, end);
+  }
 }
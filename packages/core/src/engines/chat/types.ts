@@ -56,7 +56,14 @@ export interface Context {
  * A ContextGenerator is used to generate a context based on a message's text content
  */
 export interface ContextGenerator {
-  generate(message: string, parentEvent?: Event): Promise<Context>;
+  /**
+   * @param maxTokens the maximum number of tokens of the context message
+   */
+  generate(
+    message: string,
+    parentEvent?: Event,
+    maxTokens?: number,
+  ): Promise<Context>;
 }
 
 export enum ChatResponseMode {
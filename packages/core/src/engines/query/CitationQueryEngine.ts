@@ -0,0 +1,235 @@
+import type { NodeWithScore } from "../../Node.js";
+import { MetadataMode, NodeRelationship, TextNode } from "../../Node.js";
+import {
+  defaultCitationQaPrompt,
+  defaultCitationRefinePrompt,
+} from "../../Prompt.js";
+import type { Citation } from "../../Response.js";
+import { Response } from "../../Response.js";
+import type { BaseRetriever } from "../../Retriever.js";
+import type { ServiceContext } from "../../ServiceContext.js";
+import { serviceContextFromDefaults } from "../../ServiceContext.js";
+import { SentenceSplitter } from "../../TextSplitter.js";
+import type { Event } from "../../callbacks/CallbackManager.js";
+import { traceEvent } from "../../callbacks/CallbackManager.js";
+import { streamConverter } from "../../llm/utils.js";
+import type { BaseNodePostprocessor } from "../../postprocessors/index.js";
+import { PromptMixin } from "../../prompts/Mixin.js";
+import type { ResponseBuilderPrompts } from "../../synthesizers/builders.js";
+import { CompactAndRefine } from "../../synthesizers/builders.js";
+import type { ResponseBuilder } from "../../synthesizers/types.js";
+import type {
+  BaseQueryEngine,
+  QueryEngineParamsNonStreaming,
+  QueryEngineParamsStreaming,
+} from "../../types.js";
+
+export const DEFAULT_CITATION_CHUNK_SIZE = 512;
+export const DEFAULT_CITATION_CHUNK_OVERLAP = 20;
+
+export type CitationQueryEngineOptions = {
+  retriever: BaseRetriever;
+  // defaults to the service context of the retriever
+  serviceContext?: ServiceContext;
+  // defaults to CompactAndRefine with the citation prompts
+  responseBuilder?: ResponseBuilder;
+  // the retrieved nodes are split into sources of this size
+  citationChunkSize?: number;
+  citationChunkOverlap?: number;
+  nodePostprocessors?: BaseNodePostprocessor[];
+  // the metadata of the nodes included in the sources
+  metadataMode?: MetadataMode;
+};
+
+const CITATION_PATTERN = /\[(\d+)\]/g;
+const SENTENCE_PATTERN = /[^.!?\n]+[.!?]*/g;
+const LEADING_CITATIONS_PATTERN = /^\s*(?:\[\d+\]\s*)+/;
+
+/**
+ * Finds the sentences of a text citing sources with `[n]`.
+ * Citations after the end of a sentence belong to this sentence.
+ * @param numSources the citations of other numbers are ignored
+ */
+export function parseCitations(text: string, numSources: number): Citation[] {
+  const getSourceNumbers = (segment: string) =>
+    [...segment.matchAll(CITATION_PATTERN)]
+      .map(([, number]) => Number(number))
+      .filter((number) => number >= 1 && number <= numSources);
+
+  const sentences: Citation[] = [];
+  for (const match of text.matchAll(SENTENCE_PATTERN)) {
+    let sentence = match[0];
+    let index = match.index!;
+    const previous = sentences[sentences.length - 1];
+    const leadingCitations = LEADING_CITATIONS_PATTERN.exec(sentence);
+    if (previous && leadingCitations) {
+      previous.sourceNumbers.push(...getSourceNumbers(leadingCitations[0]));
+      previous.endCharIdx = index + leadingCitations[0].trimEnd().length;
+      sentence = sentence.slice(leadingCitations[0].length);
+      index += leadingCitations[0].length;
+    }
+    if (!sentence.trim()) {
+      continue;
+    }
+    sentences.push({
+      text: "",
+      startCharIdx: index + sentence.search(/\S/),
+      endCharIdx: index + sentence.trimEnd().length,
+      sourceNumbers: getSourceNumbers(sentence),
+    });
+  }
+  return sentences
+    .filter(({ sourceNumbers }) => sourceNumbers.length > 0)
+    .map((citation) => ({
+      ...citation,
+      text: text.slice(citation.startCharIdx, citation.endCharIdx),
+      sourceNumbers: [...new Set(citation.sourceNumbers)],
+    }));
+}
+
+/**
+ * CitationQueryEngine answers a query with inline citations: the retrieved nodes
+ * are split into numbered sources, and the LLM is asked to cite them with `[n]`.
+ *
+ * The sources are the source nodes of the response, with the score of the node
+ * they were split from, and `response.citations` has the sentences citing them.
+ * Streamed responses have no citations, use `parseCitations` on the streamed text.
+ */
+export class CitationQueryEngine
+  extends PromptMixin
+  implements BaseQueryEngine
+{
+  retriever: BaseRetriever;
+  responseBuilder: ResponseBuilder;
+  textSplitter: SentenceSplitter;
+  nodePostprocessors: BaseNodePostprocessor[];
+  metadataMode: MetadataMode;
+  private serviceContext: ServiceContext;
+
+  constructor(options: CitationQueryEngineOptions) {
+    super();
+
+    this.retriever = options.retriever;
+    this.serviceContext =
+      options.serviceContext ??
+      options.retriever.getServiceContext() ??
+      serviceContextFromDefaults();
+    this.responseBuilder =
+      options.responseBuilder ??
+      new CompactAndRefine(
+        this.serviceContext,
+        defaultCitationQaPrompt,
+        defaultCitationRefinePrompt,
+      );
+    this.textSplitter = new SentenceSplitter({
+      chunkSize: options.citationChunkSize ?? DEFAULT_CITATION_CHUNK_SIZE,
+      chunkOverlap:
+        options.citationChunkOverlap ?? DEFAULT_CITATION_CHUNK_OVERLAP,
+    });
+    this.nodePostprocessors = options.nodePostprocessors ?? [];
+    this.metadataMode = options.metadataMode ?? MetadataMode.NONE;
+  }
+
+  _getPromptModules() {
+    return {};
+  }
+
+  protected _getPrompts(): { [x: string]: ResponseBuilderPrompts } {
+    return {
+      ...this.responseBuilder.getPrompts?.(),
+    };
+  }
+
+  protected _updatePrompts(promptsDict: {
+    [x: string]: ResponseBuilderPrompts;
+  }): void {
+    this.responseBuilder.updatePrompts?.(promptsDict);
+  }
+
+  query(params: QueryEngineParamsStreaming): Promise<AsyncIterable<Response>>;
+  query(params: QueryEngineParamsNonStreaming): Promise<Response>;
+  async query(
+    params: QueryEngineParamsStreaming | QueryEngineParamsNonStreaming,
+  ): Promise<Response | AsyncIterable<Response>> {
+    const { query, stream } = params;
+    if (params.parentEvent) {
+      return this.retrieveAndSynthesize(query, stream, params.parentEvent);
+    }
+    return traceEvent(
+      this.serviceContext.callbackManager,
+      { type: "wrapper", tags: ["final"], input: query },
+      (parentEvent) => this.retrieveAndSynthesize(query, stream, parentEvent),
+    );
+  }
+
+  /**
+   * Splits the nodes into sources, which keep the metadata and the score of
+   * their node, and refer to its source document.
+   */
+  createSources(nodesWithScore: NodeWithScore[]): NodeWithScore[] {
+    return nodesWithScore.flatMap(({ node, score }) =>
+      this.textSplitter
+        .splitText(node.getContent(this.metadataMode))
+        .map((text) => ({
+          node: new TextNode({
+            text,
+            metadata: node.metadata,
+            relationships: {
+              [NodeRelationship.SOURCE]:
+                node.sourceNode ?? node.asRelatedNodeInfo(),
+            },
+          }),
+          score,
+        })),
+    );
+  }
+
+  private async retrieve(query: string, parentEvent: Event) {
+    let nodesWithScore = await this.retriever.retrieve({ query, parentEvent });
+    for (const postprocessor of this.nodePostprocessors) {
+      nodesWithScore = await postprocessor.postprocessNodes(
+        nodesWithScore,
+        query,
+      );
+    }
+    return nodesWithScore;
+  }
+
+  private async retrieveAndSynthesize(
+    query: string,
+    stream: boolean | null | undefined,
+    parentEvent: Event,
+  ): Promise<Response | AsyncIterable<Response>> {
+    const sources = this.createSources(await this.retrieve(query, parentEvent));
+    const textChunks = sources.map(
+      ({ node }, index) =>
+        `Source ${index + 1}:\n${node.getContent(MetadataMode.NONE)}`,
+    );
+    return traceEvent(
+      this.serviceContext.callbackManager,
+      { type: "synthesize", parentEvent, input: { query, sources } },
+      async (event) => {
+        if (stream) {
+          const response = await this.responseBuilder.getResponse({
+            query,
+            textChunks,
+            parentEvent: event,
+            stream,
+          });
+          return streamConverter(
+            response,
+            (chunk) => new Response(chunk, sources),
+          );
+        }
+        const response = await this.responseBuilder.getResponse({
+          query,
+          textChunks,
+          parentEvent: event,
+        });
+        const result = new Response(response, sources);
+        result.citations = parseCitations(response, sources.length);
+        return result;
+      },
+    );
+  }
+}
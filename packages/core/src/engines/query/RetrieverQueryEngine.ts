@@ -1,9 +1,9 @@
-import { randomUUID } from "@llamaindex/env";
 import type { NodeWithScore } from "../../Node.js";
 import type { Response } from "../../Response.js";
 import type { BaseRetriever } from "../../Retriever.js";
 import type { ServiceContext } from "../../ServiceContext.js";
 import type { Event } from "../../callbacks/CallbackManager.js";
+import { traceEvent } from "../../callbacks/CallbackManager.js";
 import type { BaseNodePostprocessor } from "../../postprocessors/index.js";
 import { PromptMixin } from "../../prompts/Mixin.js";
 import type { BaseSynthesizer } from "../../synthesizers/index.js";
@@ -78,11 +78,22 @@ export class RetrieverQueryEngine
     params: QueryEngineParamsStreaming | QueryEngineParamsNonStreaming,
   ): Promise<Response | AsyncIterable<Response>> {
     const { query, stream } = params;
-    const parentEvent: Event = params.parentEvent || {
-      id: randomUUID(),
-      type: "wrapper",
-      tags: ["final"],
-    };
+    if (params.parentEvent) {
+      return this.retrieveAndSynthesize(query, stream, params.parentEvent);
+    }
+    // trace the whole query as the root of its retrieve and synthesize events
+    return traceEvent(
+      this.retriever.getServiceContext()?.callbackManager,
+      { type: "wrapper", tags: ["final"], input: query },
+      (parentEvent) => this.retrieveAndSynthesize(query, stream, parentEvent),
+    );
+  }
+
+  private async retrieveAndSynthesize(
+    query: string,
+    stream: boolean | null | undefined,
+    parentEvent: Event,
+  ): Promise<Response | AsyncIterable<Response>> {
     const nodesWithScore = await this.retrieve(query, parentEvent);
     if (stream) {
       return this.responseSynthesizer.synthesize({
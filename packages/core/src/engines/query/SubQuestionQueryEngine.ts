@@ -1,11 +1,15 @@
-import { randomUUID } from "@llamaindex/env";
-import type { NodeWithScore } from "../../Node.js";
 import { TextNode } from "../../Node.js";
 import { LLMQuestionGenerator } from "../../QuestionGenerator.js";
 import type { Response } from "../../Response.js";
 import type { ServiceContext } from "../../ServiceContext.js";
 import { serviceContextFromDefaults } from "../../ServiceContext.js";
-import type { Event } from "../../callbacks/CallbackManager.js";
+import type {
+  CallbackManager,
+  Event,
+} from "../../callbacks/CallbackManager.js";
+import { traceEvent } from "../../callbacks/CallbackManager.js";
+import { mapWithConcurrency } from "../../internal/utils.js";
+import { streamConverter } from "../../llm/utils.js";
 import { PromptMixin } from "../../prompts/Mixin.js";
 import type { BaseSynthesizer } from "../../synthesizers/index.js";
 import {
@@ -21,10 +25,42 @@ import type {
   ToolMetadata,
 } from "../../types.js";
 
-import type { BaseQuestionGenerator, SubQuestion } from "./types.js";
+import type {
+  BaseQuestionGenerator,
+  SubQuestion,
+  SubQuestionAnswer,
+} from "./types.js";
+
+function withTimeout<T>(promise: Promise<T>, timeout?: number): Promise<T> {
+  if (!timeout) {
+    return promise;
+  }
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`Timed out after ${timeout}ms`)),
+      timeout,
+    );
+  });
+  return Promise.race([promise, timeoutPromise]).then(
+    (result) => {
+      clearTimeout(timer);
+      return result;
+    },
+    (error) => {
+      clearTimeout(timer);
+      throw error;
+    },
+  );
+}
 
 /**
- * SubQuestionQueryEngine decomposes a question into subquestions and then
+ * SubQuestionQueryEngine decomposes a question into subquestions, answers them
+ * with its query engine tools and synthesizes the final answer from their answers.
+ *
+ * Failed or timed out sub-questions are skipped. All the sub-answers, including
+ * the errors, are in `response.metadata.subQuestions`, and each sub-question is
+ * traced as a `subQuestion` event to follow them while they are answered.
  */
 export class SubQuestionQueryEngine
   extends PromptMixin
@@ -34,11 +70,19 @@ export class SubQuestionQueryEngine
   questionGen: BaseQuestionGenerator;
   queryEngines: BaseTool[];
   metadatas: ToolMetadata[];
+  // maximum number of sub-questions answered at the same time
+  maxConcurrency: number;
+  // in milliseconds, per sub-question
+  subQuestionTimeout?: number;
+  callbackManager?: CallbackManager;
 
   constructor(init: {
     questionGen: BaseQuestionGenerator;
     responseSynthesizer: BaseSynthesizer;
     queryEngineTools: BaseTool[];
+    maxConcurrency?: number;
+    subQuestionTimeout?: number;
+    callbackManager?: CallbackManager;
   }) {
     super();
 
@@ -47,6 +91,13 @@ export class SubQuestionQueryEngine
       init.responseSynthesizer ?? new ResponseSynthesizer();
     this.queryEngines = init.queryEngineTools;
     this.metadatas = init.queryEngineTools.map((tool) => tool.metadata);
+    this.maxConcurrency = init.maxConcurrency ?? Infinity;
+    this.subQuestionTimeout = init.subQuestionTimeout;
+    this.callbackManager = init.callbackManager;
+
+    if (this.maxConcurrency < 1) {
+      throw new Error("maxConcurrency must be at least 1");
+    }
   }
 
   protected _getPromptModules(): Record<string, any> {
@@ -61,6 +112,8 @@ export class SubQuestionQueryEngine
     questionGen?: BaseQuestionGenerator;
     responseSynthesizer?: BaseSynthesizer;
     serviceContext?: ServiceContext;
+    maxConcurrency?: number;
+    subQuestionTimeout?: number;
   }) {
     const serviceContext =
       init.serviceContext ?? serviceContextFromDefaults({});
@@ -77,6 +130,9 @@ export class SubQuestionQueryEngine
       questionGen,
       responseSynthesizer,
       queryEngineTools: init.queryEngineTools,
+      maxConcurrency: init.maxConcurrency,
+      subQuestionTimeout: init.subQuestionTimeout,
+      callbackManager: serviceContext.callbackManager,
     });
   }
 
@@ -86,74 +142,94 @@ export class SubQuestionQueryEngine
     params: QueryEngineParamsStreaming | QueryEngineParamsNonStreaming,
   ): Promise<Response | AsyncIterable<Response>> {
     const { query, stream } = params;
-    const subQuestions = await this.questionGen.generate(this.metadatas, query);
+    if (params.parentEvent) {
+      return this.answer(query, stream, params.parentEvent);
+    }
+    // groups the sub-questions and the final synthesis
+    return traceEvent(
+      this.callbackManager,
+      { type: "wrapper", tags: ["final"], input: query },
+      (parentEvent) => this.answer(query, stream, parentEvent),
+    );
+  }
 
-    // groups final retrieval+synthesis operation
-    const parentEvent: Event = params.parentEvent || {
-      id: randomUUID(),
-      type: "wrapper",
-      tags: ["final"],
-    };
+  private async answer(
+    query: string,
+    stream: boolean | null | undefined,
+    parentEvent: Event,
+  ): Promise<Response | AsyncIterable<Response>> {
+    const subQuestions = await this.questionGen.generate(this.metadatas, query);
 
     // groups all sub-queries
-    const subQueryParentEvent: Event = {
-      id: randomUUID(),
-      parentId: parentEvent.id,
-      type: "wrapper",
-      tags: ["intermediate"],
-    };
-
-    const subQNodes = await Promise.all(
-      subQuestions.map((subQ) => this.querySubQ(subQ, subQueryParentEvent)),
+    const subAnswers = await traceEvent(
+      this.callbackManager,
+      { type: "wrapper", parentEvent, tags: ["intermediate"] },
+      (subQueryParentEvent) =>
+        mapWithConcurrency(subQuestions, this.maxConcurrency, (subQ) =>
+          this.answerSubQ(subQ, subQueryParentEvent),
+        ),
     );
 
-    const nodesWithScore = subQNodes
-      .filter((node) => node !== null)
-      .map((node) => node as NodeWithScore);
+    const nodesWithScore = subAnswers
+      .filter(({ answer }) => answer)
+      .map(({ subQuestion, answer }) => {
+        const nodeText = `Sub question: ${subQuestion.subQuestion}\nResponse: ${answer}`;
+        return { node: new TextNode({ text: nodeText }), score: 0 };
+      });
     if (stream) {
-      return this.responseSynthesizer.synthesize({
+      const responseStream = await this.responseSynthesizer.synthesize({
         query,
         nodesWithScore,
         parentEvent,
         stream: true,
       });
+      return streamConverter(responseStream, (response) => {
+        response.metadata.subQuestions = subAnswers;
+        return response;
+      });
     }
-    return this.responseSynthesizer.synthesize({
+    const response = await this.responseSynthesizer.synthesize({
       query,
       nodesWithScore,
       parentEvent,
     });
+    response.metadata.subQuestions = subAnswers;
+    return response;
   }
 
-  private async querySubQ(
+  private async answerSubQ(
     subQ: SubQuestion,
-    parentEvent?: Event,
-  ): Promise<NodeWithScore | null> {
+    parentEvent: Event,
+  ): Promise<SubQuestionAnswer> {
     try {
-      const question = subQ.subQuestion;
-
-      const queryEngine = this.queryEngines.find(
-        (tool) => tool.metadata.name === subQ.toolName,
+      const answer = await traceEvent(
+        this.callbackManager,
+        { type: "subQuestion", parentEvent, input: subQ },
+        (event) =>
+          withTimeout(this.querySubQ(subQ, event), this.subQuestionTimeout),
       );
+      return { subQuestion: subQ, answer };
+    } catch (error) {
+      return { subQuestion: subQ, error };
+    }
+  }
 
-      if (!queryEngine) {
-        return null;
-      }
-
-      const responseText = await queryEngine?.call?.({
-        query: question,
-        parentEvent,
-      });
-
-      if (!responseText) {
-        return null;
-      }
+  private async querySubQ(
+    subQ: SubQuestion,
+    parentEvent?: Event,
+  ): Promise<string> {
+    const queryEngine = this.queryEngines.find(
+      (tool) => tool.metadata.name === subQ.toolName,
+    );
 
-      const nodeText = `Sub question: ${question}\nResponse: ${responseText}`;
-      const node = new TextNode({ text: nodeText });
-      return { node, score: 0 };
-    } catch (error) {
-      return null;
+    if (!queryEngine) {
+      throw new Error(`Tool ${subQ.toolName} not found`);
     }
+
+    const responseText = await queryEngine.call?.({
+      query: subQ.subQuestion,
+      parentEvent,
+    });
+    return responseText ? String(responseText) : "";
   }
 }
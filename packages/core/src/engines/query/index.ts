@@ -1,3 +1,5 @@
+export * from "./CitationQueryEngine.js";
 export * from "./RetrieverQueryEngine.js";
 export * from "./RouterQueryEngine.js";
 export * from "./SubQuestionQueryEngine.js";
+export * from "./types.js";
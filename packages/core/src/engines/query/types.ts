@@ -11,3 +11,12 @@ export interface SubQuestion {
   subQuestion: string;
   toolName: string;
 }
+
+/**
+ * The answer to a sub-question, or the error if it failed or timed out.
+ */
+export interface SubQuestionAnswer {
+  subQuestion: SubQuestion;
+  answer?: string;
+  error?: unknown;
+}
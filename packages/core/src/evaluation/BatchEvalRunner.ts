@@ -0,0 +1,193 @@
+import { MetadataMode } from "../Node.js";
+import type { Response } from "../Response.js";
+import { mapWithConcurrency } from "../internal/utils.js";
+import type { BaseQueryEngine } from "../types.js";
+import type { BaseEvaluator, EvaluationResult } from "./types.js";
+
+/**
+ * A query of an evaluation dataset, with the expected answer if known.
+ */
+export type EvalDatasetItem = {
+  query: string;
+  reference?: string;
+};
+
+export type BatchEvalResult = {
+  query: string;
+  reference?: string;
+  response?: string;
+  // by evaluator name
+  evaluations: Record<string, EvaluationResult>;
+  // the error of the query engine in "query", and of the evaluators by name
+  errors: Record<string, string>;
+};
+
+export type EvaluatorMetrics = {
+  numEvaluated: number;
+  numPassing: number;
+  // queries the query engine or the evaluator failed on
+  numErrors: number;
+  passingRate: number;
+  meanScore: number;
+};
+
+export type BatchEvalReport = {
+  results: BatchEvalResult[];
+  // by evaluator name
+  metrics: Record<string, EvaluatorMetrics>;
+};
+
+type BatchEvalRunnerParams = {
+  // evaluators by name, e.g. { correctness: new CorrectnessEvaluator({}) }
+  evaluators: Record<string, BaseEvaluator>;
+  // number of queries run and evaluated at the same time
+  workers?: number;
+};
+
+type ResponseItem = EvalDatasetItem & { response: Response };
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Runs several evaluators on a dataset of queries, e.g. to test a query engine
+ * before deploying it. Failed queries and evaluations are reported in the
+ * results instead of stopping the run.
+ */
+export class BatchEvalRunner {
+  evaluators: Record<string, BaseEvaluator>;
+  workers: number;
+
+  constructor(params: BatchEvalRunnerParams) {
+    this.evaluators = params.evaluators;
+    this.workers = params.workers ?? 2;
+    if (this.workers < 1) {
+      throw new Error("workers must be at least 1");
+    }
+  }
+
+  /**
+   * Queries the query engine with each query of the dataset and evaluates its responses.
+   */
+  async evaluateQueries(
+    queryEngine: BaseQueryEngine,
+    dataset: (string | EvalDatasetItem)[],
+  ): Promise<BatchEvalReport> {
+    const items = dataset.map((item) =>
+      typeof item === "string" ? { query: item } : item,
+    );
+    const results = await mapWithConcurrency(items, this.workers, (item) =>
+      queryEngine.query({ query: item.query }).then(
+        (response) => this.evaluateItem({ ...item, response }),
+        (error) => ({
+          ...item,
+          evaluations: {},
+          errors: { query: getErrorMessage(error) },
+        }),
+      ),
+    );
+    return this.createReport(results);
+  }
+
+  /**
+   * Evaluates the responses to the queries.
+   */
+  async evaluateResponses(items: ResponseItem[]): Promise<BatchEvalReport> {
+    const results = await mapWithConcurrency(items, this.workers, (item) =>
+      this.evaluateItem(item),
+    );
+    return this.createReport(results);
+  }
+
+  private async evaluateItem({
+    query,
+    reference,
+    response,
+  }: ResponseItem): Promise<BatchEvalResult> {
+    const result: BatchEvalResult = {
+      query,
+      reference,
+      response: response.response,
+      evaluations: {},
+      errors: {},
+    };
+    const contexts = (response.sourceNodes ?? []).map((node) =>
+      node.getContent(MetadataMode.ALL),
+    );
+    await Promise.all(
+      Object.entries(this.evaluators).map(async ([name, evaluator]) => {
+        try {
+          result.evaluations[name] = await evaluator.evaluate({
+            query,
+            response: response.response,
+            contexts,
+            reference,
+          });
+        } catch (error) {
+          result.errors[name] = getErrorMessage(error);
+        }
+      }),
+    );
+    return result;
+  }
+
+  private createReport(results: BatchEvalResult[]): BatchEvalReport {
+    const metrics: Record<string, EvaluatorMetrics> = {};
+    for (const name of Object.keys(this.evaluators)) {
+      const evaluations = results
+        .map(({ evaluations }) => evaluations[name])
+        .filter((evaluation) => evaluation !== undefined);
+      const numPassing = evaluations.filter(({ passing }) => passing).length;
+      const totalScore = evaluations.reduce(
+        (total, { score }) => total + score,
+        0,
+      );
+      metrics[name] = {
+        numEvaluated: evaluations.length,
+        numPassing,
+        numErrors: results.length - evaluations.length,
+        passingRate: evaluations.length ? numPassing / evaluations.length : 0,
+        meanScore: evaluations.length ? totalScore / evaluations.length : 0,
+      };
+    }
+    return { results, metrics };
+  }
+}
+
+const toCSVField = (value: unknown) => {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * A CSV file with a row per query, and the score, passing and feedback of each evaluator.
+ */
+export function reportToCSV(report: BatchEvalReport): string {
+  const names = Object.keys(report.metrics);
+  const header = [
+    "query",
+    "reference",
+    "response",
+    "error",
+    ...names.flatMap((name) => [
+      `${name}_score`,
+      `${name}_passing`,
+      `${name}_feedback`,
+    ]),
+  ];
+  const rows = report.results.map((result) => [
+    result.query,
+    result.reference,
+    result.response,
+    Object.entries(result.errors)
+      .map(([name, error]) => `${name}: ${error}`)
+      .join("\n"),
+    ...names.flatMap((name) => {
+      const evaluation = result.evaluations[name];
+      return [evaluation?.score, evaluation?.passing, evaluation?.feedback];
+    }),
+  ]);
+  return [header, ...rows]
+    .map((row) => row.map(toCSVField).join(","))
+    .join("\n");
+}
@@ -0,0 +1,198 @@
+import type { GenericFileSystem } from "@llamaindex/env";
+import { defaultFS, path } from "@llamaindex/env";
+import type { BaseNode, Document } from "../Node.js";
+import { MetadataMode } from "../Node.js";
+import type { TextQaPrompt } from "../Prompt.js";
+import { defaultTextQaPrompt } from "../Prompt.js";
+import type { ServiceContext } from "../ServiceContext.js";
+import { serviceContextFromDefaults } from "../ServiceContext.js";
+import { mapWithConcurrency } from "../internal/utils.js";
+import { PromptMixin } from "../prompts/Mixin.js";
+import { exists } from "../storage/FileSystem.js";
+import type { BaseDocumentStore } from "../storage/docStore/types.js";
+import type { EvalDatasetItem } from "./BatchEvalRunner.js";
+import type { QuestionGenerationPrompt } from "./prompts.js";
+import { defaultQuestionGenerationPrompt } from "./prompts.js";
+
+/**
+ * A generated question, with the reference answer and the ids of the nodes it was generated from.
+ */
+export type QADatasetItem = EvalDatasetItem & {
+  // the nodes a retriever is expected to retrieve for the query
+  sourceNodeIds: string[];
+};
+
+/**
+ * A dataset of questions and reference answers, which can be evaluated with
+ * `BatchEvalRunner.evaluateQueries`, and saved to a JSON file.
+ */
+export class QADataset {
+  items: QADatasetItem[];
+
+  constructor(items: QADatasetItem[] = []) {
+    this.items = items;
+  }
+
+  get queries(): string[] {
+    return this.items.map(({ query }) => query);
+  }
+
+  async persist(
+    persistPath: string,
+    fs: GenericFileSystem = defaultFS,
+  ): Promise<void> {
+    const dirPath = path.dirname(persistPath);
+    if (!(await exists(fs, dirPath))) {
+      await fs.mkdir(dirPath);
+    }
+    await fs.writeFile(
+      persistPath,
+      JSON.stringify({ items: this.items }, null, 2),
+    );
+  }
+
+  static async fromPersistPath(
+    persistPath: string,
+    fs: GenericFileSystem = defaultFS,
+  ): Promise<QADataset> {
+    if (!(await exists(fs, persistPath))) {
+      throw new Error(`No dataset found at ${persistPath}`);
+    }
+    const { items } = JSON.parse(await fs.readFile(persistPath));
+    return new QADataset(items);
+  }
+}
+
+type DatasetGeneratorParams = {
+  serviceContext?: ServiceContext;
+  numQuestionsPerNode?: number;
+  // whether the LLM also answers each question from its node
+  generateReferences?: boolean;
+  // number of nodes whose questions are generated at the same time
+  workers?: number;
+  // the metadata of the nodes included in the context of the prompts
+  metadataMode?: MetadataMode;
+};
+
+const LIST_MARKER_PATTERN = /^\s*(?:(?:\d+|Q\d*)[.):]|[-*•])\s*/i;
+
+// one question per line, without the numbering or bullets the LLM might add,
+// and without lines like "Here are the questions:" if the questions end with "?"
+const parseQuestions = (text: string) => {
+  const lines = text
+    .split("\n")
+    .map((line) => line.replace(LIST_MARKER_PATTERN, "").trim())
+    .filter((line) => line.length > 0);
+  const questions = lines.filter((line) => line.endsWith("?"));
+  return questions.length ? questions : lines;
+};
+
+/**
+ * Generates questions and reference answers from the nodes of documents with the LLM,
+ * to evaluate query engines and retrievers without labelling data by hand.
+ */
+export class DatasetGenerator extends PromptMixin {
+  numQuestionsPerNode: number;
+  generateReferences: boolean;
+  workers: number;
+  metadataMode: MetadataMode;
+  private serviceContext: ServiceContext;
+
+  private questionGenerationPrompt: QuestionGenerationPrompt =
+    defaultQuestionGenerationPrompt;
+  private referencePrompt: TextQaPrompt = defaultTextQaPrompt;
+
+  constructor(params: DatasetGeneratorParams = {}) {
+    super();
+
+    this.serviceContext = params.serviceContext ?? serviceContextFromDefaults();
+    this.numQuestionsPerNode = params.numQuestionsPerNode ?? 2;
+    this.generateReferences = params.generateReferences ?? true;
+    this.workers = params.workers ?? 2;
+    this.metadataMode = params.metadataMode ?? MetadataMode.NONE;
+    if (this.numQuestionsPerNode < 1) {
+      throw new Error("numQuestionsPerNode must be at least 1");
+    }
+    if (this.workers < 1) {
+      throw new Error("workers must be at least 1");
+    }
+  }
+
+  protected _getPrompts() {
+    return {
+      questionGenerationPrompt: this.questionGenerationPrompt,
+      referencePrompt: this.referencePrompt,
+    };
+  }
+
+  protected _updatePrompts(prompts: {
+    questionGenerationPrompt?: QuestionGenerationPrompt;
+    referencePrompt?: TextQaPrompt;
+  }): void {
+    if (prompts.questionGenerationPrompt) {
+      this.questionGenerationPrompt = prompts.questionGenerationPrompt;
+    }
+    if (prompts.referencePrompt) {
+      this.referencePrompt = prompts.referencePrompt;
+    }
+  }
+
+  /**
+   * Splits the documents with the node parser of the service context, and generates questions from the nodes.
+   * @returns the dataset and the nodes it was generated from: to evaluate a retriever,
+   * index these nodes, as the `sourceNodeIds` of the dataset are their ids
+   */
+  async generateFromDocuments(
+    documents: Document[],
+  ): Promise<{ dataset: QADataset; nodes: BaseNode[] }> {
+    const nodes =
+      this.serviceContext.nodeParser.getNodesFromDocuments(documents);
+    return { dataset: await this.generateFromNodes(nodes), nodes };
+  }
+
+  /**
+   * Generates questions from all the nodes of the document store.
+   */
+  async generateFromDocStore(docStore: BaseDocumentStore): Promise<QADataset> {
+    return this.generateFromNodes(Object.values(await docStore.docs()));
+  }
+
+  /**
+   * Generates `numQuestionsPerNode` questions from each node. Nodes without text are skipped.
+   */
+  async generateFromNodes(nodes: BaseNode[]): Promise<QADataset> {
+    const items = await mapWithConcurrency(nodes, this.workers, (node) =>
+      this.generateItems(node),
+    );
+    return new QADataset(items.flat());
+  }
+
+  private async generateItems(node: BaseNode): Promise<QADatasetItem[]> {
+    const context = node.getContent(this.metadataMode);
+    if (!context.trim()) {
+      return [];
+    }
+    const { llm } = this.serviceContext;
+    const { text } = await llm.complete({
+      prompt: this.questionGenerationPrompt({
+        context,
+        numQuestions: this.numQuestionsPerNode,
+      }),
+    });
+    const items: QADatasetItem[] = [];
+    for (const query of parseQuestions(text).slice(
+      0,
+      this.numQuestionsPerNode,
+    )) {
+      const item: QADatasetItem = { query, sourceNodeIds: [node.id_] };
+      if (this.generateReferences) {
+        const { text: reference } = await llm.complete({
+          prompt: this.referencePrompt({ context, query }),
+        });
+        item.reference = reference.trim();
+      }
+      items.push(item);
+    }
+    return items;
+  }
+}
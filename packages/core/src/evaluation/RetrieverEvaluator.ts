@@ -0,0 +1,89 @@
+import type { BaseRetriever } from "../Retriever.js";
+import { mapWithConcurrency } from "../internal/utils.js";
+import type { QADataset, QADatasetItem } from "./DatasetGenerator.js";
+
+export type RetrievalEvalResult = {
+  query: string;
+  // the ids of the nodes the retriever is expected to retrieve
+  expectedIds: string[];
+  retrievedIds: string[];
+  // whether one of the expected nodes is retrieved
+  hit: boolean;
+  // 1 / the rank of the first expected node retrieved, 0 if none is retrieved
+  reciprocalRank: number;
+};
+
+export type RetrievalEvalReport = {
+  results: RetrievalEvalResult[];
+  // the share of the queries with a hit
+  hitRate: number;
+  // the mean reciprocal rank of the queries
+  mrr: number;
+};
+
+type RetrieverEvaluatorParams = {
+  retriever: BaseRetriever;
+  // number of queries retrieved at the same time
+  workers?: number;
+};
+
+/**
+ * Evaluates a retriever with the hit rate and the mean reciprocal rank (MRR)
+ * of the nodes that are expected to be retrieved, e.g. the source nodes of
+ * the items of a `QADataset`.
+ */
+export class RetrieverEvaluator {
+  retriever: BaseRetriever;
+  workers: number;
+
+  constructor(params: RetrieverEvaluatorParams) {
+    this.retriever = params.retriever;
+    this.workers = params.workers ?? 2;
+    if (this.workers < 1) {
+      throw new Error("workers must be at least 1");
+    }
+  }
+
+  /**
+   * Retrieves the nodes of a query and compares them with the expected nodes.
+   */
+  async evaluate(
+    query: string,
+    expectedIds: string[],
+  ): Promise<RetrievalEvalResult> {
+    const nodes = await this.retriever.retrieve({ query });
+    const retrievedIds = nodes.map(({ node }) => node.id_);
+    const rank = retrievedIds.findIndex((id) => expectedIds.includes(id));
+    return {
+      query,
+      expectedIds,
+      retrievedIds,
+      hit: rank !== -1,
+      reciprocalRank: rank === -1 ? 0 : 1 / (rank + 1),
+    };
+  }
+
+  /**
+   * Evaluates the retriever on the queries of a dataset, the expected nodes
+   * of each query being its `sourceNodeIds`.
+   */
+  async evaluateDataset(
+    dataset: QADataset | QADatasetItem[],
+  ): Promise<RetrievalEvalReport> {
+    const items = Array.isArray(dataset) ? dataset : dataset.items;
+    const results = await mapWithConcurrency(
+      items,
+      this.workers,
+      ({ query, sourceNodeIds }) => this.evaluate(query, sourceNodeIds),
+    );
+    const mean = (values: number[]) =>
+      values.length > 0
+        ? values.reduce((sum, value) => sum + value, 0) / values.length
+        : 0;
+    return {
+      results,
+      hitRate: mean(results.map(({ hit }) => (hit ? 1 : 0))),
+      mrr: mean(results.map(({ reciprocalRank }) => reciprocalRank)),
+    };
+  }
+}
@@ -1,5 +1,9 @@
+export * from "./BatchEvalRunner.js";
 export * from "./Correctness.js";
+export * from "./DatasetGenerator.js";
 export * from "./Faithfulness.js";
 export * from "./Relevancy.js";
+export * from "./RetrieverEvaluator.js";
 export * from "./prompts.js";
+export * from "./types.js";
 export * from "./utils.js";
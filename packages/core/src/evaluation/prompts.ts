@@ -153,3 +153,19 @@ Otherwise answer NO.
 `;
 
 export type RelevancyRefinePrompt = typeof defaultRelevancyRefinePrompt;
+
+export const defaultQuestionGenerationPrompt = ({
+  context,
+  numQuestions,
+}: {
+  context: string;
+  numQuestions: number;
+}) => `Context information is below.
+---------------------
+${context}
+---------------------
+Given the context information and not prior knowledge, generate ${numQuestions} questions about the context.
+You are a teacher setting up questions for an upcoming quiz. The questions should be diverse in nature across the context, and be answerable with the context only.
+Return one question per line, without numbering.`;
+
+export type QuestionGenerationPrompt = typeof defaultQuestionGenerationPrompt;
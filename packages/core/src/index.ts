@@ -11,6 +11,8 @@ export * from "./ServiceContext.js";
 export * from "./TextSplitter.js";
 export * from "./agent/index.js";
 export * from "./callbacks/CallbackManager.js";
+export * from "./callbacks/TokenCountingHandler.js";
+export * from "./callbacks/TraceRecorder.js";
 export * from "./cloud/index.js";
 export * from "./constants.js";
 export * from "./embeddings/index.js";
@@ -26,6 +28,7 @@ export * from "./objects/index.js";
 export * from "./postprocessors/index.js";
 export * from "./prompts/index.js";
 export * from "./readers/index.js";
+export * from "./retrievers/index.js";
 export * from "./selectors/index.js";
 export * from "./storage/index.js";
 export * from "./synthesizers/index.js";
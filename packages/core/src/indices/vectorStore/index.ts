@@ -15,12 +15,14 @@ import type { BaseRetriever, RetrieveParams } from "../../Retriever.js";
 import type { ServiceContext } from "../../ServiceContext.js";
 import { serviceContextFromDefaults } from "../../ServiceContext.js";
 import type { Event } from "../../callbacks/CallbackManager.js";
+import { traceEvent } from "../../callbacks/CallbackManager.js";
 import { DEFAULT_SIMILARITY_TOP_K } from "../../constants.js";
 import type {
   BaseEmbedding,
+  BaseSparseEmbedding,
   MultiModalEmbedding,
 } from "../../embeddings/index.js";
-import { ClipEmbedding } from "../../embeddings/index.js";
+import { BM25Embedding, ClipEmbedding } from "../../embeddings/index.js";
 import { RetrieverQueryEngine } from "../../engines/query/RetrieverQueryEngine.js";
 import { runTransformations } from "../../ingestion/index.js";
 import type { BaseNodePostprocessor } from "../../postprocessors/types.js";
@@ -33,6 +35,7 @@ import type {
   VectorStoreQuery,
   VectorStoreQueryResult,
 } from "../../storage/index.js";
+import type { HybridFusionMode } from "../../storage/vectorStore/types.js";
 import { VectorStoreQueryMode } from "../../storage/vectorStore/types.js";
 import type { BaseSynthesizer } from "../../synthesizers/types.js";
 import type { BaseQueryEngine } from "../../types.js";
@@ -50,12 +53,15 @@ export interface VectorIndexOptions extends IndexStructOptions {
   storageContext?: StorageContext;
   imageVectorStore?: VectorStore;
   vectorStore?: VectorStore;
+  // computes the sparse embeddings of the nodes, used by sparse and hybrid retrieval
+  sparseEmbedModel?: BaseSparseEmbedding;
   logProgress?: boolean;
 }
 
 export interface VectorIndexConstructorProps extends BaseIndexInit<IndexDict> {
   indexStore: BaseIndexStore;
   imageVectorStore?: VectorStore;
+  sparseEmbedModel?: BaseSparseEmbedding;
 }
 
 /**
@@ -65,6 +71,7 @@ export class VectorStoreIndex extends BaseIndex<IndexDict> {
   vectorStore: VectorStore;
   indexStore: BaseIndexStore;
   embedModel: BaseEmbedding;
+  sparseEmbedModel?: BaseSparseEmbedding;
   imageVectorStore?: VectorStore;
   imageEmbedModel?: MultiModalEmbedding;
 
@@ -73,6 +80,7 @@ export class VectorStoreIndex extends BaseIndex<IndexDict> {
     this.indexStore = init.indexStore;
     this.vectorStore = init.vectorStore ?? init.storageContext.vectorStore;
     this.embedModel = init.serviceContext.embedModel;
+    this.sparseEmbedModel = init.sparseEmbedModel;
     this.imageVectorStore =
       init.imageVectorStore ?? init.storageContext.imageVectorStore;
     if (this.imageVectorStore) {
@@ -106,6 +114,18 @@ export class VectorStoreIndex extends BaseIndex<IndexDict> {
       );
     }
 
+    if (
+      indexStruct &&
+      Object.keys(indexStruct.nodesDict).length > 0 &&
+      options.sparseEmbedModel instanceof BM25Embedding &&
+      options.sparseEmbedModel.numDocs === 0
+    ) {
+      // the query embeddings would be computed without the indexed texts
+      throw new Error(
+        "The BM25Embedding of a loaded index requires the corpus statistics of its texts, restore them with BM25Embedding.fromJSON",
+      );
+    }
+
     indexStruct = indexStruct ?? new IndexDict();
 
     const index = new this({
@@ -116,6 +136,7 @@ export class VectorStoreIndex extends BaseIndex<IndexDict> {
       indexStore,
       vectorStore: options.vectorStore,
       imageVectorStore: options.imageVectorStore,
+      sparseEmbedModel: options.sparseEmbedModel,
     });
 
     if (options.nodes) {
@@ -164,6 +185,7 @@ export class VectorStoreIndex extends BaseIndex<IndexDict> {
 
   /**
    * Calculates the embeddings for the given nodes.
+   * If the index has a sparse embedding model, the sparse embeddings are calculated too.
    *
    * @param nodes - An array of BaseNode objects representing the nodes for which embeddings are to be calculated.
    * @param {Object} [options] - An optional object containing additional parameters.
@@ -177,8 +199,13 @@ export class VectorStoreIndex extends BaseIndex<IndexDict> {
     const embeddings = await this.embedModel.getTextEmbeddingsBatch(texts, {
       logProgress: options?.logProgress,
     });
+    const sparseEmbeddings =
+      await this.sparseEmbedModel?.getTextSparseEmbeddings(texts);
     return nodes.map((node, i) => {
       node.embedding = embeddings[i];
+      if (sparseEmbeddings) {
+        node.sparseEmbedding = sparseEmbeddings[i];
+      }
       return node;
     });
   }
@@ -301,6 +328,7 @@ export class VectorStoreIndex extends BaseIndex<IndexDict> {
       ) {
         const nodeWithoutEmbedding = nodes[i].clone();
         nodeWithoutEmbedding.embedding = undefined;
+        nodeWithoutEmbedding.sparseEmbedding = undefined;
         this.indexStruct.addNode(nodeWithoutEmbedding, newIds[i]);
         await this.docStore.addDocuments([nodeWithoutEmbedding], true);
       }
@@ -407,23 +435,41 @@ export type VectorIndexRetrieverOptions = {
   index: VectorStoreIndex;
   similarityTopK?: number;
   imageSimilarityTopK?: number;
+  // query mode of the text retrieval, SPARSE and HYBRID require an index with a sparse embedding model
+  mode?: VectorStoreQueryMode;
+  // weight of the dense scores in HYBRID mode: 1 is pure dense, 0 is pure sparse
+  alpha?: number;
+  sparseTopK?: number;
+  hybridFusionMode?: HybridFusionMode;
 };
 
 export class VectorIndexRetriever implements BaseRetriever {
   index: VectorStoreIndex;
   similarityTopK: number;
   imageSimilarityTopK: number;
+  mode: VectorStoreQueryMode;
+  alpha?: number;
+  sparseTopK?: number;
+  hybridFusionMode?: HybridFusionMode;
   private serviceContext: ServiceContext;
 
   constructor({
     index,
     similarityTopK,
     imageSimilarityTopK,
+    mode,
+    alpha,
+    sparseTopK,
+    hybridFusionMode,
   }: VectorIndexRetrieverOptions) {
     this.index = index;
     this.serviceContext = this.index.serviceContext;
     this.similarityTopK = similarityTopK ?? DEFAULT_SIMILARITY_TOP_K;
     this.imageSimilarityTopK = imageSimilarityTopK ?? DEFAULT_SIMILARITY_TOP_K;
+    this.mode = mode ?? VectorStoreQueryMode.DEFAULT;
+    this.alpha = alpha;
+    this.sparseTopK = sparseTopK;
+    this.hybridFusionMode = hybridFusionMode;
   }
 
   async retrieve({
@@ -431,15 +477,21 @@ export class VectorIndexRetriever implements BaseRetriever {
     parentEvent,
     preFilters,
   }: RetrieveParams): Promise<NodeWithScore[]> {
-    let nodesWithScores = await this.textRetrieve(
-      query,
-      preFilters as MetadataFilters,
-    );
-    nodesWithScores = nodesWithScores.concat(
-      await this.textToImageRetrieve(query, preFilters as MetadataFilters),
+    return traceEvent(
+      this.serviceContext.callbackManager,
+      { type: "retrieve", parentEvent, input: query },
+      async () => {
+        let nodesWithScores = await this.textRetrieve(
+          query,
+          preFilters as MetadataFilters,
+        );
+        nodesWithScores = nodesWithScores.concat(
+          await this.textToImageRetrieve(query, preFilters as MetadataFilters),
+        );
+        this.sendEvent(query, nodesWithScores, parentEvent);
+        return nodesWithScores;
+      },
     );
-    this.sendEvent(query, nodesWithScores, parentEvent);
-    return nodesWithScores;
   }
 
   protected async textRetrieve(
@@ -453,6 +505,22 @@ export class VectorIndexRetriever implements BaseRetriever {
       this.similarityTopK,
       preFilters,
     );
+    q.mode = this.mode;
+    if (
+      this.mode === VectorStoreQueryMode.SPARSE ||
+      this.mode === VectorStoreQueryMode.HYBRID
+    ) {
+      if (!this.index.sparseEmbedModel) {
+        throw new Error(
+          `The ${this.mode} query mode requires an index with a sparse embedding model`,
+        );
+      }
+      q.querySparseEmbedding =
+        await this.index.sparseEmbedModel.getQuerySparseEmbedding(query);
+      q.sparseTopK = this.sparseTopK;
+      q.alpha = this.alpha;
+      q.hybridFusionMode = this.hybridFusionMode;
+    }
     const result = await this.index.vectorStore.query(q, options);
     return this.buildNodeListFromQueryResult(result);
   }
@@ -40,16 +40,52 @@ export function getTransformationHash(
   return hash.digest();
 }
 
+export function getTransformHash(transform: TransformComponent) {
+  const hash = createSHA256();
+  hash.update(transformToJSON(transform));
+  return hash.digest();
+}
+
+/**
+ * The key of the nodes produced by a transformation from a single node.
+ * The id is part of the key, as the produced nodes refer to the node.
+ */
+export function getNodeTransformationHash(
+  node: BaseNode,
+  transformHash: string,
+) {
+  const hash = createSHA256();
+  hash.update(node.id_ + node.getContent(MetadataMode.ALL) + transformHash);
+  return hash.digest();
+}
+
+export type IngestionCacheStats = {
+  hits: number;
+  misses: number;
+};
+
+/**
+ * Caches the nodes produced by the transformations of an IngestionPipeline.
+ *
+ * Use a persistent key-value store to keep the cache between runs, e.g.
+ * `new IngestionCache(await SimpleKVStore.fromPersistPath(path))`.
+ */
 export class IngestionCache {
   collection: string = "llama_cache";
   cache: BaseKVStore;
   nodesKey = "nodes";
+  // the lookups since the cache was created or the stats were reset
+  stats: IngestionCacheStats = { hits: 0, misses: 0 };
 
-  constructor(collection?: string) {
+  constructor(kvStore?: BaseKVStore, collection?: string) {
+    this.cache = kvStore ?? new SimpleKVStore();
     if (collection) {
       this.collection = collection;
     }
-    this.cache = new SimpleKVStore();
+  }
+
+  resetStats() {
+    this.stats = { hits: 0, misses: 0 };
   }
 
   async put(hash: string, nodes: BaseNode[]) {
@@ -62,8 +98,10 @@ export class IngestionCache {
   async get(hash: string): Promise<BaseNode[] | undefined> {
     const json = await this.cache.get(hash, this.collection);
     if (!json || !json[this.nodesKey] || !Array.isArray(json[this.nodesKey])) {
+      this.stats.misses++;
       return undefined;
     }
+    this.stats.hits++;
     return json[this.nodesKey].map((doc: any) => jsonToDoc(doc));
   }
 }
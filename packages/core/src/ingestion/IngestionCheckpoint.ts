@@ -0,0 +1,52 @@
+import type { BaseNode } from "../Node.js";
+import { SimpleKVStore } from "../storage/kvStore/SimpleKVStore.js";
+import type { BaseKVStore } from "../storage/kvStore/types.js";
+
+export type IngestionStatus = "started" | "ingested";
+
+/**
+ * Records the documents ingested by `IngestionPipeline.runBatched`, so that
+ * an interrupted run can be resumed without ingesting them again.
+ *
+ * Use a persistent key-value store to resume after a crash, e.g.
+ * `new IngestionCheckpoint(await SimpleKVStore.fromPersistPath(path))`.
+ */
+export class IngestionCheckpoint {
+  collection: string = "llama_checkpoint";
+  kvStore: BaseKVStore;
+
+  constructor(kvStore?: BaseKVStore, collection?: string) {
+    this.kvStore = kvStore ?? new SimpleKVStore();
+    if (collection) {
+      this.collection = collection;
+    }
+  }
+
+  /**
+   * @returns "ingested" if the document was ingested with the same content,
+   * "started" if its ingestion was interrupted
+   */
+  async getStatus(document: BaseNode): Promise<IngestionStatus | undefined> {
+    const entry = await this.kvStore.get(document.id_, this.collection);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.status === "ingested" && entry.hash !== document.hash) {
+      return undefined;
+    }
+    return entry.status;
+  }
+
+  async setStatus(
+    documents: BaseNode[],
+    status: IngestionStatus,
+  ): Promise<void> {
+    for (const document of documents) {
+      await this.kvStore.put(
+        document.id_,
+        { hash: document.hash, status },
+        this.collection,
+      );
+    }
+  }
+}
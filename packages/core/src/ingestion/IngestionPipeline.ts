@@ -2,10 +2,19 @@ import type { BaseNode, Document } from "../Node.js";
 import type { BaseReader } from "../readers/type.js";
 import type { BaseDocumentStore } from "../storage/docStore/types.js";
 import type { VectorStore } from "../storage/vectorStore/types.js";
-import { IngestionCache, getTransformationHash } from "./IngestionCache.js";
+import {
+  IngestionCache,
+  getNodeTransformationHash,
+  getTransformHash,
+} from "./IngestionCache.js";
+import type { IngestionCheckpoint } from "./IngestionCheckpoint.js";
 import {
   DocStoreStrategy,
+  UpsertsAndDeleteStrategy,
+  UpsertsStrategy,
+  classify,
   createDocStoreStrategy,
+  getRefDocId,
 } from "./strategies/index.js";
 import type { TransformComponent } from "./types.js";
 
@@ -19,6 +28,142 @@ type TransformRunArgs = {
   cache?: IngestionCache;
 };
 
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_RETRY_DELAY = 1000;
+
+export type IngestionProgress = {
+  numBatches: number;
+  numDocuments: number;
+  numNodes: number;
+  // documents ingested by a previous run
+  numSkipped: number;
+  // documents of the batches that failed after all retries
+  numFailed: number;
+};
+
+export type FailedDocument = {
+  document: Document;
+  // the error of the last attempt
+  error: unknown;
+};
+
+export type BatchedRunResult = IngestionProgress & {
+  // the documents to run the pipeline on again
+  failedDocuments: FailedDocument[];
+  // documents missing from the run deleted by the upserts and delete strategy
+  numDeleted: number;
+};
+
+/**
+ * The ids of the documents, by what `IngestionPipeline.sync` did with them.
+ */
+export type SyncReport = {
+  added: string[];
+  updated: string[];
+  deleted: string[];
+  unchanged: string[];
+};
+
+type SyncArgs = IngestionRunArgs & {
+  // the ids of all documents of the source, defaults to the ids of the documents
+  sourceIds?: Iterable<string>;
+  cache?: IngestionCache;
+};
+
+type BatchedRunArgs = {
+  documents?: Iterable<Document> | AsyncIterable<Document>;
+  // number of documents transformed and stored together
+  batchSize?: number;
+  // number of batches ingested concurrently
+  numWorkers?: number;
+  // number of times a failed batch is retried
+  maxRetries?: number;
+  // delay before the first retry in ms, doubled for each retry
+  retryDelay?: number;
+  // skips the documents ingested by a previous run
+  checkpoint?: IngestionCheckpoint;
+  // called after each batch
+  onProgress?: (progress: IngestionProgress) => void;
+  // no cache by default, as an in-memory cache would keep all nodes
+  cache?: IngestionCache;
+};
+
+async function withRetries<T>(
+  fn: () => Promise<T>,
+  maxRetries: number,
+  retryDelay: number,
+  beforeRetry: () => Promise<void>,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= maxRetries) {
+        throw error;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, retryDelay * 2 ** attempt),
+      );
+      await beforeRetry();
+    }
+  }
+}
+
+/**
+ * Runs a transformation on the nodes that are not in the cache, and caches
+ * the produced nodes of each node. A produced node belongs to the node with
+ * the same id (e.g. embeddings) or to its source node (e.g. node parsers).
+ * If a produced node belongs to none of them, the results are not cached.
+ */
+async function runCachedTransformation(
+  nodes: BaseNode[],
+  transform: TransformComponent,
+  transformOptions: any,
+  cache: IngestionCache,
+): Promise<BaseNode[]> {
+  const transformHash = getTransformHash(transform);
+  const hashes = nodes.map((node) =>
+    getNodeTransformationHash(node, transformHash),
+  );
+  const results: (BaseNode[] | undefined)[] = [];
+  for (const hash of hashes) {
+    results.push(await cache.get(hash));
+  }
+
+  const missingIndexById = new Map<string, number>();
+  nodes.forEach((node, index) => {
+    if (!results[index]) {
+      missingIndexById.set(node.id_, index);
+      results[index] = [];
+    }
+  });
+  if (missingIndexById.size === 0) {
+    return results.flat() as BaseNode[];
+  }
+
+  const unmatched: BaseNode[] = [];
+  const transformed = await transform.transform(
+    nodes.filter(({ id_ }) => missingIndexById.has(id_)),
+    transformOptions,
+  );
+  for (const node of transformed) {
+    const index =
+      missingIndexById.get(node.id_) ??
+      missingIndexById.get(node.sourceNode?.nodeId ?? "");
+    if (index === undefined) {
+      unmatched.push(node);
+    } else {
+      results[index]!.push(node);
+    }
+  }
+  if (unmatched.length === 0) {
+    for (const index of missingIndexById.values()) {
+      await cache.put(hashes[index], results[index]!);
+    }
+  }
+  return [...(results.flat() as BaseNode[]), ...unmatched];
+}
+
 export async function runTransformations(
   nodesToRun: BaseNode[],
   transformations: TransformComponent[],
@@ -31,14 +176,12 @@ export async function runTransformations(
   }
   for (const transform of transformations) {
     if (cache) {
-      const hash = getTransformationHash(nodes, transform);
-      const cachedNodes = await cache.get(hash);
-      if (cachedNodes) {
-        nodes = cachedNodes;
-      } else {
-        nodes = await transform.transform(nodes, transformOptions);
-        await cache.put(hash, nodes);
-      }
+      nodes = await runCachedTransformation(
+        nodes,
+        transform,
+        transformOptions,
+        cache,
+      );
     } else {
       nodes = await transform.transform(nodes, transformOptions);
     }
@@ -65,7 +208,7 @@ export class IngestionPipeline {
       this.docStore,
       this.vectorStore,
     );
-    if (!this.disableCache) {
+    if (!this.disableCache && !this.cache) {
       this.cache = new IngestionCache();
     }
   }
@@ -96,9 +239,66 @@ export class IngestionPipeline {
   ): Promise<BaseNode[]> {
     args.cache = args.cache ?? this.cache;
     const inputNodes = await this.prepareInput(args.documents, args.nodes);
+    return this.ingest(inputNodes, args, transformOptions);
+  }
+
+  /**
+   * Syncs the doc store and the vector store with a source: the new and changed
+   * documents are ingested, and the documents that are not in the source anymore
+   * are deleted, whatever the doc store strategy.
+   *
+   * By default, the documents are all the documents of the source. To only pass
+   * the documents that changed, pass the ids of all documents of the source in
+   * `sourceIds`, e.g. the paths of the files of a directory.
+   * @returns the ids of the added, updated, deleted and unchanged documents
+   */
+  async sync(args: SyncArgs = {}, transformOptions?: any): Promise<SyncReport> {
+    if (!this.docStore) {
+      throw new Error("A doc store is required to sync documents");
+    }
+    const inputNodes = await this.prepareInput(args.documents, args.nodes);
+    const { dedupedNodes, missingDocs, unusedDocs } = await classify(
+      this.docStore,
+      inputNodes,
+    );
+    const sourceIds = new Set(args.sourceIds ?? inputNodes.map(getRefDocId));
+    const changedIds = new Set(dedupedNodes.map(getRefDocId));
+    const updatedIds = new Set(unusedDocs);
+    const report: SyncReport = {
+      added: [...changedIds].filter((id) => !updatedIds.has(id)),
+      updated: [...updatedIds],
+      deleted: missingDocs.filter((id) => !sourceIds.has(id)),
+      unchanged: [...new Set(inputNodes.map(getRefDocId))].filter(
+        (id) => !changedIds.has(id),
+      ),
+    };
+
+    await this.removeDocuments(report.deleted);
+    await this.ingest(
+      inputNodes,
+      { cache: args.cache ?? this.cache },
+      transformOptions,
+      new UpsertsStrategy(this.docStore, this.vectorStore),
+    );
+    return report;
+  }
+
+  /**
+   * Transforms the nodes and adds them to the vector store.
+   */
+  private async ingest(
+    inputNodes: BaseNode[],
+    args: TransformRunArgs & {
+      // collects the ids of the documents added to the doc store
+      addedRefDocIds?: Set<string>;
+    },
+    transformOptions?: any,
+    docStoreStrategy = this._docStoreStrategy,
+  ): Promise<BaseNode[]> {
     let nodesToRun;
-    if (this._docStoreStrategy) {
-      nodesToRun = await this._docStoreStrategy.transform(inputNodes);
+    if (docStoreStrategy) {
+      nodesToRun = await docStoreStrategy.transform(inputNodes);
+      nodesToRun.forEach((node) => args.addedRefDocIds?.add(getRefDocId(node)));
     } else {
       nodesToRun = inputNodes;
     }
@@ -115,4 +315,192 @@ export class IngestionPipeline {
     }
     return nodes;
   }
+
+  private async *lazyPrepareInput(
+    documents?: Iterable<Document> | AsyncIterable<Document>,
+  ): AsyncIterable<Document> {
+    if (documents) {
+      yield* documents;
+    }
+    if (this.documents) {
+      yield* this.documents;
+    }
+    if (this.reader?.lazyLoadData) {
+      yield* this.reader.lazyLoadData();
+    } else if (this.reader) {
+      yield* await this.reader.loadData();
+    }
+  }
+
+  /**
+   * Runs the pipeline on batches of documents: each batch is transformed and
+   * added to the vector store before more documents are read, so that only
+   * `numWorkers` batches are in memory. The reader is read with `lazyLoadData`
+   * if it has one. The workers run concurrently in the same thread, which
+   * speeds up the transformations waiting for APIs, e.g. embedding models.
+   *
+   * A failing batch is retried with an exponential backoff. If it still fails,
+   * its documents are returned in `failedDocuments`, and the other batches are
+   * ingested. The documents added by the failed attempts are removed from the
+   * stores, the documents ingested by a previous run are kept.
+   *
+   * With a checkpoint, the documents of the batches added to the vector store
+   * are recorded, and skipped if the pipeline is run again after an interruption.
+   *
+   * With the upserts and delete strategy, the documents that were not read are
+   * deleted after all batches are ingested, not after each batch.
+   * @returns the number of documents and nodes ingested, the nodes are not kept
+   */
+  async runBatched(
+    args: BatchedRunArgs = {},
+    transformOptions?: any,
+  ): Promise<BatchedRunResult> {
+    const {
+      batchSize = DEFAULT_BATCH_SIZE,
+      numWorkers = 1,
+      maxRetries = 0,
+      retryDelay = DEFAULT_RETRY_DELAY,
+      checkpoint,
+      onProgress,
+    } = args;
+    if (batchSize < 1) {
+      throw new Error("batchSize must be at least 1");
+    }
+    if (numWorkers < 1) {
+      throw new Error("numWorkers must be at least 1");
+    }
+    const progress: IngestionProgress = {
+      numBatches: 0,
+      numDocuments: 0,
+      numNodes: 0,
+      numSkipped: 0,
+      numFailed: 0,
+    };
+    const failedDocuments: FailedDocument[] = [];
+    // the batches only upsert, as they don't have all documents
+    let docStoreStrategy = this._docStoreStrategy;
+    let readIds: Set<string> | undefined;
+    if (docStoreStrategy instanceof UpsertsAndDeleteStrategy) {
+      docStoreStrategy = new UpsertsStrategy(this.docStore!, this.vectorStore);
+      readIds = new Set();
+    }
+
+    const runBatch = async (documents: Document[]) => {
+      if (checkpoint) {
+        const interrupted: Document[] = [];
+        for (const document of documents) {
+          if ((await checkpoint.getStatus(document)) === "started") {
+            interrupted.push(document);
+          }
+        }
+        await this.removeDocuments(interrupted.map(getRefDocId));
+        await checkpoint.setStatus(documents, "started");
+      }
+      // the documents added by the current attempt
+      const addedRefDocIds = new Set<string>();
+      // the doc store strategy would skip the documents added by a failed attempt
+      const rollback = async () => {
+        await this.removeDocuments([...addedRefDocIds]);
+        addedRefDocIds.clear();
+      };
+      try {
+        const nodes = await withRetries(
+          () =>
+            this.ingest(
+              documents,
+              { cache: args.cache, addedRefDocIds },
+              transformOptions,
+              docStoreStrategy,
+            ),
+          maxRetries,
+          retryDelay,
+          rollback,
+        );
+        if (checkpoint) {
+          await checkpoint.setStatus(documents, "ingested");
+        }
+        progress.numDocuments += documents.length;
+        progress.numNodes += nodes.length;
+      } catch (error) {
+        await rollback();
+        failedDocuments.push(
+          ...documents.map((document) => ({ document, error })),
+        );
+        progress.numFailed += documents.length;
+      }
+      progress.numBatches++;
+      onProgress?.({ ...progress });
+    };
+
+    // the batches being ingested, at most one per worker
+    const running = new Set<Promise<void>>();
+    let workerError: { error: unknown } | undefined;
+    const startBatch = async (documents: Document[]) => {
+      const promise: Promise<void> = runBatch(documents)
+        .catch((error) => {
+          workerError = workerError ?? { error };
+        })
+        .then(() => {
+          running.delete(promise);
+        });
+      running.add(promise);
+      if (running.size >= numWorkers) {
+        await Promise.race(running);
+      }
+      if (workerError) {
+        throw workerError.error;
+      }
+    };
+
+    let batch: Document[] = [];
+    try {
+      for await (const document of this.lazyPrepareInput(args.documents)) {
+        readIds?.add(getRefDocId(document));
+        if ((await checkpoint?.getStatus(document)) === "ingested") {
+          progress.numSkipped++;
+          continue;
+        }
+        batch.push(document);
+        if (batch.length === batchSize) {
+          await startBatch(batch);
+          batch = [];
+        }
+      }
+      if (batch.length > 0) {
+        await startBatch(batch);
+      }
+    } finally {
+      await Promise.all(running);
+    }
+    if (workerError) {
+      throw workerError.error;
+    }
+    let numDeleted = 0;
+    if (readIds) {
+      const existingIds = Object.values(
+        await this.docStore!.getAllDocumentHashes(),
+      );
+      const deletedIds = existingIds.filter((id) => !readIds!.has(id));
+      await this.removeDocuments(deletedIds);
+      numDeleted = deletedIds.length;
+    }
+    return { ...progress, failedDocuments, numDeleted };
+  }
+
+  /**
+   * Removes the documents and their nodes from the doc store and the vector store,
+   * so that the doc store strategy doesn't skip them as duplicates when they are
+   * ingested again.
+   */
+  private async removeDocuments(refDocIds: string[]): Promise<void> {
+    for (const refDocId of refDocIds) {
+      if (this.docStore) {
+        await this.docStore.deleteRefDoc(refDocId, false);
+        if (await this.docStore.documentExists(refDocId)) {
+          await this.docStore.deleteDocument(refDocId, false);
+        }
+      }
+      await this.vectorStore?.delete(refDocId);
+    }
+  }
 }
@@ -1,2 +1,5 @@
+export * from "./IngestionCache.js";
+export * from "./IngestionCheckpoint.js";
 export * from "./IngestionPipeline.js";
+export * from "./strategies/index.js";
 export * from "./types.js";
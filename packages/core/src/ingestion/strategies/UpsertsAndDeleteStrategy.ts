@@ -1,12 +1,14 @@
 import type { BaseNode } from "../../Node.js";
-import type { BaseDocumentStore, VectorStore } from "../../storage/index.js";
+import type { BaseDocumentStore } from "../../storage/docStore/types.js";
+import type { VectorStore } from "../../storage/vectorStore/types.js";
+import type { TransformComponent } from "../types.js";
 import { classify } from "./classify.js";
 
 /**
  * Handle docstore upserts by checking hashes and ids.
  * Identify missing docs and delete them from docstore and vector store
  */
-export class UpsertsAndDeleteStrategy {
+export class UpsertsAndDeleteStrategy implements TransformComponent {
   protected docStore: BaseDocumentStore;
   protected vectorStore?: VectorStore;
 
@@ -31,7 +33,8 @@ export class UpsertsAndDeleteStrategy {
 
     // remove missing docs
     for (const docId of missingDocs) {
-      await this.docStore.deleteDocument(docId, true);
+      await this.docStore.deleteRefDoc(docId, false);
+      await this.docStore.deleteDocument(docId, false);
       if (this.vectorStore) {
         await this.vectorStore.delete(docId);
       }
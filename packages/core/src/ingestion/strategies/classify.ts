@@ -1,6 +1,14 @@
 import type { BaseNode } from "../../Node.js";
 import type { BaseDocumentStore } from "../../storage/docStore/types.js";
 
+/**
+ * The id of the document a node was produced from, or of the node itself
+ * if it's a document.
+ */
+export function getRefDocId(node: BaseNode): string {
+  return node.sourceNode?.nodeId || node.id_;
+}
+
 export async function classify(docStore: BaseDocumentStore, nodes: BaseNode[]) {
   const existingDocIds = Object.values(await docStore.getAllDocumentHashes());
   const docIdsFromNodes = new Set<string>();
@@ -8,7 +16,7 @@ export async function classify(docStore: BaseDocumentStore, nodes: BaseNode[]) {
   const unusedDocs: string[] = [];
 
   for (const node of nodes) {
-    const refDocId = node.sourceNode?.nodeId || node.id_;
+    const refDocId = getRefDocId(node);
     docIdsFromNodes.add(refDocId);
     const existingHash = await docStore.getDocumentHash(refDocId);
 
@@ -2,8 +2,12 @@ import type { BaseDocumentStore } from "../../storage/docStore/types.js";
 import type { VectorStore } from "../../storage/vectorStore/types.js";
 import type { TransformComponent } from "../types.js";
 import { DuplicatesStrategy } from "./DuplicatesStrategy.js";
+import { UpsertsAndDeleteStrategy } from "./UpsertsAndDeleteStrategy.js";
 import { UpsertsStrategy } from "./UpsertsStrategy.js";
 
+export { classify, getRefDocId } from "./classify.js";
+export { DuplicatesStrategy, UpsertsAndDeleteStrategy, UpsertsStrategy };
+
 export enum DocStoreStrategy {
   UPSERTS = "upserts",
   DUPLICATES_ONLY = "duplicates_only",
@@ -16,11 +20,10 @@ export function createDocStoreStrategy(
   vectorStore?: VectorStore,
 ): TransformComponent | undefined {
   if (docStore && vectorStore) {
-    if (
-      docStoreStrategy === DocStoreStrategy.UPSERTS ||
-      docStoreStrategy === DocStoreStrategy.UPSERTS_AND_DELETE
-    ) {
+    if (docStoreStrategy === DocStoreStrategy.UPSERTS) {
       return new UpsertsStrategy(docStore, vectorStore);
+    } else if (docStoreStrategy === DocStoreStrategy.UPSERTS_AND_DELETE) {
+      return new UpsertsAndDeleteStrategy(docStore, vectorStore);
     } else if (docStoreStrategy === DocStoreStrategy.DUPLICATES_ONLY) {
       return new DuplicatesStrategy(docStore);
     } else {
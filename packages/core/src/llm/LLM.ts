@@ -7,10 +7,16 @@ import type {
   OpenAIStreamToken,
   StreamCallbackResponse,
 } from "../callbacks/CallbackManager.js";
+import { traceEvent } from "../callbacks/CallbackManager.js";
 
-import type { ChatCompletionMessageParam } from "openai/resources/index.js";
+import type {
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+  ChatCompletionToolChoiceOption,
+} from "openai/resources/index.js";
 import type { LLMOptions } from "portkey-ai";
 import { Tokenizers, globalsHelper } from "../GlobalsHelper.js";
+import type { ToolMetadata } from "../types.js";
 import type { AnthropicSession } from "./anthropic.js";
 import { getAnthropicSession } from "./anthropic.js";
 import type { AzureOpenAIConfig } from "./azure.js";
@@ -34,7 +40,10 @@ import type {
   LLMChatParamsStreaming,
   LLMMetadata,
   MessageType,
+  ToolCall,
+  ToolChoice,
 } from "./types.js";
+import { getToolParams, toTokenUsage } from "./utils.js";
 
 export const GPT4_MODELS = {
   "gpt-4": { contextWindow: 8192 },
@@ -70,6 +79,59 @@ export const isFunctionCallingModel = (model: string): boolean => {
   return isChatModel && !isOld;
 };
 
+function toOpenAITool({
+  name,
+  description,
+  parameters,
+}: ToolMetadata): ChatCompletionTool {
+  return {
+    type: "function",
+    function: { name, description, parameters },
+  };
+}
+
+function toOpenAIToolChoice(
+  toolChoice: ToolChoice | undefined,
+): ChatCompletionToolChoiceOption | undefined {
+  if (typeof toolChoice === "object") {
+    return { type: "function", function: { name: toolChoice.name } };
+  }
+  return toolChoice;
+}
+
+/**
+ * Converts the tool calls and the tool call id of a message to the OpenAI format,
+ * other additional kwargs are sent as they are.
+ */
+function toOpenAIMessageKwargs(
+  additionalKwargs: Record<string, any> = {},
+): Record<string, any> {
+  const { toolCalls, toolCallId, ...kwargs } = additionalKwargs;
+  return {
+    ...kwargs,
+    ...(toolCalls && { tool_calls: toolCalls }),
+    ...(toolCallId && { tool_call_id: toolCallId }),
+  };
+}
+
+// the usage of streamed chat completions, which the types of the openai package don't have
+type OpenAIStreamUsage = {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+};
+
+type OpenAIStreamChunk = OpenAIStreamToken & {
+  // sent in an extra last chunk without choices if `stream_options.include_usage` is set
+  usage?: OpenAIStreamUsage | null;
+  // Groq sends the usage in the last chunk
+  x_groq?: { usage?: OpenAIStreamUsage };
+};
+
+type OpenAIStreamParams = OpenAILLM.Chat.ChatCompletionCreateParamsStreaming & {
+  stream_options?: { include_usage: boolean };
+};
+
 /**
  * OpenAI LLM implementation
  */
@@ -79,6 +141,9 @@ export class OpenAI extends BaseLLM {
   temperature: number;
   topP: number;
   maxTokens?: number;
+  // request the usage in the last chunk of streams with `stream_options`,
+  // not all OpenAI compatible APIs support it
+  includeStreamUsage: boolean;
   additionalChatOptions?: Omit<
     Partial<OpenAILLM.Chat.ChatCompletionCreateParams>,
     | "max_tokens"
@@ -113,6 +178,7 @@ export class OpenAI extends BaseLLM {
     this.temperature = init?.temperature ?? 0.1;
     this.topP = init?.topP ?? 1;
     this.maxTokens = init?.maxTokens ?? undefined;
+    this.includeStreamUsage = init?.includeStreamUsage ?? false;
 
     this.maxRetries = init?.maxRetries ?? 10;
     this.timeout = init?.timeout ?? 60 * 1000; // Default is 60 seconds
@@ -210,17 +276,10 @@ export class OpenAI extends BaseLLM {
 
   toOpenAIMessage(messages: ChatMessage[]) {
     return messages.map((message) => {
-      const additionalKwargs = message.additionalKwargs ?? {};
-
-      if (message.additionalKwargs?.toolCalls) {
-        additionalKwargs.tool_calls = message.additionalKwargs.toolCalls;
-        delete additionalKwargs.toolCalls;
-      }
-
       return {
         role: this.mapMessageType(message.role),
         content: message.content,
-        ...additionalKwargs,
+        ...toOpenAIMessageKwargs(message.additionalKwargs),
       };
     });
   }
@@ -232,63 +291,82 @@ export class OpenAI extends BaseLLM {
   async chat(
     params: LLMChatParamsNonStreaming | LLMChatParamsStreaming,
   ): Promise<ChatResponse | AsyncIterable<ChatResponseChunk>> {
-    const { messages, parentEvent, stream, tools, toolChoice } = params;
-    const baseRequestParams: OpenAILLM.Chat.ChatCompletionCreateParams = {
-      model: this.model,
-      temperature: this.temperature,
-      max_tokens: this.maxTokens,
-      tools: tools,
-      tool_choice: toolChoice,
-      messages: this.toOpenAIMessage(messages) as ChatCompletionMessageParam[],
-      top_p: this.topP,
-      ...this.additionalChatOptions,
-    };
+    return traceEvent(
+      this.callbackManager,
+      {
+        type: "llmPredict",
+        parentEvent: params.parentEvent,
+        input: { model: this.metadata.model, messages: params.messages },
+      },
+      async () => {
+        const { messages, stream } = params;
+        const { tools, toolChoice } = getToolParams(params);
 
-    // Streaming
-    if (stream) {
-      return this.streamChat(params);
-    }
+        // Streaming
+        if (stream) {
+          return this.streamChat(params);
+        }
 
-    // Non-streaming
-    const response = await this.session.openai.chat.completions.create({
-      ...baseRequestParams,
-      stream: false,
-    });
+        const baseRequestParams: OpenAILLM.Chat.ChatCompletionCreateParams = {
+          model: this.model,
+          temperature: this.temperature,
+          max_tokens: this.maxTokens,
+          tools: tools?.map(toOpenAITool),
+          tool_choice: toOpenAIToolChoice(toolChoice),
+          messages: this.toOpenAIMessage(
+            messages,
+          ) as ChatCompletionMessageParam[],
+          top_p: this.topP,
+          ...this.additionalChatOptions,
+        };
 
-    const content = response.choices[0].message?.content ?? null;
+        // Non-streaming
+        const response = await this.session.openai.chat.completions.create({
+          ...baseRequestParams,
+          stream: false,
+        });
 
-    const kwargsOutput: Record<string, any> = {};
+        const content = response.choices[0].message?.content ?? null;
 
-    if (response.choices[0].message?.tool_calls) {
-      kwargsOutput.toolCalls = response.choices[0].message.tool_calls;
-    }
+        const kwargsOutput: Record<string, any> = {};
 
-    return {
-      message: {
-        content,
-        role: response.choices[0].message.role,
-        additionalKwargs: kwargsOutput,
+        if (response.choices[0].message?.tool_calls) {
+          kwargsOutput.toolCalls = response.choices[0].message.tool_calls;
+        }
+
+        return {
+          message: {
+            content,
+            role: response.choices[0].message.role,
+            additionalKwargs: kwargsOutput,
+          },
+          usage: toTokenUsage(response.usage),
+        };
       },
-    };
+    );
   }
 
-  protected async *streamChat({
-    messages,
-    parentEvent,
-  }: LLMChatParamsStreaming): AsyncIterable<ChatResponseChunk> {
-    const baseRequestParams: OpenAILLM.Chat.ChatCompletionCreateParams = {
+  protected async *streamChat(
+    params: LLMChatParamsStreaming,
+  ): AsyncIterable<ChatResponseChunk> {
+    const { messages, parentEvent } = params;
+    // the tools can't be called, but they are needed for the tool calls in the messages
+    const { tools, toolChoice } = getToolParams(params);
+    const requestParams: OpenAIStreamParams = {
       model: this.model,
       temperature: this.temperature,
       max_tokens: this.maxTokens,
-      messages: messages.map(
-        (message) =>
-          ({
-            role: this.mapMessageType(message.role),
-            content: message.content,
-          }) as ChatCompletionMessageParam,
-      ),
+      messages: this.toOpenAIMessage(messages) as ChatCompletionMessageParam[],
+      ...(tools?.length && {
+        tools: tools.map(toOpenAITool),
+        tool_choice: toOpenAIToolChoice(toolChoice),
+      }),
       top_p: this.topP,
+      ...(this.includeStreamUsage && {
+        stream_options: { include_usage: true },
+      }),
       ...this.additionalChatOptions,
+      stream: true,
     };
 
     //Now let's wrap our stream in a callback
@@ -296,11 +374,8 @@ export class OpenAI extends BaseLLM {
       ? this.callbackManager.onLLMStream
       : () => {};
 
-    const chunk_stream: AsyncIterable<OpenAIStreamToken> =
-      await this.session.openai.chat.completions.create({
-        ...baseRequestParams,
-        stream: true,
-      });
+    const chunk_stream: AsyncIterable<OpenAIStreamChunk> =
+      await this.session.openai.chat.completions.create(requestParams);
 
     const event: Event = parentEvent
       ? parentEvent
@@ -313,7 +388,15 @@ export class OpenAI extends BaseLLM {
     //Indices
     let idx_counter: number = 0;
     for await (const part of chunk_stream) {
-      if (!part.choices.length) continue;
+      // OpenAI sends the usage in an extra last chunk without choices,
+      // Groq in the x_groq field of the last chunk
+      const usage = toTokenUsage(part.usage ?? part.x_groq?.usage);
+      if (!part.choices.length) {
+        if (usage) {
+          yield { delta: "", usage };
+        }
+        continue;
+      }
 
       //Increment
       part.choices[0].index = idx_counter;
@@ -333,6 +416,7 @@ export class OpenAI extends BaseLLM {
 
       yield {
         delta: part.choices[0].delta.content ?? "",
+        usage,
       };
     }
     return;
@@ -401,6 +485,7 @@ export class LlamaDeuce extends BaseLLM {
   topP: number;
   maxTokens?: number;
   replicateSession: ReplicateSession;
+  callbackManager?: CallbackManager;
 
   constructor(init?: Partial<LlamaDeuce>) {
     super();
@@ -416,6 +501,7 @@ export class LlamaDeuce extends BaseLLM {
       init?.maxTokens ??
       ALL_AVAILABLE_LLAMADEUCE_MODELS[this.model].contextWindow; // For Replicate, the default is 500 tokens which is too low.
     this.replicateSession = init?.replicateSession ?? new ReplicateSession();
+    this.callbackManager = init?.callbackManager;
   }
 
   tokens(messages: ChatMessage[]): number {
@@ -567,44 +653,54 @@ If a question does not make any sense, or is not factually coherent, explain why
   async chat(
     params: LLMChatParamsNonStreaming | LLMChatParamsStreaming,
   ): Promise<ChatResponse | AsyncIterable<ChatResponseChunk>> {
-    const { messages, parentEvent, stream } = params;
-    const api = ALL_AVAILABLE_LLAMADEUCE_MODELS[this.model]
-      .replicateApi as `${string}/${string}:${string}`;
-
-    const { prompt, systemPrompt } = this.mapMessagesToPrompt(messages);
-
-    const replicateOptions: any = {
-      input: {
-        prompt,
-        system_prompt: systemPrompt,
-        temperature: this.temperature,
-        top_p: this.topP,
+    return traceEvent(
+      this.callbackManager,
+      {
+        type: "llmPredict",
+        parentEvent: params.parentEvent,
+        input: { model: this.metadata.model, messages: params.messages },
       },
-    };
+      async () => {
+        const { messages, parentEvent, stream } = params;
+        const api = ALL_AVAILABLE_LLAMADEUCE_MODELS[this.model]
+          .replicateApi as `${string}/${string}:${string}`;
+
+        const { prompt, systemPrompt } = this.mapMessagesToPrompt(messages);
+
+        const replicateOptions: any = {
+          input: {
+            prompt,
+            system_prompt: systemPrompt,
+            temperature: this.temperature,
+            top_p: this.topP,
+          },
+        };
 
-    if (this.model.endsWith("4bit")) {
-      replicateOptions.input.max_new_tokens = this.maxTokens;
-    } else {
-      replicateOptions.input.max_length = this.maxTokens;
-    }
+        if (this.model.endsWith("4bit")) {
+          replicateOptions.input.max_new_tokens = this.maxTokens;
+        } else {
+          replicateOptions.input.max_length = this.maxTokens;
+        }
 
-    //TODO: Add streaming for this
-    if (stream) {
-      throw new Error("Streaming not supported for LlamaDeuce");
-    }
+        //TODO: Add streaming for this
+        if (stream) {
+          throw new Error("Streaming not supported for LlamaDeuce");
+        }
 
-    //Non-streaming
-    const response = await this.replicateSession.replicate.run(
-      api,
-      replicateOptions,
-    );
-    return {
-      message: {
-        content: (response as Array<string>).join("").trimStart(),
-        //^ We need to do this because Replicate returns a list of strings (for streaming functionality which is not exposed by the run function)
-        role: "assistant",
+        //Non-streaming
+        const response = await this.replicateSession.replicate.run(
+          api,
+          replicateOptions,
+        );
+        return {
+          message: {
+            content: (response as Array<string>).join("").trimStart(),
+            //^ We need to do this because Replicate returns a list of strings (for streaming functionality which is not exposed by the run function)
+            role: "assistant",
+          },
+        };
       },
-    };
+    );
   }
 }
 
@@ -636,6 +732,18 @@ const AVAILABLE_ANTHROPIC_MODELS_WITHOUT_DATE: { [key: string]: string } = {
  * Anthropic LLM implementation
  */
 
+// the tool use blocks are not part of the types of the Anthropic SDK yet
+type AnthropicContentBlock = {
+  type?: string;
+  text?: string;
+  [key: string]: unknown;
+};
+
+type AnthropicMessage = {
+  role: "user" | "assistant";
+  content: any;
+};
+
 export class Anthropic extends BaseLLM {
   // Per completion Anthropic params
   model: keyof typeof ALL_AVAILABLE_ANTHROPIC_MODELS;
@@ -684,6 +792,7 @@ export class Anthropic extends BaseLLM {
       maxTokens: this.maxTokens,
       contextWindow: ALL_AVAILABLE_ANTHROPIC_MODELS[this.model].contextWindow,
       tokenizer: undefined,
+      isFunctionCallingModel: this.model in ALL_AVAILABLE_V3_MODELS,
     };
   }
 
@@ -694,17 +803,83 @@ export class Anthropic extends BaseLLM {
     return model;
   };
 
-  formatMessages(messages: ChatMessage[]) {
-    return messages.map((message) => {
+  formatMessages(messages: ChatMessage[]): AnthropicMessage[] {
+    const result: AnthropicMessage[] = [];
+    for (const message of messages) {
+      if (message.role === "tool") {
+        // tool results are sent in user messages, one message for consecutive results
+        const toolResult = {
+          type: "tool_result",
+          tool_use_id: message.additionalKwargs?.toolCallId,
+          content: message.content,
+        };
+        const lastMessage = result[result.length - 1];
+        if (
+          lastMessage?.role === "user" &&
+          Array.isArray(lastMessage.content) &&
+          lastMessage.content.every(
+            (block: AnthropicContentBlock) => block.type === "tool_result",
+          )
+        ) {
+          lastMessage.content.push(toolResult);
+        } else {
+          result.push({ role: "user", content: [toolResult] });
+        }
+        continue;
+      }
+
       if (message.role !== "user" && message.role !== "assistant") {
         throw new Error("Unsupported Anthropic role");
       }
 
-      return {
+      const toolCalls: ToolCall[] | undefined =
+        message.additionalKwargs?.toolCalls;
+      if (message.role === "assistant" && toolCalls?.length) {
+        result.push({
+          role: "assistant",
+          content: [
+            ...(message.content
+              ? [{ type: "text", text: message.content }]
+              : []),
+            ...toolCalls.map(({ id, function: { name, arguments: args } }) => ({
+              type: "tool_use",
+              id,
+              name,
+              input: JSON.parse(args),
+            })),
+          ],
+        });
+        continue;
+      }
+
+      result.push({
         content: message.content,
         role: message.role,
-      };
-    });
+      });
+    }
+    return result;
+  }
+
+  private toolParams(
+    tools: ToolMetadata[] | undefined,
+    toolChoice: ToolChoice | undefined,
+  ): Record<string, unknown> {
+    if (!tools?.length) {
+      return {};
+    }
+    return {
+      tools: tools.map(({ name, description, parameters }) => ({
+        name,
+        description,
+        input_schema: parameters ?? { type: "object", properties: {} },
+      })),
+      ...(toolChoice && {
+        tool_choice:
+          typeof toolChoice === "object"
+            ? { type: "tool", name: toolChoice.name }
+            : { type: toolChoice },
+      }),
+    };
   }
 
   chat(
@@ -714,47 +889,91 @@ export class Anthropic extends BaseLLM {
   async chat(
     params: LLMChatParamsNonStreaming | LLMChatParamsStreaming,
   ): Promise<ChatResponse | AsyncIterable<ChatResponseChunk>> {
-    let { messages } = params;
+    return traceEvent(
+      this.callbackManager,
+      {
+        type: "llmPredict",
+        parentEvent: params.parentEvent,
+        input: { model: this.metadata.model, messages: params.messages },
+      },
+      async () => {
+        let { messages } = params;
 
-    const { parentEvent, stream } = params;
+        const { parentEvent, stream } = params;
+        const { tools, toolChoice } = getToolParams(params);
 
-    let systemPrompt: string | null = null;
+        let systemPrompt: string | null = null;
 
-    const systemMessages = messages.filter(
-      (message) => message.role === "system",
-    );
+        const systemMessages = messages.filter(
+          (message) => message.role === "system",
+        );
 
-    if (systemMessages.length > 0) {
-      systemPrompt = systemMessages
-        .map((message) => message.content)
-        .join("\n");
-      messages = messages.filter((message) => message.role !== "system");
-    }
+        if (systemMessages.length > 0) {
+          systemPrompt = systemMessages
+            .map((message) => message.content)
+            .join("\n");
+          messages = messages.filter((message) => message.role !== "system");
+        }
 
-    //Streaming
-    if (stream) {
-      return this.streamChat(messages, parentEvent, systemPrompt);
-    }
+        //Streaming
+        if (stream) {
+          return this.streamChat(
+            messages,
+            parentEvent,
+            systemPrompt,
+            // the tools can't be called, but they are needed for the tool calls in the messages
+            this.toolParams(tools, toolChoice),
+          );
+        }
 
-    //Non-streaming
-    const response = await this.session.anthropic.messages.create({
-      model: this.getModelName(this.model),
-      messages: this.formatMessages(messages),
-      max_tokens: this.maxTokens ?? 4096,
-      temperature: this.temperature,
-      top_p: this.topP,
-      ...(systemPrompt && { system: systemPrompt }),
-    });
+        //Non-streaming
+        const response = await this.session.anthropic.messages.create({
+          model: this.getModelName(this.model),
+          messages: this.formatMessages(messages),
+          max_tokens: this.maxTokens ?? 4096,
+          temperature: this.temperature,
+          top_p: this.topP,
+          ...(systemPrompt && { system: systemPrompt }),
+          ...this.toolParams(tools, toolChoice),
+        });
 
-    return {
-      message: { content: response.content[0].text, role: "assistant" },
-    };
+        const content = response.content as AnthropicContentBlock[];
+        const toolCalls: ToolCall[] = content
+          .filter((block) => block.type === "tool_use")
+          .map((block) => ({
+            id: block.id as string,
+            type: "function",
+            function: {
+              name: block.name as string,
+              arguments: JSON.stringify(block.input),
+            },
+          }));
+
+        return {
+          message: {
+            content: content
+              .filter((block) => block.type !== "tool_use")
+              .map((block) => block.text)
+              .join(""),
+            role: "assistant",
+            additionalKwargs: toolCalls.length > 0 ? { toolCalls } : {},
+          },
+          usage: {
+            promptTokens: response.usage.input_tokens,
+            completionTokens: response.usage.output_tokens,
+            totalTokens:
+              response.usage.input_tokens + response.usage.output_tokens,
+          },
+        };
+      },
+    );
   }
 
   protected async *streamChat(
     messages: ChatMessage[],
     parentEvent?: Event | undefined,
     systemPrompt?: string | null,
+    toolParams: Record<string, unknown> = {},
   ): AsyncIterable<ChatResponseChunk> {
     const stream = await this.session.anthropic.messages.create({
       model: this.getModelName(this.model),
@@ -764,10 +983,29 @@ export class Anthropic extends BaseLLM {
       top_p: this.topP,
       stream: true,
       ...(systemPrompt && { system: systemPrompt }),
+      ...toolParams,
     });
 
     let idx_counter: number = 0;
+    // the prompt tokens are sent at the start of the message,
+    // the completion tokens at its end
+    let promptTokens = 0;
     for await (const part of stream) {
+      if (part.type === "message_start") {
+        promptTokens = part.message.usage.input_tokens;
+      }
+      if (part.type === "message_delta") {
+        const completionTokens = part.usage.output_tokens;
+        yield {
+          delta: "",
+          usage: {
+            promptTokens,
+            completionTokens,
+            totalTokens: promptTokens + completionTokens,
+          },
+        };
+      }
+
       const content =
         part.type === "content_block_delta" ? part.delta.text : null;
 
@@ -780,6 +1018,17 @@ export class Anthropic extends BaseLLM {
   }
 }
 
+// the types of the Portkey client don't have the tool calls of the messages
+type PortkeyToolCallMessage = { tool_calls: ToolCall[] };
+
+function hasToolCalls(message: unknown): message is PortkeyToolCallMessage {
+  return (
+    typeof message === "object" &&
+    message !== null &&
+    Array.isArray((message as Partial<PortkeyToolCallMessage>).tool_calls)
+  );
+}
+
 export class Portkey extends BaseLLM {
   apiKey?: string = undefined;
   baseURL?: string = undefined;
@@ -818,20 +1067,52 @@ export class Portkey extends BaseLLM {
   async chat(
     params: LLMChatParamsNonStreaming | LLMChatParamsStreaming,
   ): Promise<ChatResponse | AsyncIterable<ChatResponseChunk>> {
-    const { messages, parentEvent, stream, extraParams } = params;
-    if (stream) {
-      return this.streamChat(messages, parentEvent, extraParams);
-    } else {
-      const bodyParams = extraParams || {};
-      const response = await this.session.portkey.chatCompletions.create({
-        messages,
-        ...bodyParams,
-      });
-
-      const content = response.choices[0].message?.content ?? "";
-      const role = response.choices[0].message?.role || "assistant";
-      return { message: { content, role: role as MessageType } };
-    }
+    return traceEvent(
+      this.callbackManager,
+      {
+        type: "llmPredict",
+        parentEvent: params.parentEvent,
+        input: {
+          model: params.extraParams?.model,
+          messages: params.messages,
+        },
+      },
+      async () => {
+        const { messages, parentEvent, stream, extraParams } = params;
+        const { tools, toolChoice } = getToolParams(params);
+        if (stream) {
+          return this.streamChat(messages, parentEvent, extraParams);
+        } else {
+          const bodyParams = extraParams || {};
+          const response = await this.session.portkey.chatCompletions.create({
+            messages: messages.map((message) => ({
+              role: message.role,
+              content: message.content,
+              ...toOpenAIMessageKwargs(message.additionalKwargs),
+            })),
+            ...(tools?.length && {
+              tools: tools.map(toOpenAITool),
+              tool_choice: toOpenAIToolChoice(toolChoice),
+            }),
+            ...bodyParams,
+          });
+
+          const { message } = response.choices[0];
+          const content = message?.content ?? "";
+          const role = message?.role || "assistant";
+          return {
+            message: {
+              content,
+              role: role as MessageType,
+              additionalKwargs: hasToolCalls(message)
+                ? { toolCalls: message.tool_calls }
+                : {},
+            },
+            usage: toTokenUsage(response.usage),
+          };
+        }
+      },
+    );
   }
 
   async *streamChat(
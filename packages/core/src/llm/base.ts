@@ -34,6 +34,7 @@ export abstract class BaseLLM implements LLM {
       return streamConverter(stream, (chunk) => {
         return {
           text: chunk.delta,
+          usage: chunk.usage,
         };
       });
     }
@@ -41,7 +42,10 @@ export abstract class BaseLLM implements LLM {
       messages: [{ content: prompt, role: "user" }],
       parentEvent,
     });
-    return { text: chatResponse.message.content as string };
+    return {
+      text: chatResponse.message.content as string,
+      usage: chatResponse.usage,
+    };
   }
 
   abstract chat(
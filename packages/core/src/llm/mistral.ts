@@ -1,10 +1,15 @@
-import { getEnv } from "@llamaindex/env";
+import { getEnv, randomUUID } from "@llamaindex/env";
+import type MistralClient from "@mistralai/mistralai";
+import type { TokenUsage as MistralTokenUsage } from "@mistralai/mistralai";
 import type {
   CallbackManager,
+  DefaultStreamToken,
   Event,
   EventType,
   StreamCallbackResponse,
 } from "../callbacks/CallbackManager.js";
+import { traceEvent } from "../callbacks/CallbackManager.js";
+import type { ToolMetadata } from "../types.js";
 import { BaseLLM } from "./base.js";
 import type {
   ChatMessage,
@@ -12,19 +17,85 @@ import type {
   ChatResponseChunk,
   LLMChatParamsNonStreaming,
   LLMChatParamsStreaming,
+  MessageType,
+  ToolCall,
+  ToolChoice,
 } from "./types.js";
+import { getToolParams, toTokenUsage } from "./utils.js";
 
 export const ALL_AVAILABLE_MISTRAL_MODELS = {
   "mistral-tiny": { contextWindow: 32000 },
   "mistral-small": { contextWindow: 32000 },
   "mistral-medium": { contextWindow: 32000 },
+  "mistral-small-latest": { contextWindow: 32000 },
+  "mistral-large-latest": { contextWindow: 32000 },
+  "open-mixtral-8x22b": { contextWindow: 64000 },
+};
+
+// the models supporting tool calls
+const MISTRAL_FUNCTION_CALLING_MODELS = new Set([
+  "mistral-small",
+  "mistral-small-latest",
+  "mistral-large-latest",
+  "open-mixtral-8x22b",
+]);
+
+// the last chunk of a stream contains the usage, which the types of the client don't have
+type MistralStreamChunk = DefaultStreamToken & {
+  usage?: MistralTokenUsage;
+};
+
+const MISTRAL_ENDPOINT = "https://api.mistral.ai";
+// the retries of the Mistral client
+const DEFAULT_MAX_RETRIES = 5;
+const RETRY_STATUS_CODES = [429, 500, 502, 503, 504];
+
+type MistralToolCall = {
+  id?: string;
+  function: { name: string; arguments: string | Record<string, unknown> };
+};
+
+// a chat request with tools, which the Mistral client can't send
+type MistralToolChatRequest = {
+  model: string;
+  messages: Record<string, unknown>[];
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  random_seed?: number;
+  safe_prompt?: boolean;
+  tools: {
+    type: "function";
+    function: {
+      name: string;
+      description: string;
+      parameters?: Record<string, unknown>;
+    };
+  }[];
+  tool_choice?:
+    | "auto"
+    | "none"
+    | { type: "function"; function: { name: string } };
+};
+
+type MistralChatResponse = {
+  choices: {
+    message: { role: string; content: string; tool_calls?: MistralToolCall[] };
+  }[];
+  usage?: MistralTokenUsage;
 };
 
 export class MistralAISession {
   apiKey?: string;
-  private client: any;
+  // the URL of the API, e.g. of a proxy
+  endpoint: string;
+  // the number of attempts of the requests with tools
+  maxRetries: number;
+  private client?: MistralClient;
 
   constructor(init?: Partial<MistralAISession>) {
+    this.endpoint = init?.endpoint ?? MISTRAL_ENDPOINT;
+    this.maxRetries = init?.maxRetries ?? DEFAULT_MAX_RETRIES;
     if (init?.apiKey) {
       this.apiKey = init?.apiKey;
     } else {
@@ -35,13 +106,45 @@ export class MistralAISession {
     }
   }
 
-  async getClient() {
+  async getClient(): Promise<MistralClient> {
     const { default: MistralClient } = await import("@mistralai/mistralai");
     if (!this.client) {
-      this.client = new MistralClient(this.apiKey);
+      this.client = new MistralClient(this.apiKey, this.endpoint);
     }
     return this.client;
   }
+
+  /**
+   * Sends a chat request with tools to the chat completions API of the endpoint.
+   * Like the Mistral client, rate limited and failed requests are retried with
+   * an exponential backoff.
+   */
+  async chatWithTools(
+    request: MistralToolChatRequest,
+  ): Promise<MistralChatResponse> {
+    for (let attempt = 1; ; attempt++) {
+      const response = await fetch(`${this.endpoint}/v1/chat/completions`, {
+        method: "POST",
+        headers: {
+          Accept: "application/json",
+          Authorization: `Bearer ${this.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(request),
+      });
+      if (response.ok) {
+        return response.json();
+      }
+      const text = await response.text();
+      if (
+        !RETRY_STATUS_CODES.includes(response.status) ||
+        attempt >= this.maxRetries
+      ) {
+        throw new Error(`Mistral API error (${response.status}): ${text}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 2 ** attempt * 500));
+    }
+  }
 }
 
 /**
@@ -57,6 +160,8 @@ export class MistralAI extends BaseLLM {
   callbackManager?: CallbackManager;
   safeMode: boolean;
   randomSeed?: number;
+  // the URL of the API, https://api.mistral.ai by default
+  endpoint?: string;
 
   private session: MistralAISession;
 
@@ -69,6 +174,7 @@ export class MistralAI extends BaseLLM {
     this.callbackManager = init?.callbackManager;
     this.safeMode = init?.safeMode ?? false;
     this.randomSeed = init?.randomSeed ?? undefined;
+    this.endpoint = init?.endpoint;
     this.session = new MistralAISession(init);
   }
 
@@ -80,6 +186,7 @@ export class MistralAI extends BaseLLM {
       maxTokens: this.maxTokens,
       contextWindow: ALL_AVAILABLE_MISTRAL_MODELS[this.model].contextWindow,
       tokenizer: undefined,
+      isFunctionCallingModel: MISTRAL_FUNCTION_CALLING_MODELS.has(this.model),
     };
   }
 
@@ -87,6 +194,20 @@ export class MistralAI extends BaseLLM {
     throw new Error("Method not implemented.");
   }
 
+  private formatMessages(messages: ChatMessage[]) {
+    return messages.map(({ role, content, additionalKwargs }) => ({
+      role,
+      content,
+      ...(additionalKwargs?.toolCalls && {
+        tool_calls: additionalKwargs.toolCalls,
+      }),
+      ...(role === "tool" && {
+        name: additionalKwargs?.name,
+        tool_call_id: additionalKwargs?.toolCallId,
+      }),
+    }));
+  }
+
   private buildParams(messages: ChatMessage[]): any {
     return {
       model: this.model,
@@ -95,10 +216,35 @@ export class MistralAI extends BaseLLM {
       topP: this.topP,
       safeMode: this.safeMode,
       randomSeed: this.randomSeed,
-      messages,
+      messages: this.formatMessages(messages),
     };
   }
 
+  // the Mistral client doesn't send tools, so the request is sent by the session
+  private async chatWithTools(
+    messages: ChatMessage[],
+    tools: ToolMetadata[],
+    toolChoice?: ToolChoice,
+  ): Promise<MistralChatResponse> {
+    return this.session.chatWithTools({
+      model: this.model,
+      messages: this.formatMessages(messages),
+      temperature: this.temperature,
+      max_tokens: this.maxTokens,
+      top_p: this.topP,
+      random_seed: this.randomSeed,
+      safe_prompt: this.safeMode,
+      tools: tools.map(({ name, description, parameters }) => ({
+        type: "function",
+        function: { name, description, parameters },
+      })),
+      tool_choice:
+        typeof toolChoice === "object"
+          ? { type: "function", function: { name: toolChoice.name } }
+          : toolChoice,
+    });
+  }
+
   chat(
     params: LLMChatParamsStreaming,
   ): Promise<AsyncIterable<ChatResponseChunk>>;
@@ -106,18 +252,49 @@ export class MistralAI extends BaseLLM {
   async chat(
     params: LLMChatParamsNonStreaming | LLMChatParamsStreaming,
   ): Promise<ChatResponse | AsyncIterable<ChatResponseChunk>> {
-    const { messages, stream } = params;
-    // Streaming
-    if (stream) {
-      return this.streamChat(params);
-    }
-    // Non-streaming
-    const client = await this.session.getClient();
-    const response = await client.chat(this.buildParams(messages));
-    const message = response.choices[0].message;
-    return {
-      message,
-    };
+    return traceEvent(
+      this.callbackManager,
+      {
+        type: "llmPredict",
+        parentEvent: params.parentEvent,
+        input: { model: this.metadata.model, messages: params.messages },
+      },
+      async () => {
+        const { messages, stream } = params;
+        const { tools, toolChoice } = getToolParams(params);
+        // Streaming
+        if (stream) {
+          return this.streamChat(params);
+        }
+        // Non-streaming
+        const response: MistralChatResponse = tools?.length
+          ? await this.chatWithTools(messages, tools, toolChoice)
+          : await (
+              await this.session.getClient()
+            ).chat(this.buildParams(messages));
+        const { tool_calls, role, content } = response.choices[0].message;
+        const message = { role: role as MessageType, content };
+        const toolCalls: ToolCall[] | undefined = tool_calls?.map(
+          (toolCall) => ({
+            id: toolCall.id ?? randomUUID(),
+            type: "function",
+            function: {
+              name: toolCall.function.name,
+              arguments:
+                typeof toolCall.function.arguments === "string"
+                  ? toolCall.function.arguments
+                  : JSON.stringify(toolCall.function.arguments),
+            },
+          }),
+        );
+        return {
+          message: toolCalls?.length
+            ? { ...message, additionalKwargs: { toolCalls } }
+            : message,
+          usage: toTokenUsage(response.usage),
+        };
+      },
+    );
   }
 
   protected async *streamChat({
@@ -141,7 +318,7 @@ export class MistralAI extends BaseLLM {
 
     //Indices
     let idx_counter: number = 0;
-    for await (const part of chunkStream) {
+    for await (const part of chunkStream as AsyncIterable<MistralStreamChunk>) {
       if (!part.choices.length) continue;
 
       part.choices[0].index = idx_counter;
@@ -160,6 +337,8 @@ export class MistralAI extends BaseLLM {
 
       yield {
         delta: part.choices[0].delta.content ?? "",
+        // the last chunk contains the usage
+        usage: toTokenUsage(part.usage),
       };
     }
     return;
@@ -1,5 +1,6 @@
-import { ok } from "@llamaindex/env";
+import { ok, randomUUID } from "@llamaindex/env";
 import type { CallbackManager, Event } from "../callbacks/CallbackManager.js";
+import { traceEvent } from "../callbacks/CallbackManager.js";
 import { BaseEmbedding } from "../embeddings/types.js";
 import type {
   ChatMessage,
@@ -12,15 +13,34 @@ import type {
   LLMCompletionParamsNonStreaming,
   LLMCompletionParamsStreaming,
   LLMMetadata,
+  TokenUsage,
+  ToolCall,
 } from "./types.js";
+import { getToolParams } from "./utils.js";
+
+// the token counts are only set in the last response (with `done: true`)
+const getUsage = (data: any): TokenUsage | undefined => {
+  if (!data.done) {
+    return undefined;
+  }
+  // prompt_eval_count is missing if the prompt was cached
+  const promptTokens = data.prompt_eval_count ?? 0;
+  const completionTokens = data.eval_count ?? 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+  };
+};
 
 const messageAccessor = (data: any): ChatResponseChunk => {
   return {
     delta: data.message.content,
+    usage: getUsage(data),
   };
 };
 const completionAccessor = (data: any): CompletionResponse => {
-  return { text: data.response };
+  return { text: data.response, usage: getUsage(data) };
 };
 
 // https://github.com/jmorganca/ollama
@@ -60,6 +80,8 @@ export class Ollama extends BaseEmbedding implements LLM {
       maxTokens: undefined,
       contextWindow: this.contextWindow,
       tokenizer: undefined,
+      // depends on the model, set it with `modelMetadata`
+      isFunctionCallingModel: false,
       ...this.modelMetadata,
     };
   }
@@ -71,45 +93,81 @@ export class Ollama extends BaseEmbedding implements LLM {
   async chat(
     params: LLMChatParamsNonStreaming | LLMChatParamsStreaming,
   ): Promise<ChatResponse | AsyncIterable<ChatResponseChunk>> {
-    const { messages, parentEvent, stream } = params;
-    const payload = {
-      model: this.model,
-      messages: messages.map((message) => ({
-        role: message.role,
-        content: message.content,
-      })),
-      stream: !!stream,
-      options: {
-        temperature: this.temperature,
-        num_ctx: this.contextWindow,
-        top_p: this.topP,
-        ...this.additionalChatOptions,
+    return traceEvent(
+      this.callbackManager,
+      {
+        type: "llmPredict",
+        parentEvent: params.parentEvent,
+        input: { model: this.metadata.model, messages: params.messages },
       },
-    };
-    const response = await fetch(`${this.baseURL}/api/chat`, {
-      body: JSON.stringify(payload),
-      method: "POST",
-      signal: AbortSignal.timeout(this.requestTimeout),
-      headers: {
-        "Content-Type": "application/json",
+      async () => {
+        const { messages, parentEvent, stream } = params;
+        const { tools, toolChoice } = getToolParams(params);
+        // Ollama always lets the model decide whether to call a tool
+        const toolDefinitions = toolChoice !== "none" ? tools : undefined;
+        const payload = {
+          model: this.model,
+          messages: messages.map(({ role, content, additionalKwargs }) => ({
+            role,
+            content,
+            ...(additionalKwargs?.toolCalls && {
+              tool_calls: additionalKwargs.toolCalls.map(
+                ({ function: { name, arguments: args } }: ToolCall) => ({
+                  function: { name, arguments: JSON.parse(args) },
+                }),
+              ),
+            }),
+          })),
+          ...(toolDefinitions?.length && {
+            tools: toolDefinitions.map(({ name, description, parameters }) => ({
+              type: "function",
+              function: { name, description, parameters },
+            })),
+          }),
+          stream: !!stream,
+          options: {
+            temperature: this.temperature,
+            num_ctx: this.contextWindow,
+            top_p: this.topP,
+            ...this.additionalChatOptions,
+          },
+        };
+        const response = await fetch(`${this.baseURL}/api/chat`, {
+          body: JSON.stringify(payload),
+          method: "POST",
+          signal: AbortSignal.timeout(this.requestTimeout),
+          headers: {
+            "Content-Type": "application/json",
+          },
+        });
+        if (!stream) {
+          const raw = await response.json();
+          const { message } = raw;
+          // Ollama doesn't return ids for tool calls
+          const toolCalls: ToolCall[] | undefined = message.tool_calls?.map(
+            ({ function: { name, arguments: args } }: any) => ({
+              id: randomUUID(),
+              type: "function",
+              function: { name, arguments: JSON.stringify(args) },
+            }),
+          );
+          return {
+            message: {
+              role: "assistant",
+              content: message.content,
+              ...(toolCalls?.length && { additionalKwargs: { toolCalls } }),
+            },
+            raw,
+            usage: getUsage(raw),
+          };
+        } else {
+          const stream = response.body;
+          ok(stream, "stream is null");
+          ok(stream instanceof ReadableStream, "stream is not readable");
+          return this.streamChat(stream, messageAccessor, parentEvent);
+        }
       },
-    });
-    if (!stream) {
-      const raw = await response.json();
-      const { message } = raw;
-      return {
-        message: {
-          role: "assistant",
-          content: message.content,
-        },
-        raw,
-      };
-    } else {
-      const stream = response.body;
-      ok(stream, "stream is null");
-      ok(stream instanceof ReadableStream, "stream is not readable");
-      return this.streamChat(stream, messageAccessor, parentEvent);
-    }
+    );
   }
 
   private async *streamChat<T>(
@@ -149,38 +207,49 @@ export class Ollama extends BaseEmbedding implements LLM {
   async complete(
     params: LLMCompletionParamsStreaming | LLMCompletionParamsNonStreaming,
   ): Promise<CompletionResponse | AsyncIterable<CompletionResponse>> {
-    const { prompt, parentEvent, stream } = params;
-    const payload = {
-      model: this.model,
-      prompt: prompt,
-      stream: !!stream,
-      options: {
-        temperature: this.temperature,
-        num_ctx: this.contextWindow,
-        top_p: this.topP,
-        ...this.additionalChatOptions,
+    return traceEvent(
+      this.callbackManager,
+      {
+        type: "llmPredict",
+        parentEvent: params.parentEvent,
+        input: { model: this.metadata.model, prompt: params.prompt },
       },
-    };
-    const response = await fetch(`${this.baseURL}/api/generate`, {
-      body: JSON.stringify(payload),
-      method: "POST",
-      signal: AbortSignal.timeout(this.requestTimeout),
-      headers: {
-        "Content-Type": "application/json",
+      async () => {
+        const { prompt, parentEvent, stream } = params;
+        const payload = {
+          model: this.model,
+          prompt: prompt,
+          stream: !!stream,
+          options: {
+            temperature: this.temperature,
+            num_ctx: this.contextWindow,
+            top_p: this.topP,
+            ...this.additionalChatOptions,
+          },
+        };
+        const response = await fetch(`${this.baseURL}/api/generate`, {
+          body: JSON.stringify(payload),
+          method: "POST",
+          signal: AbortSignal.timeout(this.requestTimeout),
+          headers: {
+            "Content-Type": "application/json",
+          },
+        });
+        if (!stream) {
+          const raw = await response.json();
+          return {
+            text: raw.response,
+            raw,
+            usage: getUsage(raw),
+          };
+        } else {
+          const stream = response.body;
+          ok(stream, "stream is null");
+          ok(stream instanceof ReadableStream, "stream is not readable");
+          return this.streamChat(stream, completionAccessor, parentEvent);
+        }
       },
-    });
-    if (!stream) {
-      const raw = await response.json();
-      return {
-        text: raw.response,
-        raw,
-      };
-    } else {
-      const stream = response.body;
-      ok(stream, "stream is null");
-      ok(stream instanceof ReadableStream, "stream is not readable");
-      return this.streamChat(stream, completionAccessor, parentEvent);
-    }
+    );
   }
 
   tokens(messages: ChatMessage[]): number {
@@ -1,5 +1,6 @@
 import type { Tokenizers } from "../GlobalsHelper.js";
 import type { Event } from "../callbacks/CallbackManager.js";
+import type { ToolMetadata } from "../types.js";
 
 /**
  * Unified language model interface
@@ -49,19 +50,74 @@ export interface ChatMessage {
   additionalKwargs?: Record<string, any>;
 }
 
+/**
+ * A call of a tool by the LLM, returned in the `toolCalls` of the `additionalKwargs` of its message.
+ * The result of the call is sent back to the LLM in a message with the "tool" role
+ * and the id of the call as `toolCallId` in its `additionalKwargs`.
+ */
+export interface ToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    // JSON encoded arguments
+    arguments: string;
+  };
+}
+
+/**
+ * "auto" lets the LLM decide whether to call a tool, "none" prevents tool calls
+ * and `{ name }` forces the LLM to call the given tool.
+ */
+export type ToolChoice = "auto" | "none" | { name: string };
+
+/**
+ * A tool in the format of the OpenAI API, also accepted by `chat` next to `ToolMetadata`.
+ */
+export interface OpenAITool {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, any>;
+  };
+}
+
+/**
+ * A tool choice in the format of the OpenAI API, also accepted by `chat` next to `ToolChoice`.
+ */
+export type OpenAIToolChoice =
+  | "auto"
+  | "none"
+  | { type: "function"; function: { name: string } };
+
+/**
+ * Number of tokens used by a LLM call, as reported by the provider
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
 export interface ChatResponse {
   message: ChatMessage;
   raw?: Record<string, any>;
   additionalKwargs?: Record<string, any>;
+  usage?: TokenUsage;
 }
 
 export interface ChatResponseChunk {
   delta: string;
+  // only set on the last chunk of a stream
+  usage?: TokenUsage;
 }
 
 export interface CompletionResponse {
   text: string;
   raw?: Record<string, any>;
+  // for streams, only set on the last response
+  usage?: TokenUsage;
 }
 
 export interface LLMMetadata {
@@ -71,14 +127,18 @@ export interface LLMMetadata {
   maxTokens?: number;
   contextWindow: number;
   tokenizer: Tokenizers | undefined;
+  // whether the model supports the `tools` parameter of `chat`
+  isFunctionCallingModel?: boolean;
 }
 
 export interface LLMChatParamsBase {
   messages: ChatMessage[];
   parentEvent?: Event;
   extraParams?: Record<string, any>;
-  tools?: any;
-  toolChoice?: any;
+  // tool calls are only returned by non-streaming chats,
+  // streaming chats only accept tools with the "none" tool choice
+  tools?: (ToolMetadata | OpenAITool)[];
+  toolChoice?: ToolChoice | OpenAIToolChoice;
   additionalKwargs?: Record<string, any>;
 }
 
@@ -1,4 +1,11 @@
-import type { MessageContent } from "./types.js";
+import type { ToolMetadata, ToolParameters } from "../types.js";
+import type {
+  LLMChatParamsBase,
+  MessageContent,
+  OpenAITool,
+  TokenUsage,
+  ToolChoice,
+} from "./types.js";
 
 export async function* streamConverter<S, D>(
   stream: AsyncIterable<S>,
@@ -42,3 +49,63 @@ export function extractText(message: MessageContent): string {
   }
   return message;
 }
+
+/**
+ * Converts the token usage returned by OpenAI compatible APIs.
+ */
+export function toTokenUsage(usage?: {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}): TokenUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  const promptTokens = usage.prompt_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage.total_tokens ?? promptTokens + completionTokens,
+  };
+}
+
+function toToolMetadata(tool: ToolMetadata | OpenAITool): ToolMetadata {
+  if (!("function" in tool)) {
+    return tool;
+  }
+  const { name, description, parameters } = tool.function;
+  return {
+    name,
+    description: description ?? "",
+    parameters: parameters as ToolParameters | undefined,
+  };
+}
+
+/**
+ * The tools and the tool choice of a chat in the provider-neutral format,
+ * they can also be passed in the format of the OpenAI API.
+ * Streamed responses don't return tool calls, so streaming chats can't let the LLM call tools.
+ */
+export function getToolParams({
+  tools,
+  toolChoice,
+  stream,
+}: LLMChatParamsBase & { stream?: boolean | null }): {
+  tools?: ToolMetadata[];
+  toolChoice?: ToolChoice;
+} {
+  const neutralToolChoice =
+    typeof toolChoice === "object" && "function" in toolChoice
+      ? { name: toolChoice.function.name }
+      : toolChoice;
+  if (stream && tools?.length && neutralToolChoice !== "none") {
+    throw new Error(
+      'Streaming chats don\'t return tool calls, use a non-streaming chat or set toolChoice to "none"',
+    );
+  }
+  return {
+    tools: tools?.map(toToolMetadata),
+    toolChoice: neutralToolChoice,
+  };
+}
@@ -0,0 +1,426 @@
+import type { BaseNode, TextNode } from "../Node.js";
+import { ImageDocument, MetadataMode } from "../Node.js";
+import type { CallbackManager } from "../callbacks/CallbackManager.js";
+import { CODE_EXT_TO_LANGUAGE } from "../readers/CodeReader.js";
+import type { NodeParser } from "./types.js";
+import { getNodesFromDocument, traceNodeParsing } from "./utils.js";
+
+export const DEFAULT_MAX_CHARS = 1500;
+
+// the languages whose blocks are delimited by indentation instead of braces
+const INDENTATION_LANGUAGES = ["python", "ruby"];
+
+type Syntax = {
+  braces: boolean;
+  lineComment: string[];
+  blockComment: boolean;
+  multilineQuotes: string[];
+};
+
+function getSyntax(language: string): Syntax {
+  return {
+    braces: !INDENTATION_LANGUAGES.includes(language),
+    // `//` is the floor division of Python
+    lineComment: INDENTATION_LANGUAGES.includes(language)
+      ? ["#"]
+      : language === "php"
+        ? ["#", "//"]
+        : ["//"],
+    blockComment: language !== "python" && language !== "ruby",
+    multilineQuotes:
+      language === "python"
+        ? ['"""', "'''"]
+        : ["typescript", "javascript"].includes(language)
+          ? ["`"]
+          : [],
+  };
+}
+
+/**
+ * The nesting level of each line: the depth of the brackets at its start, or
+ * its indentation for indentation based languages. Lines continuing the
+ * previous line (blank lines, lines in a string or a comment...) are null.
+ */
+function getLineLevels(lines: string[], syntax: Syntax): (number | null)[] {
+  let depth = 0;
+  let quote: string | undefined;
+  let inBlockComment = false;
+  return lines.map((line) => {
+    let level: number | null = depth;
+    if (line.trim() === "" || quote || inBlockComment) {
+      level = null;
+    } else if (!syntax.braces) {
+      const indentation = line.match(/^\s*/)![0].replace(/\t/g, "    ");
+      level = depth > 0 ? null : indentation.length;
+    }
+
+    for (let i = 0; i < line.length; i++) {
+      if (inBlockComment) {
+        if (line.startsWith("*/", i)) {
+          inBlockComment = false;
+          i++;
+        }
+      } else if (quote) {
+        if (line[i] === "\\") {
+          i++;
+        } else if (line.startsWith(quote, i)) {
+          i += quote.length - 1;
+          quote = undefined;
+        }
+      } else if (
+        syntax.lineComment.some((token) => line.startsWith(token, i))
+      ) {
+        break;
+      } else if (syntax.blockComment && line.startsWith("/*", i)) {
+        inBlockComment = true;
+        i++;
+      } else {
+        const openingQuote = [...syntax.multilineQuotes, '"', "'"].find(
+          (token) => line.startsWith(token, i),
+        );
+        if (openingQuote) {
+          quote = openingQuote;
+          i += openingQuote.length - 1;
+        } else if ("([{".includes(line[i])) {
+          depth++;
+        } else if (")]}".includes(line[i])) {
+          depth = Math.max(0, depth - 1);
+        }
+      }
+    }
+    // only some strings can span several lines
+    if (quote && !syntax.multilineQuotes.includes(quote)) {
+      quote = undefined;
+    }
+    return level;
+  });
+}
+
+type Block = { start: number; end: number; name?: string };
+// lines of a chunk and the declarations in it
+type LineRange = { start: number; end: number; symbols: string[] };
+
+export type CodeChunk = {
+  text: string;
+  startCharIdx: number;
+  endCharIdx: number;
+  // the names of the declarations in the chunk, e.g. `Foo.bar`
+  symbol?: string;
+};
+
+const MODIFIERS =
+  /^(?:(?:export|default|declare|abstract|public|private|protected|internal|static|async|readonly|override|final|open|sealed|inline|unsafe|pub(?:\([\w\s]*\))?)\s+)*/;
+// class Foo, function foo, def foo, fn foo, func (r *T) foo...
+const DECLARATION_PATTERN =
+  /^(?:class|interface|enum|type|struct|trait|impl|object|namespace|module|function\*?|def|fn|func|fun)\s+(?:\([^)]*\)\s*)?\*?\s*([A-Za-z_$][\w$]*)/;
+// const foo = (...) => or const foo = function
+const FUNCTION_PATTERN =
+  /^(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]*)?=\s*(?:async\s*)?(?:function\b|\(|[A-Za-z_$][\w$]*\s*=>)/;
+// methods: foo(...) {, get foo() {, String foo(...) {
+const METHOD_PATTERN =
+  /^(?:get\s+|set\s+)?(?:[\w$<>[\],.?]+\s+)?\*?([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\(/;
+const KEYWORDS = [
+  "if",
+  "for",
+  "while",
+  "switch",
+  "catch",
+  "return",
+  "await",
+  "new",
+  "super",
+  "this",
+  "with",
+  "elif",
+  "else",
+  "throw",
+  "typeof",
+  "yield",
+];
+
+/**
+ * The name of the class, function or method defined by a block, if any.
+ */
+function getSymbolName(lines: string[], block: Block): string | undefined {
+  const line = lines
+    .slice(block.start, block.end)
+    .map((line) => line.trim())
+    .find((line) => line && !isTrivia(line));
+  if (!line) {
+    return undefined;
+  }
+  const declaration = line.replace(MODIFIERS, "");
+  if (KEYWORDS.includes(declaration.split(/\W/)[0])) {
+    return undefined;
+  }
+  const name =
+    declaration.match(DECLARATION_PATTERN)?.[1] ??
+    declaration.match(FUNCTION_PATTERN)?.[1] ??
+    // calls look like methods, e.g. `main();`
+    (/[;)]$/.test(declaration)
+      ? undefined
+      : declaration.match(METHOD_PATTERN)?.[1]);
+  return name && !KEYWORDS.includes(name) ? name : undefined;
+}
+
+// comments and decorators belong to the declaration following them
+function isTrivia(line: string): boolean {
+  return /^(\/\/|\/\*|\*|#|@)/.test(line);
+}
+
+/**
+ * CodeSplitter splits source files along the boundaries of their classes,
+ * functions and methods: small declarations are grouped in a chunk and
+ * the declarations larger than `maxChars` are split into their members.
+ *
+ * The language is taken from the `language` metadata set by the CodeReader,
+ * or from the extension of the `file_path` metadata. The nodes get the name
+ * of the declarations they contain as `symbol` metadata.
+ */
+export class CodeSplitter implements NodeParser {
+  /**
+   * The language of the documents, by default read from their metadata.
+   */
+  language?: string;
+  /**
+   * The maximum number of characters of a chunk.
+   */
+  maxChars: number;
+  /**
+   * Whether to include metadata in the nodes.
+   */
+  includeMetadata: boolean;
+  /**
+   * Whether to include previous and next relationships in the nodes.
+   */
+  includePrevNextRel: boolean;
+  callbackManager?: CallbackManager;
+
+  constructor(init?: {
+    language?: string;
+    maxChars?: number;
+    includeMetadata?: boolean;
+    includePrevNextRel?: boolean;
+    callbackManager?: CallbackManager;
+  }) {
+    this.language = init?.language;
+    this.maxChars = init?.maxChars ?? DEFAULT_MAX_CHARS;
+    this.includeMetadata = init?.includeMetadata ?? true;
+    this.includePrevNextRel = init?.includePrevNextRel ?? true;
+    this.callbackManager = init?.callbackManager;
+  }
+
+  static fromDefaults(init?: {
+    language?: string;
+    maxChars?: number;
+  }): CodeSplitter {
+    return new CodeSplitter(init);
+  }
+
+  async transform(nodes: BaseNode[], options?: any): Promise<BaseNode[]> {
+    return traceNodeParsing(this, nodes, options);
+  }
+
+  /**
+   * Generate Node objects from documents
+   * @param documents
+   */
+  getNodesFromDocuments(documents: BaseNode[]) {
+    return documents
+      .map((document) => this.getNodesFromDocument(document))
+      .flat();
+  }
+
+  private getNodesFromDocument(document: BaseNode): TextNode[] {
+    if (document instanceof ImageDocument) {
+      return [document];
+    }
+    const language = this.getLanguage(document);
+    const chunks = this.splitText(
+      document.getContent(MetadataMode.NONE),
+      language,
+    );
+    const nodes = getNodesFromDocument(
+      document,
+      () => chunks.map(({ text }) => text),
+      this.includeMetadata,
+      this.includePrevNextRel,
+    );
+    nodes.forEach((node, index) => {
+      const { startCharIdx, endCharIdx, symbol } = chunks[index];
+      node.startCharIdx = startCharIdx;
+      node.endCharIdx = endCharIdx;
+      if (this.includeMetadata) {
+        node.metadata.language = language;
+        if (symbol) {
+          node.metadata.symbol = symbol;
+        }
+      }
+    });
+    return nodes;
+  }
+
+  private getLanguage(document: BaseNode): string {
+    if (this.language) {
+      return this.language;
+    }
+    if (document.metadata.language) {
+      return document.metadata.language;
+    }
+    const extension = String(document.metadata.file_path ?? document.id_)
+      .split(".")
+      .pop()!
+      .toLowerCase();
+    return CODE_EXT_TO_LANGUAGE[extension] ?? "text";
+  }
+
+  /**
+   * Splits source code into chunks of at most `maxChars` characters.
+   * @param text - The source code.
+   * @param language - The language of the code, e.g. "typescript" or "python".
+   */
+  splitText(
+    text: string,
+    language: string = this.language ?? "text",
+  ): CodeChunk[] {
+    const lines = text
+      .split("\n")
+      .map((line, index, all) => (index < all.length - 1 ? `${line}\n` : line));
+    const offsets = [0];
+    lines.forEach((line) =>
+      offsets.push(offsets[offsets.length - 1] + line.length),
+    );
+    const levels = getLineLevels(lines, getSyntax(language));
+
+    const ranges: LineRange[] = [];
+    const size = (start: number, end: number) => offsets[end] - offsets[start];
+
+    const splitBlocks = (blocks: Block[], parentName?: string) => {
+      let current: LineRange | undefined;
+      const flush = () => {
+        if (current) {
+          if (current.symbols.length === 0 && parentName) {
+            current.symbols.push(parentName);
+          }
+          ranges.push(current);
+          current = undefined;
+        }
+      };
+      for (const block of blocks) {
+        const name =
+          block.name && parentName ? `${parentName}.${block.name}` : block.name;
+        if (size(block.start, block.end) > this.maxChars) {
+          flush();
+          // keep the declaration line with the first member
+          const members = this.getBlocks(
+            lines,
+            levels,
+            block.start + 1,
+            block.end,
+          );
+          // a single member with the declaration line would be the block again
+          if (members.length > 0 && members[0].end < block.end) {
+            members[0].start = block.start;
+            const firstRange = ranges.length;
+            splitBlocks(members, name ?? parentName);
+            // the first chunk contains the declaration of the block
+            if (name && !ranges[firstRange].symbols.includes(name)) {
+              ranges[firstRange].symbols.unshift(name);
+            }
+          } else {
+            this.splitLines(block, offsets, name ?? parentName, ranges);
+          }
+        } else if (current && size(current.start, block.end) <= this.maxChars) {
+          current.end = block.end;
+          if (name) {
+            current.symbols.push(name);
+          }
+        } else {
+          flush();
+          current = {
+            start: block.start,
+            end: block.end,
+            symbols: name ? [name] : [],
+          };
+        }
+      }
+      flush();
+    };
+    splitBlocks(this.getBlocks(lines, levels, 0, lines.length));
+
+    return ranges
+      .map(({ start, end, symbols }) => ({
+        text: text.slice(offsets[start], offsets[end]),
+        startCharIdx: offsets[start],
+        endCharIdx: offsets[end],
+        symbol: symbols.length > 0 ? symbols.join(", ") : undefined,
+      }))
+      .filter(({ text }) => text.trim() !== "");
+  }
+
+  /**
+   * Splits the lines between start and end into the blocks of their lowest level.
+   */
+  private getBlocks(
+    lines: string[],
+    levels: (number | null)[],
+    start: number,
+    end: number,
+  ): Block[] {
+    const baseLevel = Math.min(
+      ...levels
+        .slice(start, end)
+        .filter((level): level is number => level !== null),
+    );
+    if (!isFinite(baseLevel)) {
+      return [];
+    }
+
+    const blocks: Block[] = [];
+    let blockStart = start;
+    for (let i = start + 1; i <= end; i++) {
+      if (i === end || levels[i] === baseLevel) {
+        const block: Block = { start: blockStart, end: i };
+        const previous = blocks[blocks.length - 1];
+        // comments and decorators are merged with the declaration following them
+        if (
+          previous &&
+          previous.name === undefined &&
+          this.isTriviaBlock(lines, previous)
+        ) {
+          previous.end = i;
+          previous.name = getSymbolName(lines, previous);
+        } else {
+          block.name = getSymbolName(lines, block);
+          blocks.push(block);
+        }
+        blockStart = i;
+      }
+    }
+    return blocks;
+  }
+
+  private isTriviaBlock(lines: string[], block: Block): boolean {
+    return lines
+      .slice(block.start, block.end)
+      .every((line) => line.trim() === "" || isTrivia(line.trim()));
+  }
+
+  /**
+   * Splits a block without members by lines, lines longer than `maxChars` are not split.
+   */
+  private splitLines(
+    block: Block,
+    offsets: number[],
+    symbol: string | undefined,
+    ranges: LineRange[],
+  ) {
+    let start = block.start;
+    for (let i = block.start + 1; i <= block.end; i++) {
+      if (i === block.end || offsets[i + 1] - offsets[start] > this.maxChars) {
+        ranges.push({ start, end: i, symbols: symbol ? [symbol] : [] });
+        start = i;
+      }
+    }
+  }
+}
@@ -0,0 +1,157 @@
+import _ from "lodash";
+import type { BaseNode } from "../Node.js";
+import { ImageNode, NodeRelationship, TextNode } from "../Node.js";
+import { SentenceSplitter } from "../TextSplitter.js";
+import type { CallbackManager } from "../callbacks/CallbackManager.js";
+import { DEFAULT_CHUNK_OVERLAP } from "../constants.js";
+import type { NodeParser } from "./types.js";
+import { getNodesFromDocument, traceNodeParsing } from "./utils.js";
+
+export const DEFAULT_CHUNK_SIZES = [2048, 512, 128];
+
+/**
+ * HierarchicalNodeParser splits documents into chunks of several sizes: each
+ * chunk is split again into smaller chunks, linked to it by PARENT and CHILD
+ * relationships.
+ *
+ * The nodes of all levels are returned, use `getLeafNodes` to get the
+ * smallest chunks, e.g. to index them for an AutoMergingRetriever.
+ */
+export class HierarchicalNodeParser implements NodeParser {
+  /**
+   * The text splitters of the levels, from the largest to the smallest chunks.
+   */
+  textSplitters: SentenceSplitter[];
+  /**
+   * Whether to include metadata in the nodes.
+   */
+  includeMetadata: boolean;
+  /**
+   * Whether to include previous and next relationships between the nodes of the same parent.
+   */
+  includePrevNextRel: boolean;
+  callbackManager?: CallbackManager;
+
+  constructor(init?: {
+    chunkSizes?: number[];
+    chunkOverlap?: number;
+    textSplitters?: SentenceSplitter[];
+    includeMetadata?: boolean;
+    includePrevNextRel?: boolean;
+    callbackManager?: CallbackManager;
+  }) {
+    this.textSplitters =
+      init?.textSplitters ??
+      (init?.chunkSizes ?? DEFAULT_CHUNK_SIZES).map(
+        (chunkSize) =>
+          new SentenceSplitter({
+            chunkSize,
+            chunkOverlap: init?.chunkOverlap ?? DEFAULT_CHUNK_OVERLAP,
+            splitLongSentences: true,
+          }),
+      );
+    if (this.textSplitters.length === 0) {
+      throw new Error("At least one chunk size or text splitter is required");
+    }
+    this.includeMetadata = init?.includeMetadata ?? true;
+    this.includePrevNextRel = init?.includePrevNextRel ?? true;
+    this.callbackManager = init?.callbackManager;
+  }
+
+  static fromDefaults(init?: {
+    chunkSizes?: number[];
+    chunkOverlap?: number;
+    includeMetadata?: boolean;
+    includePrevNextRel?: boolean;
+  }): HierarchicalNodeParser {
+    return new HierarchicalNodeParser(init);
+  }
+
+  async transform(nodes: BaseNode[], options?: any): Promise<BaseNode[]> {
+    return traceNodeParsing(this, nodes, options);
+  }
+
+  /**
+   * Generate the nodes of all levels from documents
+   * @param documents
+   */
+  getNodesFromDocuments(documents: BaseNode[]) {
+    return documents
+      .map((document) => this.getNodesFromDocument(document))
+      .flat();
+  }
+
+  private getNodesFromDocument(document: BaseNode): TextNode[] {
+    const [rootSplitter, ...splitters] = this.textSplitters;
+    let levelNodes = getNodesFromDocument(
+      document,
+      rootSplitter.splitText.bind(rootSplitter),
+      this.includeMetadata,
+      this.includePrevNextRel,
+    );
+    const nodes = [...levelNodes];
+    for (const splitter of splitters) {
+      levelNodes = levelNodes
+        .map((parent) => this.splitNode(parent, splitter))
+        .flat();
+      nodes.push(...levelNodes);
+    }
+    return nodes;
+  }
+
+  private splitNode(parent: TextNode, splitter: SentenceSplitter): TextNode[] {
+    if (parent instanceof ImageNode) {
+      return [];
+    }
+    const children = splitter.splitText(parent.getText()).map(
+      (text) =>
+        new TextNode({
+          text,
+          metadata: this.includeMetadata ? _.cloneDeep(parent.metadata) : {},
+          excludedEmbedMetadataKeys: _.cloneDeep(
+            parent.excludedEmbedMetadataKeys,
+          ),
+          excludedLlmMetadataKeys: _.cloneDeep(parent.excludedLlmMetadataKeys),
+        }),
+    );
+
+    children.forEach((child, index) => {
+      // the children have the same source document as their parent
+      if (parent.sourceNode) {
+        child.relationships[NodeRelationship.SOURCE] = parent.sourceNode;
+      }
+      child.relationships[NodeRelationship.PARENT] = parent.asRelatedNodeInfo();
+      if (this.includePrevNextRel && index > 0) {
+        child.relationships[NodeRelationship.PREVIOUS] =
+          children[index - 1].asRelatedNodeInfo();
+      }
+      if (this.includePrevNextRel && index < children.length - 1) {
+        child.relationships[NodeRelationship.NEXT] =
+          children[index + 1].asRelatedNodeInfo();
+      }
+    });
+    parent.relationships[NodeRelationship.CHILD] = children.map((child) =>
+      child.asRelatedNodeInfo(),
+    );
+
+    return children;
+  }
+}
+
+/**
+ * Returns the nodes without children, i.e. the smallest chunks.
+ */
+export function getLeafNodes<T extends BaseNode>(nodes: T[]): T[] {
+  return nodes.filter(
+    (node) => node.relationships[NodeRelationship.CHILD] === undefined,
+  );
+}
+
+/**
+ * Returns the nodes without parent, i.e. the largest chunks.
+ */
+export function getRootNodes<T extends BaseNode>(nodes: T[]): T[] {
+  return nodes.filter(
+    (node) => node.relationships[NodeRelationship.PARENT] === undefined,
+  );
+}
@@ -1,21 +1,26 @@
 import type { BaseNode, Metadata } from "../Node.js";
 import { MetadataMode, TextNode } from "../Node.js";
+import type { CallbackManager } from "../callbacks/CallbackManager.js";
 import type { NodeParser } from "./types.js";
+import { traceNodeParsing } from "./utils.js";
 
 export class MarkdownNodeParser implements NodeParser {
   includeMetadata: boolean;
   includePrevNextRel: boolean;
+  callbackManager?: CallbackManager;
 
   constructor(init?: {
     includeMetadata?: boolean;
     includePrevNextRel?: boolean;
+    callbackManager?: CallbackManager;
   }) {
     this.includeMetadata = init?.includeMetadata ?? true;
     this.includePrevNextRel = init?.includePrevNextRel ?? true;
+    this.callbackManager = init?.callbackManager;
   }
 
-  async transform(nodes: BaseNode[], _options?: any): Promise<BaseNode[]> {
-    return this.getNodesFromDocuments(nodes);
+  async transform(nodes: BaseNode[], options?: any): Promise<BaseNode[]> {
+    return traceNodeParsing(this, nodes, options);
   }
 
   static fromDefaults(init?: {
@@ -0,0 +1,221 @@
+import type { BaseNode, TextNode } from "../Node.js";
+import { ImageDocument, MetadataMode } from "../Node.js";
+import type { ServiceContext } from "../ServiceContext.js";
+import { serviceContextFromDefaults } from "../ServiceContext.js";
+import { defaultSentenceTokenizer } from "../TextSplitter.js";
+import type { CallbackManager } from "../callbacks/CallbackManager.js";
+import { traceEvent } from "../callbacks/CallbackManager.js";
+import type { BaseEmbedding } from "../embeddings/types.js";
+import type { TransformComponent } from "../ingestion/types.js";
+import { getNodesFromDocument } from "./utils.js";
+
+export const DEFAULT_BUFFER_SIZE = 1;
+export const DEFAULT_BREAKPOINT_PERCENTILE_THRESHOLD = 95;
+
+type Chunk = { text: string; startCharIdx: number; endCharIdx: number };
+
+/**
+ * The value below which `p` percent of the values are, interpolated linearly.
+ */
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * SemanticSplitterNodeParser splits documents where the topic changes instead
+ * of after a number of tokens: the sentences are embedded and a new chunk is
+ * started where the distance between the embeddings of adjacent sentences is
+ * above the `breakpointPercentileThreshold` percentile of all distances.
+ *
+ * As it calls the embedding model, it isn't a synchronous `NodeParser`: use it as
+ * a transformation of an `IngestionPipeline`, or call `splitDocuments`.
+ */
+export class SemanticSplitterNodeParser implements TransformComponent {
+  /**
+   * The embedding model used to compare the sentences.
+   */
+  embedModel: BaseEmbedding;
+  /**
+   * The number of sentences on each side of a sentence embedded with it,
+   * to reduce the noise of short sentences.
+   */
+  bufferSize: number;
+  /**
+   * The percentile of the distances between adjacent sentences above which a new chunk is started.
+   */
+  breakpointPercentileThreshold: number;
+  /**
+   * Splits a text into sentences.
+   */
+  sentenceSplitter: (text: string) => string[];
+  /**
+   * Whether to include metadata in the nodes.
+   */
+  includeMetadata: boolean;
+  /**
+   * Whether to include previous and next relationships in the nodes.
+   */
+  includePrevNextRel: boolean;
+  /**
+   * If set, `transform` calls are traced as "nodeParsing" events.
+   */
+  callbackManager?: CallbackManager;
+
+  constructor(init?: {
+    embedModel?: BaseEmbedding;
+    // the embedding model of the service context is used by default
+    serviceContext?: ServiceContext;
+    bufferSize?: number;
+    breakpointPercentileThreshold?: number;
+    sentenceSplitter?: (text: string) => string[];
+    includeMetadata?: boolean;
+    includePrevNextRel?: boolean;
+    callbackManager?: CallbackManager;
+  }) {
+    this.embedModel =
+      init?.embedModel ??
+      (init?.serviceContext ?? serviceContextFromDefaults()).embedModel;
+    this.bufferSize = init?.bufferSize ?? DEFAULT_BUFFER_SIZE;
+    this.breakpointPercentileThreshold =
+      init?.breakpointPercentileThreshold ??
+      DEFAULT_BREAKPOINT_PERCENTILE_THRESHOLD;
+    this.sentenceSplitter = init?.sentenceSplitter ?? defaultSentenceTokenizer;
+    this.includeMetadata = init?.includeMetadata ?? true;
+    this.includePrevNextRel = init?.includePrevNextRel ?? true;
+    this.callbackManager = init?.callbackManager;
+  }
+
+  async transform(nodes: BaseNode[], options?: any): Promise<BaseNode[]> {
+    return traceEvent(
+      this.callbackManager,
+      {
+        type: "nodeParsing",
+        parentEvent: options?.parentEvent,
+        input: nodes,
+      },
+      () => this.splitDocuments(nodes),
+    );
+  }
+
+  /**
+   * Generate Node objects from documents
+   * @param documents
+   */
+  async splitDocuments(documents: BaseNode[]): Promise<TextNode[]> {
+    const nodes: TextNode[] = [];
+    // one document after the other, to not exceed the rate limits of the embedding model
+    for (const document of documents) {
+      const chunks =
+        document instanceof ImageDocument
+          ? []
+          : await this.splitText(document.getContent(MetadataMode.NONE));
+      const documentNodes = getNodesFromDocument(
+        document,
+        () => chunks.map(({ text }) => text),
+        this.includeMetadata,
+        this.includePrevNextRel,
+      );
+      if (!(document instanceof ImageDocument)) {
+        documentNodes.forEach((node, index) => {
+          node.startCharIdx = chunks[index].startCharIdx;
+          node.endCharIdx = chunks[index].endCharIdx;
+        });
+      }
+      nodes.push(...documentNodes);
+    }
+    return nodes;
+  }
+
+  /**
+   * Splits a text into chunks of sentences about the same topic.
+   */
+  async splitText(text: string): Promise<Chunk[]> {
+    const sentences = this.getSentences(text);
+    if (sentences.length === 0) {
+      return [];
+    }
+
+    // split after the sentences that are far from the next one
+    const breakpoints = new Set<number>();
+    if (sentences.length > 1) {
+      const distances = await this.getDistances(
+        sentences.map(({ text }) => text),
+      );
+      const threshold = percentile(
+        distances,
+        this.breakpointPercentileThreshold,
+      );
+      distances.forEach((distance, index) => {
+        if (distance > threshold) {
+          breakpoints.add(index);
+        }
+      });
+    }
+
+    const chunks: Chunk[] = [];
+    let start = 0;
+    sentences.forEach((sentence, index) => {
+      if (breakpoints.has(index) || index === sentences.length - 1) {
+        const startCharIdx = sentences[start].startCharIdx;
+        const endCharIdx = sentence.endCharIdx;
+        chunks.push({
+          text: text.slice(startCharIdx, endCharIdx),
+          startCharIdx,
+          endCharIdx,
+        });
+        start = index + 1;
+      }
+    });
+    return chunks;
+  }
+
+  /**
+   * Splits a text into trimmed sentences with their position in the text.
+   */
+  private getSentences(text: string): Chunk[] {
+    const sentences: Chunk[] = [];
+    let position = 0;
+    for (const split of this.sentenceSplitter(text)) {
+      const sentence = split.trim();
+      if (!sentence) {
+        continue;
+      }
+      const startCharIdx = text.indexOf(sentence, position);
+      if (startCharIdx === -1) {
+        throw new Error(
+          "The sentence splitter must return sentences of the text",
+        );
+      }
+      position = startCharIdx + sentence.length;
+      sentences.push({ text: sentence, startCharIdx, endCharIdx: position });
+    }
+    return sentences;
+  }
+
+  /**
+   * The cosine distances between the embeddings of adjacent sentences,
+   * each sentence being embedded with the `bufferSize` sentences around it.
+   */
+  private async getDistances(sentences: string[]): Promise<number[]> {
+    const combinedSentences = sentences.map((_, index) =>
+      sentences
+        .slice(
+          Math.max(0, index - this.bufferSize),
+          index + this.bufferSize + 1,
+        )
+        .join(" "),
+    );
+    const embeddings =
+      await this.embedModel.getTextEmbeddingsBatch(combinedSentences);
+    return embeddings
+      .slice(0, -1)
+      .map(
+        (embedding, index) =>
+          1 - this.embedModel.similarity(embedding, embeddings[index + 1]),
+      );
+  }
+}
@@ -1,7 +1,8 @@
 import type { BaseNode } from "../Node.js";
 import { SentenceSplitter } from "../TextSplitter.js";
+import type { CallbackManager } from "../callbacks/CallbackManager.js";
 import type { NodeParser } from "./types.js";
-import { getNodesFromDocument } from "./utils.js";
+import { getNodesFromDocument, traceNodeParsing } from "./utils.js";
 
 export const DEFAULT_WINDOW_SIZE = 3;
 export const DEFAULT_WINDOW_METADATA_KEY = "window";
@@ -32,6 +33,7 @@ export class SentenceWindowNodeParser implements NodeParser {
    * Whether to include previous and next relationships in the nodes.
    */
   includePrevNextRel: boolean = true;
+  callbackManager?: CallbackManager;
 
   constructor(init?: Partial<SentenceWindowNodeParser>) {
     Object.assign(this, init);
@@ -44,8 +46,8 @@ export class SentenceWindowNodeParser implements NodeParser {
     return new SentenceWindowNodeParser(init);
   }
 
-  async transform(nodes: BaseNode[], _options?: any): Promise<BaseNode[]> {
-    return this.getNodesFromDocuments(nodes);
+  async transform(nodes: BaseNode[], options?: any): Promise<BaseNode[]> {
+    return traceNodeParsing(this, nodes, options);
   }
 
   getNodesFromDocuments(documents: BaseNode[]) {
@@ -1,8 +1,9 @@
 import type { BaseNode } from "../Node.js";
 import { SentenceSplitter } from "../TextSplitter.js";
+import type { CallbackManager } from "../callbacks/CallbackManager.js";
 import { DEFAULT_CHUNK_OVERLAP, DEFAULT_CHUNK_SIZE } from "../constants.js";
 import type { NodeParser } from "./types.js";
-import { getNodesFromDocument } from "./utils.js";
+import { getNodesFromDocument, traceNodeParsing } from "./utils.js";
 
 /**
  * SimpleNodeParser is the default NodeParser. It splits documents into TextNodes using a splitter, by default SentenceSplitter
@@ -20,6 +21,7 @@ export class SimpleNodeParser implements NodeParser {
    * Whether to include previous and next relationships in the nodes.
    */
   includePrevNextRel: boolean;
+  callbackManager?: CallbackManager;
 
   constructor(init?: {
     textSplitter?: SentenceSplitter;
@@ -28,6 +30,7 @@ export class SimpleNodeParser implements NodeParser {
     chunkSize?: number;
     chunkOverlap?: number;
     splitLongSentences?: boolean;
+    callbackManager?: CallbackManager;
   }) {
     this.textSplitter =
       init?.textSplitter ??
@@ -38,10 +41,11 @@ export class SimpleNodeParser implements NodeParser {
       });
     this.includeMetadata = init?.includeMetadata ?? true;
     this.includePrevNextRel = init?.includePrevNextRel ?? true;
+    this.callbackManager = init?.callbackManager;
   }
 
-  async transform(nodes: BaseNode[], _options?: any): Promise<BaseNode[]> {
-    return this.getNodesFromDocuments(nodes);
+  async transform(nodes: BaseNode[], options?: any): Promise<BaseNode[]> {
+    return traceNodeParsing(this, nodes, options);
   }
 
   static fromDefaults(init?: {
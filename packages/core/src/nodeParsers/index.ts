@@ -1,4 +1,7 @@
+export * from "./CodeSplitter.js";
+export * from "./HierarchicalNodeParser.js";
 export * from "./MarkdownNodeParser.js";
+export * from "./SemanticSplitterNodeParser.js";
 export * from "./SentenceWindowNodeParser.js";
 export * from "./SimpleNodeParser.js";
 export * from "./types.js";
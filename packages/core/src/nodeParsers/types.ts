@@ -1,10 +1,15 @@
 import type { BaseNode } from "../Node.js";
+import type { CallbackManager } from "../callbacks/CallbackManager.js";
 import type { TransformComponent } from "../ingestion/types.js";
 
 /**
  * A NodeParser generates Nodes from Documents
  */
 export interface NodeParser extends TransformComponent {
+  /**
+   * If set, `transform` calls are traced as "nodeParsing" events.
+   */
+  callbackManager?: CallbackManager;
   /**
    * Generates an array of nodes from an array of documents.
    * @param documents - The documents to generate nodes from.
@@ -6,6 +6,9 @@ import {
   NodeRelationship,
   TextNode,
 } from "../Node.js";
+import type { Event } from "../callbacks/CallbackManager.js";
+import { traceEvent } from "../callbacks/CallbackManager.js";
+import type { NodeParser } from "./types.js";
 
 type TextSplitter = (s: string) => string[];
 
@@ -77,3 +80,25 @@ export function getNodesFromDocument(
 
   return nodes;
 }
+
+/**
+ * Parses the documents with the node parser in a "nodeParsing" event.
+ * @param nodeParser - The node parser to use.
+ * @param documents - The documents to parse.
+ * @param options - The transform options, `parentEvent` is the parent of the event.
+ */
+export function traceNodeParsing(
+  nodeParser: NodeParser,
+  documents: BaseNode[],
+  options?: { parentEvent?: Event },
+): Promise<BaseNode[]> {
+  return traceEvent(
+    nodeParser.callbackManager,
+    {
+      type: "nodeParsing",
+      parentEvent: options?.parentEvent,
+      input: documents,
+    },
+    async () => nodeParser.getNodesFromDocuments(documents),
+  );
+}
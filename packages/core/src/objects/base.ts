@@ -1,8 +1,11 @@
+import { createSHA256 } from "@llamaindex/env";
 import type { BaseNode, Metadata } from "../Node.js";
 import { TextNode } from "../Node.js";
 import type { BaseRetriever } from "../Retriever.js";
 import type { VectorStoreIndex } from "../indices/index.js";
 import type { BaseTool } from "../types.js";
+import type { SerializedObject } from "./serializers.js";
+import { ObjectSerializerRegistry, ToolSerializer } from "./serializers.js";
 
 // Assuming that necessary interfaces and classes (like OT, TextNode, BaseNode, etc.) are defined elsewhere
 // Import statements (e.g., for TextNode, BaseNode) should be added based on your project's structure
@@ -41,9 +44,6 @@ export abstract class BaseObjectNodeMapping {
     this.validateObject(obj);
     return obj;
   }
-
-  // Abstract methods for persistence
-  abstract persist(persistDir: string, objNodeMappingFilename: string): void;
 }
 
 // You will need to implement specific subclasses of BaseObjectNodeMapping as per your project requirements.
@@ -118,10 +118,6 @@ export class SimpleToolNodeMapping extends BaseObjectNodeMapping {
     return this._tools[node.metadata.name];
   }
 
-  persist(persistDir: string, objNodeMappingFilename: string): void {
-    // Implement the persist method
-  }
-
   toNodes(objs: BaseTool[]): TextNode<Metadata>[] {
     return objs.map((obj) => this.toNode(obj));
   }
@@ -143,6 +139,79 @@ export class SimpleToolNodeMapping extends BaseObjectNodeMapping {
   }
 }
 
+const OBJECT_METADATA_KEY = "object";
+
+/**
+ * Stores the objects serialized in the metadata of their nodes, so that they
+ * can be restored from the nodes of a persisted index.
+ * Tools are restored by name from the ToolSerializer of the registry,
+ * plain JSON values are stored directly.
+ */
+export class SerializedObjectNodeMapping extends BaseObjectNodeMapping {
+  registry: ObjectSerializerRegistry;
+  private _tools: Record<string, BaseTool> = {};
+
+  constructor(
+    registry: ObjectSerializerRegistry = new ObjectSerializerRegistry(),
+  ) {
+    super();
+    this.registry = registry;
+  }
+
+  static fromObjects(
+    objs: any[],
+    registry?: ObjectSerializerRegistry,
+  ): SerializedObjectNodeMapping {
+    const mapping = new SerializedObjectNodeMapping(registry);
+    objs.forEach((obj) => mapping.addObj(obj));
+    return mapping;
+  }
+
+  fromObjects<OT>(objs: OT[]): SerializedObjectNodeMapping {
+    return SerializedObjectNodeMapping.fromObjects(objs, this.registry);
+  }
+
+  /**
+   * @returns the added tools by name, other objects are not included
+   */
+  objNodeMapping(): Record<string, BaseTool> {
+    return this._tools;
+  }
+
+  toNode(obj: any): TextNode {
+    const serialized = this.registry.serialize(obj);
+    // the same object always has the same node
+    const hash = createSHA256();
+    hash.update(JSON.stringify(serialized));
+    return new TextNode({
+      id_: hash.digest(),
+      text: this.registry.toText(obj),
+      metadata: { [OBJECT_METADATA_KEY]: serialized },
+      excludedEmbedMetadataKeys: [OBJECT_METADATA_KEY],
+      excludedLlmMetadataKeys: [OBJECT_METADATA_KEY],
+    });
+  }
+
+  _addObj(obj: any): void {
+    const serializer = this.registry.getSerializer("tool");
+    if (serializer instanceof ToolSerializer && serializer.canSerialize(obj)) {
+      this._tools[obj.metadata.name] = obj;
+    }
+  }
+
+  _fromNode(node: BaseNode): any {
+    const serialized: SerializedObject | undefined =
+      node.metadata?.[OBJECT_METADATA_KEY];
+    if (!serialized) {
+      throw new Error(`Node ${node.id_} has no serialized object`);
+    }
+    return this.registry.deserialize(serialized);
+  }
+}
+
+// only uses the type of the index class to avoid bundling issues
+type ObjectIndexClass = Pick<typeof VectorStoreIndex, "init">;
+
 export class ObjectIndex {
   private _index: VectorStoreIndex;
   private _objectNodeMapping: BaseObjectNodeMapping;
@@ -155,8 +224,7 @@ export class ObjectIndex {
   static async fromObjects(
     objects: any,
     objectMapping: BaseObjectNodeMapping,
-    // TODO: fix any (bundling issue)
-    indexCls: any,
+    indexCls: ObjectIndexClass,
     indexKwargs?: Record<string, any>,
   ): Promise<ObjectIndex> {
     if (objectMapping === null) {
@@ -170,12 +238,34 @@ export class ObjectIndex {
     return new ObjectIndex(index, objectMapping);
   }
 
-  insertObject(obj: any): void {
+  /**
+   * Loads an object index from its storage context (passed in `indexKwargs`)
+   * without embedding the objects again.
+   * The objects of the retrieved nodes are restored by the object mapping,
+   * e.g. a SerializedObjectNodeMapping with the tools registered in its registry.
+   */
+  static async fromStorage(
+    objectMapping: BaseObjectNodeMapping,
+    indexCls: ObjectIndexClass,
+    indexKwargs: Record<string, any>,
+  ): Promise<ObjectIndex> {
+    if (!indexKwargs.storageContext) {
+      throw new Error("A storageContext is required to load an ObjectIndex");
+    }
+    const index = await indexCls.init(indexKwargs);
+    return new ObjectIndex(index, objectMapping);
+  }
+
+  async insertObject(obj: any): Promise<void> {
     this._objectNodeMapping.addObj(obj);
     const node = this._objectNodeMapping.toNode(obj);
-    this._index.insertNodes([node]);
+    await this._index.insertNodes([node]);
   }
 
+  /**
+   * The tools of the object index by name. After `fromStorage`, only the tools
+   * inserted since are listed: the stored tools are restored when they are retrieved.
+   */
   get tools(): Record<string, BaseTool> {
     return this._objectNodeMapping.objNodeMapping();
   }
@@ -0,0 +1,173 @@
+import type { BaseTool } from "../types.js";
+
+/**
+ * An object serialized to be stored in the metadata of a node.
+ */
+export type SerializedObject = {
+  type: string;
+  data: unknown;
+};
+
+/**
+ * Converts the objects of one type to JSON, so that an ObjectIndex
+ * can be persisted and its objects restored after reloading it.
+ */
+export interface ObjectSerializer<T = any> {
+  // identifies the serializer of a serialized object
+  type: string;
+  canSerialize(obj: unknown): boolean;
+  serialize(obj: T): unknown;
+  deserialize(data: any): T;
+  // the text that is embedded to retrieve the object
+  toText(obj: T): string;
+}
+
+/**
+ * Tools can't be serialized, so only their names are stored.
+ * They are rebuilt by name from the tools of the serializer.
+ */
+export class ToolSerializer implements ObjectSerializer<BaseTool> {
+  type = "tool";
+  private tools: Record<string, BaseTool> = {};
+
+  constructor(tools: BaseTool[] = []) {
+    for (const tool of tools) {
+      this.addTool(tool);
+    }
+  }
+
+  addTool(tool: BaseTool): void {
+    this.tools[tool.metadata.name] = tool;
+  }
+
+  canSerialize(obj: unknown): boolean {
+    return (
+      typeof obj === "object" &&
+      obj !== null &&
+      typeof (obj as BaseTool).metadata?.name === "string" &&
+      typeof (obj as BaseTool).call === "function"
+    );
+  }
+
+  serialize(tool: BaseTool): { name: string } {
+    // serialized tools can be rebuilt without passing them again
+    this.addTool(tool);
+    return { name: tool.metadata.name };
+  }
+
+  deserialize({ name }: { name: string }): BaseTool {
+    const tool = this.tools[name];
+    if (!tool) {
+      throw new Error(`Tool ${name} is not registered in the serializer`);
+    }
+    return tool;
+  }
+
+  toText(tool: BaseTool): string {
+    return `Tool name: ${tool.metadata.name}\nTool description: ${tool.metadata.description}`;
+  }
+}
+
+function isJSON(value: unknown): boolean {
+  if (
+    value === null ||
+    ["string", "number", "boolean"].includes(typeof value)
+  ) {
+    return true;
+  }
+  if (Array.isArray(value)) {
+    return value.every(isJSON);
+  }
+  if (typeof value === "object") {
+    const prototype = Object.getPrototypeOf(value);
+    return (
+      (prototype === Object.prototype || prototype === null) &&
+      Object.values(value as object).every(isJSON)
+    );
+  }
+  return false;
+}
+
+/**
+ * Stores plain JSON values (objects, arrays, strings, numbers...) directly.
+ */
+export class JSONSerializer implements ObjectSerializer<unknown> {
+  type = "json";
+
+  canSerialize(obj: unknown): boolean {
+    return isJSON(obj);
+  }
+
+  serialize(obj: unknown): unknown {
+    return obj;
+  }
+
+  deserialize(data: unknown): unknown {
+    return data;
+  }
+
+  toText(obj: unknown): string {
+    return typeof obj === "string" ? obj : JSON.stringify(obj);
+  }
+}
+
+/**
+ * Serializes objects with the first registered serializer that can serialize them.
+ */
+export class ObjectSerializerRegistry {
+  private serializers: ObjectSerializer[] = [];
+
+  /**
+   * @param serializers by default, tools and plain JSON values can be serialized
+   */
+  constructor(
+    serializers: ObjectSerializer[] = [
+      new ToolSerializer(),
+      new JSONSerializer(),
+    ],
+  ) {
+    serializers.forEach((serializer) => this.register(serializer));
+  }
+
+  /**
+   * Registers a serializer, replacing the serializer of the same type if any.
+   */
+  register(serializer: ObjectSerializer): this {
+    this.serializers = this.serializers.filter(
+      ({ type }) => type !== serializer.type,
+    );
+    this.serializers.push(serializer);
+    return this;
+  }
+
+  getSerializer(type: string): ObjectSerializer | undefined {
+    return this.serializers.find((serializer) => serializer.type === type);
+  }
+
+  private serializerFor(obj: unknown): ObjectSerializer {
+    const serializer = this.serializers.find((serializer) =>
+      serializer.canSerialize(obj),
+    );
+    if (!serializer) {
+      throw new Error(`No serializer registered for object ${obj}`);
+    }
+    return serializer;
+  }
+
+  serialize(obj: unknown): SerializedObject {
+    const serializer = this.serializerFor(obj);
+    return { type: serializer.type, data: serializer.serialize(obj) };
+  }
+
+  deserialize({ type, data }: SerializedObject): unknown {
+    const serializer = this.getSerializer(type);
+    if (!serializer) {
+      throw new Error(`No serializer registered for type ${type}`);
+    }
+    return serializer.deserialize(data);
+  }
+
+  toText(obj: unknown): string {
+    return this.serializerFor(obj).toText(obj);
+  }
+}
@@ -0,0 +1,57 @@
+import type { CompleteFileSystem } from "@llamaindex/env";
+import { defaultFS, path } from "@llamaindex/env";
+import { Document } from "../Node.js";
+import type { FileReader } from "./type.js";
+
+/**
+ * The languages of the source files read by the CodeReader, by extension.
+ */
+export const CODE_EXT_TO_LANGUAGE: Record<string, string> = {
+  ts: "typescript",
+  tsx: "typescript",
+  mts: "typescript",
+  cts: "typescript",
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  py: "python",
+  java: "java",
+  kt: "kotlin",
+  scala: "scala",
+  go: "go",
+  rs: "rust",
+  c: "c",
+  h: "c",
+  cpp: "cpp",
+  cc: "cpp",
+  hpp: "cpp",
+  cs: "csharp",
+  swift: "swift",
+  php: "php",
+  rb: "ruby",
+};
+
+/**
+ * Read a source file.
+ * Its path and language are stored in the metadata, for the CodeSplitter.
+ */
+export class CodeReader implements FileReader {
+  async loadData(
+    file: string,
+    fs: CompleteFileSystem = defaultFS,
+  ): Promise<Document[]> {
+    const text = await fs.readFile(file);
+    const extension = path.extname(file).slice(1).toLowerCase();
+    return [
+      new Document({
+        text,
+        id_: file,
+        metadata: {
+          file_path: file,
+          language: CODE_EXT_TO_LANGUAGE[extension] ?? extension,
+        },
+      }),
+    ];
+  }
+}
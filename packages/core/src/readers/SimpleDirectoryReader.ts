@@ -3,6 +3,7 @@ import { defaultFS, path } from "@llamaindex/env";
 import { Document } from "../Node.js";
 import { walk } from "../storage/FileSystem.js";
 import { PapaCSVReader } from "./CSVReader.js";
+import { CODE_EXT_TO_LANGUAGE, CodeReader } from "./CodeReader.js";
 import { DocxReader } from "./DocxReader.js";
 import { HTMLReader } from "./HTMLReader.js";
 import { ImageReader } from "./ImageReader.js";
@@ -47,6 +48,9 @@ export const FILE_EXT_TO_READER: Record<string, BaseReader> = {
   jpeg: new ImageReader(),
   png: new ImageReader(),
   gif: new ImageReader(),
+  ...Object.fromEntries(
+    Object.keys(CODE_EXT_TO_LANGUAGE).map((ext) => [ext, new CodeReader()]),
+  ),
 };
 
 export type SimpleDirectoryReaderLoadDataParams = {
@@ -71,6 +75,41 @@ export class SimpleDirectoryReader implements BaseReader {
   async loadData(
     params: SimpleDirectoryReaderLoadDataParams | string,
   ): Promise<Document[]> {
+    const docs: Document[] = [];
+    const files = this.loadFiles(params);
+    let result = await files.next();
+    while (!result.done) {
+      docs.push(...result.value);
+      result = await files.next();
+    }
+    // a cancelled reading returns no documents
+    return result.value ? docs : [];
+  }
+
+  /**
+   * Yields the documents of the files one after the other, so that
+   * the documents of large directories don't have to fit in memory.
+   * Cancelling the reading with the observer stops the iteration.
+   */
+  lazyLoadData(
+    params: SimpleDirectoryReaderLoadDataParams,
+  ): AsyncIterable<Document>;
+  lazyLoadData(directoryPath: string): AsyncIterable<Document>;
+  async *lazyLoadData(
+    params: SimpleDirectoryReaderLoadDataParams | string,
+  ): AsyncIterable<Document> {
+    for await (const fileDocs of this.loadFiles(params)) {
+      yield* fileDocs;
+    }
+  }
+
+  /**
+   * Yields the documents of each file.
+   * @returns false if the observer cancelled the reading
+   */
+  private async *loadFiles(
+    params: SimpleDirectoryReaderLoadDataParams | string,
+  ): AsyncGenerator<Document[], boolean> {
     if (typeof params === "string") {
       params = { directoryPath: params };
     }
@@ -86,10 +125,9 @@ export class SimpleDirectoryReader implements BaseReader {
     if (
       !this.doObserverCheck("directory", directoryPath, ReaderStatus.STARTED)
     ) {
-      return [];
+      return false;
     }
 
-    const docs: Document[] = [];
     for await (const filePath of walk(fs, directoryPath)) {
       try {
         const fileExt = path.extname(filePath).slice(1).toLowerCase();
@@ -114,7 +152,7 @@ export class SimpleDirectoryReader implements BaseReader {
           if (
             !this.doObserverCheck("file", filePath, ReaderStatus.ERROR, msg)
           ) {
-            return [];
+            return false;
           }
 
           continue;
@@ -124,7 +162,7 @@ export class SimpleDirectoryReader implements BaseReader {
 
         // Observer can still cancel addition of the resulting docs from this file
         if (this.doObserverCheck("file", filePath, ReaderStatus.COMPLETE)) {
-          docs.push(...fileDocs);
+          yield fileDocs;
         }
       } catch (e) {
         const msg = `Error reading file ${filePath}: ${e}`;
@@ -132,7 +170,7 @@ export class SimpleDirectoryReader implements BaseReader {
 
         // In an error condition, observer's false cancels the whole process.
         if (!this.doObserverCheck("file", filePath, ReaderStatus.ERROR, msg)) {
-          return [];
+          return false;
         }
       }
     }
@@ -141,7 +179,7 @@ export class SimpleDirectoryReader implements BaseReader {
     // is only a notification for observer, cannot be cancelled.
     this.doObserverCheck("directory", directoryPath, ReaderStatus.COMPLETE);
 
-    return docs;
+    return true;
   }
 
   private doObserverCheck(
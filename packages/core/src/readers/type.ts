@@ -6,6 +6,10 @@ import type { Document } from "../Node.js";
  */
 export interface BaseReader {
   loadData(...args: unknown[]): Promise<Document[]>;
+  /**
+   * Yields the documents one after the other instead of loading them all in memory.
+   */
+  lazyLoadData?(...args: unknown[]): AsyncIterable<Document>;
 }
 
 /**
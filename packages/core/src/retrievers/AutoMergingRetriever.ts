@@ -0,0 +1,127 @@
+import { globalsHelper } from "../GlobalsHelper.js";
+import type { NodeWithScore } from "../Node.js";
+import type { BaseRetriever, RetrieveParams } from "../Retriever.js";
+import type { ServiceContext } from "../ServiceContext.js";
+import type { BaseDocumentStore } from "../storage/docStore/types.js";
+
+export type AutoMergingRetrieverOptions = {
+  // retrieves the leaf nodes of a HierarchicalNodeParser
+  vectorRetriever: BaseRetriever;
+  // stores the nodes of all levels, to look up the parents
+  docStore: BaseDocumentStore;
+  // a parent replaces its children if more than this ratio of them is retrieved
+  simpleRatioThresh?: number;
+  // defaults to the service context of the vector retriever
+  serviceContext?: ServiceContext;
+  verbose?: boolean;
+};
+
+/**
+ * AutoMergingRetriever retrieves the small chunks of a HierarchicalNodeParser
+ * and replaces them with their parent chunk when enough of its children are
+ * retrieved, so that the LLM gets a larger context instead of many fragments.
+ *
+ * Merging is repeated until no parent has enough retrieved children, so
+ * chunks can be merged up to the root chunks.
+ */
+export class AutoMergingRetriever implements BaseRetriever {
+  vectorRetriever: BaseRetriever;
+  docStore: BaseDocumentStore;
+  simpleRatioThresh: number;
+  verbose: boolean;
+  private serviceContext: ServiceContext;
+
+  constructor(options: AutoMergingRetrieverOptions) {
+    this.vectorRetriever = options.vectorRetriever;
+    this.docStore = options.docStore;
+    this.simpleRatioThresh = options.simpleRatioThresh ?? 0.5;
+    this.verbose = options.verbose ?? false;
+    this.serviceContext =
+      options.serviceContext ?? options.vectorRetriever.getServiceContext();
+  }
+
+  async retrieve({
+    query,
+    parentEvent,
+    preFilters,
+  }: RetrieveParams): Promise<NodeWithScore[]> {
+    let nodes = await this.vectorRetriever.retrieve({
+      query,
+      parentEvent,
+      preFilters,
+    });
+    let merged = true;
+    while (merged) {
+      ({ nodes, merged } = await this.mergeNodes(nodes));
+    }
+    nodes.sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+
+    if (this.serviceContext.callbackManager.onRetrieve) {
+      this.serviceContext.callbackManager.onRetrieve({
+        query,
+        nodes,
+        event: globalsHelper.createEvent({
+          parentEvent,
+          type: "retrieve",
+        }),
+      });
+    }
+    return nodes;
+  }
+
+  /**
+   * Replaces the nodes with their parent if enough of its children are retrieved.
+   * The score of a parent is the average score of its retrieved children.
+   */
+  private async mergeNodes(
+    nodes: NodeWithScore[],
+  ): Promise<{ nodes: NodeWithScore[]; merged: boolean }> {
+    const childrenByParent = new Map<string, Map<string, NodeWithScore>>();
+    for (const nodeWithScore of nodes) {
+      const parentId = nodeWithScore.node.parentNode?.nodeId;
+      if (parentId) {
+        const children = childrenByParent.get(parentId) ?? new Map();
+        children.set(nodeWithScore.node.id_, nodeWithScore);
+        childrenByParent.set(parentId, children);
+      }
+    }
+
+    const mergedIds = new Set<string>();
+    const parents: NodeWithScore[] = [];
+    for (const [parentId, children] of childrenByParent) {
+      const parent = await this.docStore.getDocument(parentId, false);
+      const numChildren = parent?.childNodes?.length;
+      if (!parent || !numChildren) {
+        continue;
+      }
+      if (children.size / numChildren > this.simpleRatioThresh) {
+        if (this.verbose) {
+          console.log(
+            `Merging ${children.size} of ${numChildren} children into parent ${parentId}`,
+          );
+        }
+        const scores = [...children.values()].map(({ score }) => score ?? 0);
+        children.forEach((_, childId) => mergedIds.add(childId));
+        parents.push({
+          node: parent,
+          score: scores.reduce((a, b) => a + b, 0) / scores.length,
+        });
+      }
+    }
+
+    if (parents.length === 0) {
+      return { nodes, merged: false };
+    }
+    return {
+      nodes: [
+        ...nodes.filter(({ node }) => !mergedIds.has(node.id_)),
+        ...parents,
+      ],
+      merged: true,
+    };
+  }
+
+  getServiceContext(): ServiceContext {
+    return this.serviceContext;
+  }
+}
@@ -0,0 +1,186 @@
+import { globalsHelper } from "../GlobalsHelper.js";
+import type { NodeWithScore } from "../Node.js";
+import type { QueryGenPrompt } from "../Prompt.js";
+import { defaultQueryGenPrompt } from "../Prompt.js";
+import type { BaseRetriever, RetrieveParams } from "../Retriever.js";
+import type { ServiceContext } from "../ServiceContext.js";
+import { DEFAULT_SIMILARITY_TOP_K } from "../constants.js";
+import { PromptMixin } from "../prompts/index.js";
+import { HybridFusionMode } from "../storage/vectorStore/types.js";
+import {
+  reciprocalRankScore,
+  relativeScores,
+} from "../storage/vectorStore/utils.js";
+
+export type QueryFusionRetrieverOptions = {
+  retrievers: BaseRetriever[];
+  // defaults to the service context of the first retriever
+  serviceContext?: ServiceContext;
+  // number of queries including the original query, 1 disables query generation
+  numQueries?: number;
+  // reciprocal rank fusion by default; relative score fusion weights the retrievers
+  mode?: HybridFusionMode;
+  similarityTopK?: number;
+  // weights of the retrievers in relative score fusion, equal by default
+  retrieverWeights?: number[];
+  queryGenPrompt?: QueryGenPrompt;
+};
+
+/**
+ * QueryFusionRetriever retrieves nodes with several retrievers and optionally
+ * for several LLM generated variations of the query, then fuses the results
+ * into a single list without duplicate nodes.
+ */
+export class QueryFusionRetriever extends PromptMixin implements BaseRetriever {
+  retrievers: BaseRetriever[];
+  numQueries: number;
+  mode: HybridFusionMode;
+  similarityTopK: number;
+  retrieverWeights: number[];
+  queryGenPrompt: QueryGenPrompt;
+  private serviceContext: ServiceContext;
+
+  constructor(options: QueryFusionRetrieverOptions) {
+    super();
+    if (options.retrievers.length === 0) {
+      throw new Error("QueryFusionRetriever requires at least one retriever");
+    }
+    const weights = options.retrieverWeights ?? options.retrievers.map(() => 1);
+    if (weights.length !== options.retrievers.length) {
+      throw new Error("There must be one weight per retriever");
+    }
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    this.retrievers = options.retrievers;
+    this.serviceContext =
+      options.serviceContext ?? options.retrievers[0].getServiceContext();
+    this.numQueries = options.numQueries ?? 4;
+    this.mode = options.mode ?? HybridFusionMode.RECIPROCAL_RANK;
+    this.similarityTopK = options.similarityTopK ?? DEFAULT_SIMILARITY_TOP_K;
+    this.retrieverWeights = weights.map((weight) => weight / totalWeight);
+    this.queryGenPrompt = options.queryGenPrompt ?? defaultQueryGenPrompt;
+  }
+
+  protected _getPrompts(): { queryGenPrompt: QueryGenPrompt } {
+    return {
+      queryGenPrompt: this.queryGenPrompt,
+    };
+  }
+
+  protected _updatePrompts(prompts: { queryGenPrompt: QueryGenPrompt }): void {
+    if (prompts.queryGenPrompt) {
+      this.queryGenPrompt = prompts.queryGenPrompt;
+    }
+  }
+
+  /**
+   * Asks the LLM for `numQueries - 1` rephrased queries.
+   * @returns the original query followed by the generated queries
+   */
+  async generateQueries(query: string): Promise<string[]> {
+    const numGenerated = this.numQueries - 1;
+    if (numGenerated <= 0) {
+      return [query];
+    }
+    const response = await this.serviceContext.llm.complete({
+      prompt: this.queryGenPrompt({ numQueries: numGenerated, query }),
+    });
+    const generated = response.text
+      .split("\n")
+      // remove list markers like "1." or "-"
+      .map((line) => line.replace(/^\s*(\d+[.)]|[-*])?\s*/, "").trim())
+      .filter((line) => line.length > 0 && line !== query);
+    return [query, ...generated.slice(0, numGenerated)];
+  }
+
+  async retrieve({
+    query,
+    parentEvent,
+    preFilters,
+  }: RetrieveParams): Promise<NodeWithScore[]> {
+    const queries = await this.generateQueries(query);
+
+    // results[i][j] are the results of retriever j for query i
+    const results = await Promise.all(
+      queries.map((q) =>
+        Promise.all(
+          this.retrievers.map((retriever) =>
+            retriever.retrieve({ query: q, parentEvent, preFilters }),
+          ),
+        ),
+      ),
+    );
+
+    const nodesWithScores =
+      this.mode === HybridFusionMode.RELATIVE_SCORE
+        ? this.relativeScoreFusion(results)
+        : this.reciprocalRankFusion(results.flat());
+
+    if (this.serviceContext.callbackManager.onRetrieve) {
+      this.serviceContext.callbackManager.onRetrieve({
+        query,
+        nodes: nodesWithScores,
+        event: globalsHelper.createEvent({
+          parentEvent,
+          type: "retrieve",
+        }),
+      });
+    }
+    return nodesWithScores;
+  }
+
+  private reciprocalRankFusion(results: NodeWithScore[][]): NodeWithScore[] {
+    const fused = new Map<string, NodeWithScore>();
+    for (const nodesWithScores of results) {
+      // retrievers don't always sort by score, e.g. after postprocessing
+      const ranked = [...nodesWithScores].sort(
+        (a, b) => (b.score ?? 0) - (a.score ?? 0),
+      );
+      ranked.forEach(({ node }, rank) => {
+        const score = reciprocalRankScore(rank);
+        const existing = fused.get(node.id_);
+        fused.set(node.id_, {
+          node: existing?.node ?? node,
+          score: (existing?.score ?? 0) + score,
+        });
+      });
+    }
+    return this.topK(fused);
+  }
+
+  private relativeScoreFusion(results: NodeWithScore[][][]): NodeWithScore[] {
+    const fused = new Map<string, NodeWithScore>();
+    for (const queryResults of results) {
+      queryResults.forEach((nodesWithScores, retrieverIndex) => {
+        // results without scores, e.g. of keyword retrievers, are normalized by rank
+        const normalized = relativeScores(
+          nodesWithScores.some(({ score }) => score === undefined)
+            ? nodesWithScores.map((_, rank) => -rank)
+            : nodesWithScores.map(({ score }) => score!),
+        );
+        nodesWithScores.forEach(({ node }, i) => {
+          // averaged over the queries so that the fused scores are in [0, 1]
+          const score =
+            (normalized[i] * this.retrieverWeights[retrieverIndex]) /
+            results.length;
+          const existing = fused.get(node.id_);
+          fused.set(node.id_, {
+            node: existing?.node ?? node,
+            score: (existing?.score ?? 0) + score,
+          });
+        });
+      });
+    }
+    return this.topK(fused);
+  }
+
+  private topK(fused: Map<string, NodeWithScore>): NodeWithScore[] {
+    return [...fused.values()]
+      .sort((a, b) => b.score! - a.score!)
+      .slice(0, this.similarityTopK);
+  }
+
+  getServiceContext(): ServiceContext {
+    return this.serviceContext;
+  }
+}
@@ -0,0 +1,164 @@
+import { globalsHelper } from "../GlobalsHelper.js";
+import type { BaseNode, NodeWithScore } from "../Node.js";
+import { IndexNode, TextNode } from "../Node.js";
+import type { BaseRetriever, RetrieveParams } from "../Retriever.js";
+import type { ServiceContext } from "../ServiceContext.js";
+import type { BaseQueryEngine } from "../types.js";
+
+const DEFAULT_MAX_DEPTH = 10;
+
+export type RecursiveRetrieverOptions = {
+  // id of the retriever of `retrieverDict` that is queried first
+  rootId: string;
+  retrieverDict: Record<string, BaseRetriever>;
+  queryEngineDict?: Record<string, BaseQueryEngine>;
+  nodeDict?: Record<string, BaseNode>;
+  // maximum number of IndexNode references followed from the root retriever
+  maxDepth?: number;
+  // defaults to the service context of the root retriever
+  serviceContext?: ServiceContext;
+  verbose?: boolean;
+};
+
+/**
+ * RecursiveRetriever follows the IndexNodes it retrieves: the `indexId` of an
+ * IndexNode is looked up in the retrievers, query engines and nodes of the
+ * retriever and the IndexNode is replaced by what they return, e.g. by the
+ * chunks of a document for the summary of a document.
+ *
+ * References to an IndexNode already followed (cycles) are skipped and the
+ * IndexNodes deeper than `maxDepth` are returned as they are.
+ */
+export class RecursiveRetriever implements BaseRetriever {
+  rootId: string;
+  retrieverDict: Record<string, BaseRetriever>;
+  queryEngineDict: Record<string, BaseQueryEngine>;
+  nodeDict: Record<string, BaseNode>;
+  maxDepth: number;
+  verbose: boolean;
+  private serviceContext: ServiceContext;
+
+  constructor(options: RecursiveRetrieverOptions) {
+    if (!options.retrieverDict[options.rootId]) {
+      throw new Error(`Root retriever ${options.rootId} not found`);
+    }
+    this.rootId = options.rootId;
+    this.retrieverDict = options.retrieverDict;
+    this.queryEngineDict = options.queryEngineDict ?? {};
+    this.nodeDict = options.nodeDict ?? {};
+    this.maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+    this.verbose = options.verbose ?? false;
+    this.serviceContext =
+      options.serviceContext ??
+      options.retrieverDict[options.rootId].getServiceContext();
+  }
+
+  async retrieve({
+    query,
+    parentEvent,
+    preFilters,
+  }: RetrieveParams): Promise<NodeWithScore[]> {
+    const rootNodes = await this.retrieverDict[this.rootId].retrieve({
+      query,
+      parentEvent,
+      preFilters,
+    });
+    const nodes = await this.resolveNodes(rootNodes, { query, parentEvent }, [
+      this.rootId,
+    ]);
+
+    // the same node can be referenced several times, keep its best score
+    const deduplicated = new Map<string, NodeWithScore>();
+    for (const nodeWithScore of nodes) {
+      const existing = deduplicated.get(nodeWithScore.node.id_);
+      if (!existing || (nodeWithScore.score ?? 0) > (existing.score ?? 0)) {
+        deduplicated.set(nodeWithScore.node.id_, nodeWithScore);
+      }
+    }
+    const nodesWithScores = [...deduplicated.values()];
+
+    if (this.serviceContext.callbackManager.onRetrieve) {
+      this.serviceContext.callbackManager.onRetrieve({
+        query,
+        nodes: nodesWithScores,
+        event: globalsHelper.createEvent({
+          parentEvent,
+          type: "retrieve",
+        }),
+      });
+    }
+    return nodesWithScores;
+  }
+
+  private async resolveNodes(
+    nodes: NodeWithScore[],
+    params: RetrieveParams,
+    path: string[],
+  ): Promise<NodeWithScore[]> {
+    const resolved = await Promise.all(
+      nodes.map((nodeWithScore) =>
+        this.resolveNode(nodeWithScore, params, path),
+      ),
+    );
+    return resolved.flat();
+  }
+
+  /**
+   * @param path the ids followed to retrieve the node, to detect cycles
+   */
+  private async resolveNode(
+    nodeWithScore: NodeWithScore,
+    params: RetrieveParams,
+    path: string[],
+  ): Promise<NodeWithScore[]> {
+    const { node, score } = nodeWithScore;
+    if (!(node instanceof IndexNode)) {
+      return [nodeWithScore];
+    }
+
+    const { indexId } = node;
+    if (path.includes(indexId)) {
+      if (this.verbose) {
+        console.log(`Skipping cycle: ${[...path, indexId].join(" -> ")}`);
+      }
+      return [];
+    }
+    if (path.length > this.maxDepth) {
+      if (this.verbose) {
+        console.log(`Max depth reached, not following ${indexId}`);
+      }
+      return [nodeWithScore];
+    }
+    if (this.verbose) {
+      console.log(`Retrieving from ${indexId} with query ${params.query}`);
+    }
+
+    const nextPath = [...path, indexId];
+    if (this.retrieverDict[indexId]) {
+      const nodes = await this.retrieverDict[indexId].retrieve(params);
+      return this.resolveNodes(nodes, params, nextPath);
+    }
+    if (this.queryEngineDict[indexId]) {
+      const response = await this.queryEngineDict[indexId].query(params);
+      const responseNode = new TextNode({
+        text: response.response,
+        metadata: node.metadata,
+      });
+      return [{ node: responseNode, score }];
+    }
+    if (this.nodeDict[indexId]) {
+      return this.resolveNode(
+        { node: this.nodeDict[indexId], score },
+        params,
+        nextPath,
+      );
+    }
+    throw new Error(
+      `No retriever, query engine or node found for index id ${indexId}`,
+    );
+  }
+
+  getServiceContext(): ServiceContext {
+    return this.serviceContext;
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./AutoMergingRetriever.js";
+export * from "./QueryFusionRetriever.js";
+export * from "./RecursiveRetriever.js";
@@ -1,5 +1,5 @@
 import type { BaseNode } from "../../Node.js";
-import { Document, ObjectType, TextNode } from "../../Node.js";
+import { jsonToNode } from "../../Node.js";
 
 const TYPE_KEY = "__type__";
 const DATA_KEY = "__data__";
@@ -12,28 +12,7 @@ export function docToJson(doc: BaseNode): Record<string, any> {
 }
 
 export function jsonToDoc(docDict: Record<string, any>): BaseNode {
-  const docType = docDict[TYPE_KEY];
-  const dataDict = JSON.parse(docDict[DATA_KEY]);
-  let doc: BaseNode;
-
-  if (docType === ObjectType.DOCUMENT) {
-    doc = new Document({
-      text: dataDict.text,
-      id_: dataDict.id_,
-      embedding: dataDict.embedding,
-      hash: dataDict.hash,
-      metadata: dataDict.metadata,
-    });
-  } else if (docType === ObjectType.TEXT) {
-    doc = new TextNode({
-      text: dataDict.text,
-      id_: dataDict.id_,
-      hash: dataDict.hash,
-      metadata: dataDict.metadata,
-    });
-  } else {
-    throw new Error(`Unknown doc type: ${docType}`);
-  }
-
-  return doc;
+  // the JSON of a node has all its fields, e.g. its embedding
+  const { type, ...dataDict } = JSON.parse(docDict[DATA_KEY]);
+  return jsonToNode(dataDict, docDict[TYPE_KEY]);
 }
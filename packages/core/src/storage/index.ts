@@ -11,9 +11,12 @@ export { SimpleKVStore } from "./kvStore/SimpleKVStore.js";
 export * from "./kvStore/types.js";
 export { AstraDBVectorStore } from "./vectorStore/AstraDBVectorStore.js";
 export { ChromaVectorStore } from "./vectorStore/ChromaVectorStore.js";
+export { HNSWIndex } from "./vectorStore/HNSWIndex.js";
+export type { HNSWIndexOptions } from "./vectorStore/HNSWIndex.js";
 export { MongoDBAtlasVectorSearch } from "./vectorStore/MongoDBAtlasVectorStore.js";
 export { PGVectorStore } from "./vectorStore/PGVectorStore.js";
 export { PineconeVectorStore } from "./vectorStore/PineconeVectorStore.js";
 export { QdrantVectorStore } from "./vectorStore/QdrantVectorStore.js";
 export { SimpleVectorStore } from "./vectorStore/SimpleVectorStore.js";
+export type { SimpleVectorStoreOptions } from "./vectorStore/SimpleVectorStore.js";
 export * from "./vectorStore/types.js";
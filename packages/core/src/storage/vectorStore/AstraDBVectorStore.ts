@@ -4,14 +4,30 @@ import { getEnv } from "@llamaindex/env";
 import type { BaseNode } from "../../Node.js";
 import { MetadataMode } from "../../Node.js";
 import type {
+  MetadataFilters,
   VectorStore,
   VectorStoreQuery,
   VectorStoreQueryResult,
 } from "./types.js";
-import { metadataDictToNode, nodeToMetadata } from "./utils.js";
+import {
+  metadataDictToNode,
+  nodeToMetadata,
+  toMongoLikeFilter,
+} from "./utils.js";
 
 const MAX_INSERT_BATCH_SIZE = 20;
 
+export function toAstraDBFilter(
+  standardFilters?: MetadataFilters,
+): Record<string, any> {
+  return (
+    toMongoLikeFilter(standardFilters, {
+      storeName: "Astra DB",
+      contains: (value) => ({ $all: [value] }),
+    }) ?? {}
+  );
+}
+
 export class AstraDBVectorStore implements VectorStore {
   storesText: boolean = true;
   flatMetadata: boolean = true;
@@ -184,10 +200,7 @@ export class AstraDBVectorStore implements VectorStore {
     }
     const collection = this.collection;
 
-    const filters: Record<string, any> = {};
-    query.filters?.filters?.forEach((f) => {
-      filters[f.key] = f.value;
-    });
+    const filters = toAstraDBFilter(query.filters);
 
     const cursor = await collection.find(filters, {
       sort: query.queryEmbedding
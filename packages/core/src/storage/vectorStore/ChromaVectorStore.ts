@@ -10,12 +10,17 @@ import { ChromaClient, IncludeEnum } from "chromadb";
 import type { BaseNode } from "../../Node.js";
 import { MetadataMode } from "../../Node.js";
 import type {
+  MetadataFilters,
   VectorStore,
   VectorStoreQuery,
   VectorStoreQueryResult,
 } from "./types.js";
 import { VectorStoreQueryMode } from "./types.js";
-import { metadataDictToNode, nodeToMetadata } from "./utils.js";
+import {
+  metadataDictToNode,
+  nodeToMetadata,
+  toMongoLikeFilter,
+} from "./utils.js";
 
 type ChromaDeleteOptions = {
   where?: Where;
@@ -28,6 +33,16 @@ type ChromaQueryOptions = {
 
 const DEFAULT_TEXT_KEY = "text";
 
+/**
+ * Converts metadata filters to a Chroma `where` filter.
+ * As Chroma only supports flat metadata, `FilterOperator.CONTAINS` is not supported.
+ */
+export function toChromaFilter(filters?: MetadataFilters): Where | undefined {
+  return toMongoLikeFilter(filters, { storeName: "ChromaDB" }) as
+    | Where
+    | undefined;
+}
+
 export class ChromaVectorStore implements VectorStore {
   storesText: boolean = true;
   flatMetadata: boolean = true;
@@ -106,21 +121,12 @@ export class ChromaVectorStore implements VectorStore {
       throw new Error("ChromaDB does not support querying by mode");
     }
 
-    const chromaWhere: { [x: string]: string | number | boolean } = {};
-    if (query.filters?.filters) {
-      query.filters.filters.map((filter) => {
-        const filterKey = filter.key;
-        const filterValue = filter.value;
-        chromaWhere[filterKey] = filterValue;
-      });
-    }
-
     const collection = await this.getCollection();
     const queryResponse: QueryResponse = await collection.query({
       queryEmbeddings: query.queryEmbedding ?? undefined,
       queryTexts: query.queryStr ?? undefined,
       nResults: query.similarityTopK,
-      where: Object.keys(chromaWhere).length ? chromaWhere : undefined,
+      where: toChromaFilter(query.filters),
       whereDocument: options?.whereDocument,
       //ChromaDB doesn't return the result embeddings by default so we need to include them
       include: [
@@ -0,0 +1,473 @@
+export type HNSWIndexOptions = {
+  // max number of neighbours per node and layer (layer 0 uses 2 * M)
+  M?: number;
+  // size of the candidate list used while inserting nodes
+  efConstruction?: number;
+  // size of the candidate list used while searching, higher values give better recall
+  efSearch?: number;
+};
+
+export type HNSWIndexData = Required<HNSWIndexOptions> & {
+  dimensions: number;
+  ids: (string | null)[];
+  levels: number[];
+  neighbors: number[][][];
+  entryPoint: number;
+  maxLevel: number;
+  // base64 encoded Float32Array of the normalized vectors
+  vectors: string;
+};
+
+type Candidate = { node: number; distance: number };
+
+/**
+ * Binary heap ordered by `compare` (the smallest element is at the top).
+ */
+class Heap<T> {
+  private items: T[] = [];
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[i], items[parent]) >= 0) {
+        break;
+      }
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (
+          left < items.length &&
+          this.compare(items[left], items[smallest]) < 0
+        ) {
+          smallest = left;
+        }
+        if (
+          right < items.length &&
+          this.compare(items[right], items[smallest]) < 0
+        ) {
+          smallest = right;
+        }
+        if (smallest === i) {
+          break;
+        }
+        [items[i], items[smallest]] = [items[smallest], items[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+const byDistance = (a: Candidate, b: Candidate) => a.distance - b.distance;
+const byDistanceDesc = (a: Candidate, b: Candidate) => b.distance - a.distance;
+
+function encodeVectors(vectors: Float32Array): string {
+  const bytes = new Uint8Array(
+    vectors.buffer,
+    vectors.byteOffset,
+    vectors.byteLength,
+  );
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+function decodeVectors(encoded: string): Float32Array {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Float32Array(bytes.buffer);
+}
+
+/**
+ * In-memory Hierarchical Navigable Small World (HNSW) graph for approximate
+ * nearest neighbour search using cosine similarity.
+ * See https://arxiv.org/abs/1603.09320
+ */
+export class HNSWIndex {
+  M: number;
+  efConstruction: number;
+  efSearch: number;
+
+  private dimensions: number = 0;
+  // normalized vectors of all nodes, stored contiguously
+  private vectors: Float32Array = new Float32Array(0);
+  // external ids of the nodes, null for deleted nodes
+  private ids: (string | null)[] = [];
+  private idToNode: Map<string, number> = new Map();
+  private levels: number[] = [];
+  // neighbors[node][level] is the list of neighbours of node in level
+  private neighbors: number[][][] = [];
+  private entryPoint: number = -1;
+  private maxLevel: number = -1;
+  private deletedCount: number = 0;
+
+  constructor(options?: HNSWIndexOptions) {
+    this.M = options?.M ?? 16;
+    this.efConstruction = options?.efConstruction ?? 200;
+    this.efSearch = options?.efSearch ?? 50;
+  }
+
+  /**
+   * Number of (not deleted) vectors in the index.
+   */
+  get size(): number {
+    return this.idToNode.size;
+  }
+
+  has(id: string): boolean {
+    return this.idToNode.has(id);
+  }
+
+  /**
+   * Adds a vector to the index, replaces the vector if the id already exists.
+   */
+  add(id: string, vector: number[]): void {
+    if (this.dimensions === 0) {
+      this.dimensions = vector.length;
+    } else if (vector.length !== this.dimensions) {
+      throw new Error(
+        `Vector has ${vector.length} dimensions, expected ${this.dimensions}`,
+      );
+    }
+    if (this.idToNode.has(id)) {
+      this.delete(id);
+    }
+
+    const node = this.ids.length;
+    this.storeVector(node, vector);
+    this.ids.push(id);
+    this.idToNode.set(id, node);
+
+    const level = Math.floor(-Math.log(Math.random()) / Math.log(this.M));
+    this.levels.push(level);
+    this.neighbors.push(Array.from({ length: level + 1 }, () => []));
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+      return;
+    }
+
+    const query = this.getVector(node);
+    let entryPoints = [this.entryPoint];
+    for (let l = this.maxLevel; l > level; l--) {
+      entryPoints = [this.searchLayer(query, entryPoints, 1, l)[0].node];
+    }
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(
+        query,
+        entryPoints,
+        this.efConstruction,
+        l,
+      );
+      const selected = this.selectNeighbors(candidates, this.M);
+      this.neighbors[node][l] = selected;
+      for (const neighbor of selected) {
+        this.connect(neighbor, node, l);
+      }
+      entryPoints = candidates.map((candidate) => candidate.node);
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = node;
+      this.maxLevel = level;
+    }
+  }
+
+  /**
+   * Deletes a vector from the index.
+   * Deleted nodes are kept in the graph for routing until more than half of
+   * the nodes are deleted, then the index is rebuilt.
+   */
+  delete(id: string): void {
+    const node = this.idToNode.get(id);
+    if (node === undefined) {
+      return;
+    }
+    this.idToNode.delete(id);
+    this.ids[node] = null;
+    this.deletedCount++;
+    if (this.deletedCount > this.ids.length / 2) {
+      this.rebuild();
+    }
+  }
+
+  /**
+   * Searches the approximate nearest neighbours of the query vector.
+   * @param queryEmbedding query vector
+   * @param k number of results
+   * @param filter only ids for which filter returns true are returned
+   * @returns similarities and ids of the results, ordered by similarity
+   */
+  search(
+    queryEmbedding: number[],
+    k: number,
+    filter?: (id: string) => boolean,
+  ): [number[], string[]] {
+    if (this.entryPoint === -1 || this.size === 0) {
+      return [[], []];
+    }
+    if (queryEmbedding.length !== this.dimensions) {
+      throw new Error(
+        `Query has ${queryEmbedding.length} dimensions, expected ${this.dimensions}`,
+      );
+    }
+
+    const query = this.normalize(queryEmbedding);
+    let entryPoints = [this.entryPoint];
+    for (let l = this.maxLevel; l > 0; l--) {
+      entryPoints = [this.searchLayer(query, entryPoints, 1, l)[0].node];
+    }
+    const results = this.searchLayer(
+      query,
+      entryPoints,
+      Math.max(this.efSearch, k),
+      0,
+      (node) => this.ids[node] !== null && (!filter || filter(this.ids[node]!)),
+    ).slice(0, k);
+
+    return [
+      results.map((result) => 1 - result.distance),
+      results.map((result) => this.ids[result.node]!),
+    ];
+  }
+
+  toJSON(): HNSWIndexData {
+    return {
+      M: this.M,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+      dimensions: this.dimensions,
+      ids: this.ids,
+      levels: this.levels,
+      neighbors: this.neighbors,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      vectors: encodeVectors(
+        this.vectors.subarray(0, this.ids.length * this.dimensions),
+      ),
+    };
+  }
+
+  static fromJSON(data: HNSWIndexData, options?: HNSWIndexOptions): HNSWIndex {
+    const index = new HNSWIndex({
+      M: data.M,
+      efConstruction: data.efConstruction,
+      efSearch: data.efSearch,
+      ...options,
+    });
+    index.dimensions = data.dimensions;
+    index.vectors = decodeVectors(data.vectors);
+    index.ids = data.ids;
+    index.levels = data.levels;
+    index.neighbors = data.neighbors;
+    index.entryPoint = data.entryPoint;
+    index.maxLevel = data.maxLevel;
+    data.ids.forEach((id, node) => {
+      if (id === null) {
+        index.deletedCount++;
+      } else {
+        index.idToNode.set(id, node);
+      }
+    });
+    return index;
+  }
+
+  private rebuild(): void {
+    const live = [...this.idToNode.entries()].map(
+      ([id, node]) => [id, Array.from(this.getVector(node))] as const,
+    );
+    this.dimensions = 0;
+    this.vectors = new Float32Array(0);
+    this.ids = [];
+    this.idToNode = new Map();
+    this.levels = [];
+    this.neighbors = [];
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+    this.deletedCount = 0;
+    for (const [id, vector] of live) {
+      this.add(id, vector);
+    }
+  }
+
+  private normalize(vector: number[] | Float32Array): Float32Array {
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) {
+      norm += vector[i] * vector[i];
+    }
+    norm = Math.sqrt(norm) || 1;
+    const normalized = new Float32Array(vector.length);
+    for (let i = 0; i < vector.length; i++) {
+      normalized[i] = vector[i] / norm;
+    }
+    return normalized;
+  }
+
+  private storeVector(node: number, vector: number[]): void {
+    const offset = node * this.dimensions;
+    if (offset + this.dimensions > this.vectors.length) {
+      const capacity = Math.max(
+        offset + this.dimensions,
+        this.vectors.length * 2,
+      );
+      const vectors = new Float32Array(capacity);
+      vectors.set(this.vectors);
+      this.vectors = vectors;
+    }
+    this.vectors.set(this.normalize(vector), offset);
+  }
+
+  private getVector(node: number): Float32Array {
+    const offset = node * this.dimensions;
+    return this.vectors.subarray(offset, offset + this.dimensions);
+  }
+
+  private distance(query: Float32Array, node: number): number {
+    const offset = node * this.dimensions;
+    let dot = 0;
+    for (let i = 0; i < this.dimensions; i++) {
+      dot += query[i] * this.vectors[offset + i];
+    }
+    return 1 - dot;
+  }
+
+  /**
+   * Greedy beam search in one layer of the graph.
+   * @returns the ef closest nodes accepted by the filter, ordered by distance
+   */
+  // eslint-disable-next-line max-params
+  private searchLayer(
+    query: Float32Array,
+    entryPoints: number[],
+    ef: number,
+    level: number,
+    accept: (node: number) => boolean = () => true,
+  ): Candidate[] {
+    const visited = new Set<number>(entryPoints);
+    const candidates = new Heap<Candidate>(byDistance);
+    const results = new Heap<Candidate>(byDistanceDesc);
+    for (const node of entryPoints) {
+      const candidate = { node, distance: this.distance(query, node) };
+      candidates.push(candidate);
+      if (accept(node)) {
+        results.push(candidate);
+      }
+    }
+
+    while (candidates.size > 0) {
+      const current = candidates.pop()!;
+      const furthest = results.peek();
+      if (
+        furthest &&
+        results.size >= ef &&
+        current.distance > furthest.distance
+      ) {
+        break;
+      }
+      for (const neighbor of this.neighbors[current.node][level] ?? []) {
+        if (visited.has(neighbor)) {
+          continue;
+        }
+        visited.add(neighbor);
+        const distance = this.distance(query, neighbor);
+        const furthest = results.peek();
+        if (results.size < ef || !furthest || distance < furthest.distance) {
+          candidates.push({ node: neighbor, distance });
+          if (accept(neighbor)) {
+            results.push({ node: neighbor, distance });
+            if (results.size > ef) {
+              results.pop();
+            }
+          }
+        }
+      }
+    }
+
+    return results.toArray().sort(byDistance);
+  }
+
+  /**
+   * Selects up to m neighbours from the candidates using the heuristic of the
+   * HNSW paper, which prefers candidates in different directions.
+   */
+  private selectNeighbors(candidates: Candidate[], m: number): number[] {
+    const selected: number[] = [];
+    const pruned: number[] = [];
+    for (const candidate of [...candidates].sort(byDistance)) {
+      if (selected.length >= m) {
+        break;
+      }
+      const vector = this.getVector(candidate.node);
+      const isDiverse = selected.every(
+        (node) => this.distance(vector, node) > candidate.distance,
+      );
+      if (isDiverse) {
+        selected.push(candidate.node);
+      } else {
+        pruned.push(candidate.node);
+      }
+    }
+    // fill up with the closest pruned candidates
+    for (const node of pruned) {
+      if (selected.length >= m) {
+        break;
+      }
+      selected.push(node);
+    }
+    return selected;
+  }
+
+  private connect(node: number, neighbor: number, level: number): void {
+    const neighbors = this.neighbors[node][level];
+    neighbors.push(neighbor);
+    const maxNeighbors = level === 0 ? this.M * 2 : this.M;
+    if (neighbors.length > maxNeighbors) {
+      const vector = this.getVector(node);
+      const candidates = neighbors.map((n) => ({
+        node: n,
+        distance: this.distance(vector, n),
+      }));
+      this.neighbors[node][level] = this.selectNeighbors(
+        candidates,
+        maxNeighbors,
+      );
+    }
+  }
+}
@@ -9,17 +9,24 @@ import type {
   VectorStoreQuery,
   VectorStoreQueryResult,
 } from "./types.js";
-import { metadataDictToNode, nodeToMetadata } from "./utils.js";
+import {
+  metadataDictToNode,
+  nodeToMetadata,
+  toMongoLikeFilter,
+} from "./utils.js";
 
 // Utility function to convert metadata filters to MongoDB filter
-function toMongoDBFilter(
+export function toMongoDBFilter(
   standardFilters: MetadataFilters,
 ): Record<string, any> {
-  const filters: Record<string, any> = {};
-  for (const filter of standardFilters?.filters ?? []) {
-    filters[filter.key] = filter.value;
-  }
-  return filters;
+  return (
+    toMongoLikeFilter(standardFilters, {
+      storeName: "MongoDB Atlas",
+      not: (clause) => ({ $nor: [clause] }),
+      // an array field matches `$in` if one of its items is in the values
+      contains: (value) => ({ $in: [value] }),
+    }) ?? {}
+  );
 }
 
 // MongoDB Atlas Vector Store class implementing VectorStore
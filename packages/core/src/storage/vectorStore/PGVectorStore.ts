@@ -1,10 +1,14 @@
 import type pg from "pg";
 
 import type {
+  MetadataFilter,
+  MetadataFilters,
   VectorStore,
   VectorStoreQuery,
   VectorStoreQueryResult,
 } from "./types.js";
+import { FilterCondition, FilterOperator } from "./types.js";
+import { isMetadataFilters, normalizeMetadataFilter } from "./utils.js";
 
 import type { GenericFileSystem } from "@llamaindex/env";
 import type { BaseNode, Metadata } from "../../Node.js";
@@ -13,6 +17,75 @@ import { Document, MetadataMode } from "../../Node.js";
 export const PGVECTOR_SCHEMA = "public";
 export const PGVECTOR_TABLE = "llamaindex_embedding";
 
+function toPostgresComparison(
+  { key, value, operator }: Required<MetadataFilter>,
+  params: unknown[],
+): string {
+  const addParam = (param: unknown) => {
+    params.push(param);
+    return `$${params.length}`;
+  };
+  // values are compared as JSONB, so that types are preserved
+  const keyParam = addParam(key);
+  const field = `metadata->${keyParam}::text`;
+  switch (operator) {
+    case FilterOperator.EQ:
+      return `${field} = ${addParam(JSON.stringify(value))}::jsonb`;
+    case FilterOperator.NE:
+      return `${field} IS DISTINCT FROM ${addParam(JSON.stringify(value))}::jsonb`;
+    case FilterOperator.GT:
+    case FilterOperator.GTE:
+    case FilterOperator.LT:
+    case FilterOperator.LTE: {
+      const param = addParam(JSON.stringify(value));
+      return `(jsonb_typeof(${field}) = jsonb_typeof(${param}::jsonb) AND ${field} ${operator} ${param}::jsonb)`;
+    }
+    case FilterOperator.IN:
+      return `${addParam(JSON.stringify(value))}::jsonb @> jsonb_build_array(${field})`;
+    case FilterOperator.NIN:
+      return `NOT (${addParam(JSON.stringify(value))}::jsonb @> jsonb_build_array(${field}))`;
+    case FilterOperator.CONTAINS:
+      return `${field} @> ${addParam(JSON.stringify([value]))}::jsonb`;
+    case FilterOperator.TEXT_MATCH: {
+      const pattern = String(value).replace(/[\\%_]/g, "\\$&");
+      return `metadata->>${keyParam}::text LIKE ${addParam(`%${pattern}%`)}`;
+    }
+    default:
+      throw new Error(`Unsupported filter operator: ${operator}`);
+  }
+}
+
+/**
+ * Converts metadata filters to a SQL condition on the `metadata` column.
+ * The values of the filters are added to `params`.
+ * @returns the SQL condition or undefined if there are no filters
+ */
+export function toPostgresCondition(
+  filters: MetadataFilters,
+  params: unknown[],
+): string | undefined {
+  const conditions = filters.filters
+    .map((filter) =>
+      isMetadataFilters(filter)
+        ? toPostgresCondition(filter, params)
+        : toPostgresComparison(normalizeMetadataFilter(filter), params),
+    )
+    .filter((condition): condition is string => condition !== undefined);
+  if (conditions.length === 0) {
+    return undefined;
+  }
+
+  switch (filters.condition ?? FilterCondition.AND) {
+    case FilterCondition.OR:
+      return `(${conditions.join(" OR ")})`;
+    case FilterCondition.NOT:
+      // treat NULL (e.g. missing metadata keys) as not matching
+      return `NOT COALESCE((${conditions.join(" AND ")}), false)`;
+    default:
+      return `(${conditions.join(" AND ")})`;
+  }
+}
+
 /**
  * Provides support for writing and querying vector data in Postgres.
  * Note: Can't be used with data created using the Python version of the vector store (https://docs.llamaindex.ai/en/stable/examples/vector_stores/postgres.html)
@@ -256,15 +329,16 @@ export class PGVectorStore implements VectorStore {
     const max = query.similarityTopK ?? 2;
     const whereClauses = this.collection.length ? ["collection = $2"] : [];
 
-    const params: Array<string | number> = this.collection.length
+    const params: unknown[] = this.collection.length
       ? [embedding, this.collection]
       : [embedding];
 
-    query.filters?.filters.forEach((filter, index) => {
-      const paramIndex = params.length + 1;
-      whereClauses.push(`metadata->>'${filter.key}' = $${paramIndex}`);
-      params.push(filter.value);
-    });
+    const filterCondition = query.filters
+      ? toPostgresCondition(query.filters, params)
+      : undefined;
+    if (filterCondition) {
+      whereClauses.push(filterCondition);
+    }
 
     const where =
       whereClauses.length > 0 ? `WHERE ${whereClauses.join(" AND ")}` : "";
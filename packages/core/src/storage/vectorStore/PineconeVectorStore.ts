@@ -1,10 +1,10 @@
 import type {
-  ExactMatchFilter,
   MetadataFilters,
   VectorStore,
   VectorStoreQuery,
   VectorStoreQueryResult,
 } from "./types.js";
+import { VectorStoreQueryMode } from "./types.js";
 
 import { getEnv, type GenericFileSystem } from "@llamaindex/env";
 import type {
@@ -14,7 +14,11 @@ import type {
 } from "@pinecone-database/pinecone";
 import { type Pinecone } from "@pinecone-database/pinecone";
 import type { BaseNode, Metadata } from "../../Node.js";
-import { metadataDictToNode, nodeToMetadata } from "./utils.js";
+import {
+  metadataDictToNode,
+  nodeToMetadata,
+  toMongoLikeFilter,
+} from "./utils.js";
 
 type PineconeParams = {
   indexName?: string;
@@ -88,7 +92,7 @@ export class PineconeVectorStore implements VectorStore {
 
   /**
    * Adds vector record(s) to the table.
-   * @TODO Does not create or insert sparse vectors.
+   * The sparse embeddings of the nodes are stored as sparse values (requires an index with the dotproduct metric).
    * @param embeddingResults The Nodes to be inserted, optionally including metadata tuples.
    * @returns Due to limitations in the Pinecone client, does not return the upserted ID list, only a Promise resolve/reject.
    */
@@ -147,7 +151,7 @@ export class PineconeVectorStore implements VectorStore {
     const filter = this.toPineconeFilter(query.filters);
 
     var options: any = {
-      vector: query.queryEmbedding,
+      ...this.toPineconeQueryVectors(query),
       topK: query.similarityTopK,
       includeValues: true,
       includeMetadata: true,
@@ -198,10 +202,35 @@ export class PineconeVectorStore implements VectorStore {
   }
 
   toPineconeFilter(stdFilters?: MetadataFilters) {
-    return stdFilters?.filters?.reduce((carry: any, item: ExactMatchFilter) => {
-      carry[item.key] = item.value;
-      return carry;
-    }, {});
+    return toMongoLikeFilter(stdFilters, {
+      storeName: "Pinecone",
+      // a metadata list matches `$in` if one of its items is in the values
+      contains: (value) => ({ $in: [value] }),
+    });
+  }
+
+  /**
+   * In hybrid mode, Pinecone queries the dense and sparse vectors together:
+   * the dense vector is weighted by `alpha` and the sparse vector by `1 - alpha`.
+   */
+  toPineconeQueryVectors(query: VectorStoreQuery) {
+    if (query.mode !== VectorStoreQueryMode.HYBRID) {
+      return { vector: query.queryEmbedding };
+    }
+    if (!query.queryEmbedding || !query.querySparseEmbedding) {
+      throw new Error(
+        "Pinecone hybrid queries require a query embedding and a query sparse embedding",
+      );
+    }
+    const alpha = query.alpha ?? 0.5;
+    const { indices, values } = query.querySparseEmbedding;
+    return {
+      vector: query.queryEmbedding.map((value) => value * alpha),
+      sparseVector: {
+        indices,
+        values: values.map((value) => value * (1 - alpha)),
+      },
+    };
   }
 
   textFromResultRow(row: ScoredPineconeRecord<Metadata>): string {
@@ -222,6 +251,7 @@ export class PineconeVectorStore implements VectorStore {
     return {
       id: id,
       values: node.getEmbedding(),
+      ...(node.sparseEmbedding && { sparseValues: node.sparseEmbedding }),
       metadata: nodeToMetadata(node),
     };
   }
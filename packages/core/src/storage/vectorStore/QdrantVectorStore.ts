@@ -1,27 +1,119 @@
-import type { BaseNode } from "../../Node.js";
+import type { BaseNode, SparseEmbedding } from "../../Node.js";
 import type {
+  MetadataFilter,
+  MetadataFilters,
   VectorStore,
   VectorStoreQuery,
   VectorStoreQueryResult,
 } from "./types.js";
+import {
+  FilterCondition,
+  FilterOperator,
+  VectorStoreQueryMode,
+} from "./types.js";
 
 import { QdrantClient } from "@qdrant/js-client-rest";
-import { metadataDictToNode, nodeToMetadata } from "./utils.js";
+import {
+  fuseHybridQueryResults,
+  isMetadataFilters,
+  metadataDictToNode,
+  nodeToMetadata,
+  normalizeMetadataFilter,
+} from "./utils.js";
+
+// names of the vectors of a point if hybrid search is enabled
+const DENSE_VECTOR_NAME = "text-dense";
+const SPARSE_VECTOR_NAME = "text-sparse";
 
 type PointStruct = {
   id: string;
   payload: Record<string, string>;
-  vector: number[];
+  vector: number[] | Record<string, number[] | SparseEmbedding>;
 };
 
+type SearchVector =
+  | number[]
+  | { name: string; vector: number[] }
+  | { name: string; vector: SparseEmbedding };
+
 type QdrantParams = {
   collectionName?: string;
   client?: QdrantClient;
   url?: string;
   apiKey?: string;
   batchSize?: number;
+  enableHybrid?: boolean;
+};
+
+type QdrantCondition = Record<string, unknown>;
+
+type QdrantFilter = {
+  must?: QdrantCondition[];
+  should?: QdrantCondition[];
+  must_not?: QdrantCondition[];
 };
 
+const QDRANT_RANGE_OPERATORS: Partial<Record<FilterOperator, string>> = {
+  [FilterOperator.GT]: "gt",
+  [FilterOperator.GTE]: "gte",
+  [FilterOperator.LT]: "lt",
+  [FilterOperator.LTE]: "lte",
+};
+
+function toQdrantCondition({
+  key,
+  value,
+  operator,
+}: Required<MetadataFilter>): QdrantCondition {
+  switch (operator) {
+    case FilterOperator.EQ:
+    // Qdrant matches an array payload if one of its items matches the value
+    case FilterOperator.CONTAINS:
+      return { key, match: { value } };
+    case FilterOperator.NE:
+      return { must_not: [{ key, match: { value } }] };
+    case FilterOperator.IN:
+      return { key, match: { any: value } };
+    case FilterOperator.NIN:
+      return { must_not: [{ key, match: { any: value } }] };
+    case FilterOperator.TEXT_MATCH:
+      return { key, match: { text: value } };
+    case FilterOperator.GT:
+    case FilterOperator.GTE:
+    case FilterOperator.LT:
+    case FilterOperator.LTE:
+      if (typeof value !== "number") {
+        throw new Error(
+          `Qdrant only supports numeric values for the "${operator}" filter operator.`,
+        );
+      }
+      return { key, range: { [QDRANT_RANGE_OPERATORS[operator]!]: value } };
+    default:
+      throw new Error(`Unsupported filter operator: ${operator}`);
+  }
+}
+
+/**
+ * Converts metadata filters to a Qdrant filter.
+ * @param filters Metadata filters
+ * @returns Qdrant filter
+ */
+export function toQdrantFilter(filters: MetadataFilters): QdrantFilter {
+  const conditions = filters.filters.map((filter) =>
+    isMetadataFilters(filter)
+      ? toQdrantFilter(filter)
+      : toQdrantCondition(normalizeMetadataFilter(filter)),
+  );
+  switch (filters.condition ?? FilterCondition.AND) {
+    case FilterCondition.OR:
+      return { should: conditions };
+    case FilterCondition.NOT:
+      return { must_not: [{ must: conditions }] };
+    default:
+      return { must: conditions };
+  }
+}
+
 type QuerySearchResult = {
   id: string;
   score: number;
@@ -38,6 +130,7 @@ export class QdrantVectorStore implements VectorStore {
 
   batchSize: number;
   collectionName: string;
+  enableHybrid: boolean;
 
   private db: QdrantClient;
   private collectionInitialized: boolean = false;
@@ -49,6 +142,7 @@ export class QdrantVectorStore implements VectorStore {
    * @param url Qdrant URL
    * @param apiKey Qdrant API key
    * @param batchSize Number of vectors to upload in a single batch
+   * @param enableHybrid Stores the sparse embeddings of the nodes next to the dense embeddings, required for sparse and hybrid queries
    */
   constructor({
     collectionName,
@@ -56,6 +150,7 @@ export class QdrantVectorStore implements VectorStore {
     url,
     apiKey,
     batchSize,
+    enableHybrid,
   }: QdrantParams) {
     if (!client && !url) {
       if (!url) {
@@ -74,6 +169,7 @@ export class QdrantVectorStore implements VectorStore {
 
     this.collectionName = collectionName ?? "default";
     this.batchSize = batchSize ?? 100;
+    this.enableHybrid = enableHybrid ?? false;
   }
 
   /**
@@ -90,12 +186,20 @@ export class QdrantVectorStore implements VectorStore {
    * @param vectorSize Dimensionality of the vectors
    */
   async createCollection(collectionName: string, vectorSize: number) {
-    await this.db.createCollection(collectionName, {
-      vectors: {
-        size: vectorSize,
-        distance: "Cosine",
-      },
-    });
+    const vectorParams = {
+      size: vectorSize,
+      distance: "Cosine" as const,
+    };
+    if (this.enableHybrid) {
+      await this.db.createCollection(collectionName, {
+        vectors: { [DENSE_VECTOR_NAME]: vectorParams },
+        sparse_vectors: { [SPARSE_VECTOR_NAME]: {} },
+      });
+    } else {
+      await this.db.createCollection(collectionName, {
+        vectors: vectorParams,
+      });
+    }
   }
 
   /**
@@ -146,7 +250,16 @@ export class QdrantVectorStore implements VectorStore {
 
         nodeIds.push(node);
 
-        vectors.push(node.getEmbedding());
+        if (this.enableHybrid) {
+          vectors.push({
+            [DENSE_VECTOR_NAME]: node.getEmbedding(),
+            ...(node.sparseEmbedding && {
+              [SPARSE_VECTOR_NAME]: node.sparseEmbedding,
+            }),
+          });
+        } else {
+          vectors.push(node.getEmbedding());
+        }
 
         const metadata = nodeToMetadata(node);
 
@@ -263,11 +376,7 @@ export class QdrantVectorStore implements VectorStore {
   ): Promise<VectorStoreQueryResult> {
     const qdrantFilters = options?.qdrant_filters;
 
-    let queryFilters;
-
-    if (!query.queryEmbedding) {
-      throw new Error("No query embedding provided");
-    }
+    let queryFilters: QdrantFilter | null;
 
     if (qdrantFilters) {
       queryFilters = qdrantFilters;
@@ -275,25 +384,65 @@ export class QdrantVectorStore implements VectorStore {
       queryFilters = await this.buildQueryFilter(query);
     }
 
-    const result = (await this.db.search(this.collectionName, {
-      vector: query.queryEmbedding,
-      limit: query.similarityTopK,
-      ...(queryFilters && { filter: queryFilters }),
-    })) as Array<QuerySearchResult>;
+    const search = async (vector: SearchVector, limit: number) => {
+      const result = (await this.db.search(this.collectionName, {
+        vector,
+        limit,
+        ...(queryFilters && { filter: queryFilters }),
+      })) as Array<QuerySearchResult>;
+      return this.parseToQueryResult(result);
+    };
+
+    if (
+      query.mode !== VectorStoreQueryMode.SPARSE &&
+      query.mode !== VectorStoreQueryMode.HYBRID
+    ) {
+      return search(this.denseSearchVector(query), query.similarityTopK);
+    }
+
+    if (!this.enableHybrid) {
+      throw new Error(
+        `QdrantVectorStore requires enableHybrid for the ${query.mode} query mode`,
+      );
+    }
+    if (!query.querySparseEmbedding) {
+      throw new Error("No query sparse embedding provided");
+    }
+    const sparseVector = {
+      name: SPARSE_VECTOR_NAME,
+      vector: query.querySparseEmbedding,
+    };
+    if (query.mode === VectorStoreQueryMode.SPARSE) {
+      return search(sparseVector, query.similarityTopK);
+    }
+    const [denseResult, sparseResult] = await Promise.all([
+      search(this.denseSearchVector(query), query.similarityTopK),
+      search(sparseVector, query.sparseTopK ?? query.similarityTopK),
+    ]);
+    return fuseHybridQueryResults(query, denseResult, sparseResult);
+  }
 
-    return this.parseToQueryResult(result);
+  private denseSearchVector(query: VectorStoreQuery): SearchVector {
+    if (!query.queryEmbedding) {
+      throw new Error("No query embedding provided");
+    }
+    return this.enableHybrid
+      ? { name: DENSE_VECTOR_NAME, vector: query.queryEmbedding }
+      : query.queryEmbedding;
   }
 
   /**
    * Qdrant filter builder
    * @param query The VectorStoreQuery to be used
    */
-  private async buildQueryFilter(query: VectorStoreQuery) {
-    if (!query.docIds && !query.queryStr) {
+  private async buildQueryFilter(
+    query: VectorStoreQuery,
+  ): Promise<QdrantFilter | null> {
+    if (!query.docIds && !query.filters) {
       return null;
     }
 
-    const mustConditions = [];
+    const mustConditions: QdrantCondition[] = [];
 
     if (query.docIds) {
       mustConditions.push({
@@ -304,33 +453,8 @@ export class QdrantVectorStore implements VectorStore {
       });
     }
 
-    if (!query.filters) {
-      return {
-        must: mustConditions,
-      };
-    }
-
-    const metadataFilters = query.filters.filters;
-
-    for (let i = 0; i < metadataFilters.length; i++) {
-      const filter = metadataFilters[i];
-
-      if (typeof filter.key === "number") {
-        mustConditions.push({
-          key: filter.key,
-          match: {
-            gt: filter.value,
-            lt: filter.value,
-          },
-        });
-      } else {
-        mustConditions.push({
-          key: filter.key,
-          match: {
-            value: filter.value,
-          },
-        });
-      }
+    if (query.filters) {
+      mustConditions.push(toQdrantFilter(query.filters));
     }
 
     return {
@@ -1,7 +1,7 @@
 import type { GenericFileSystem } from "@llamaindex/env";
 import { defaultFS, path } from "@llamaindex/env";
 import _ from "lodash";
-import type { BaseNode } from "../../Node.js";
+import type { BaseNode, Metadata, SparseEmbedding } from "../../Node.js";
 import {
   getTopKEmbeddings,
   getTopKEmbeddingsLearner,
@@ -9,12 +9,16 @@ import {
 } from "../../embeddings/utils.js";
 import { exists } from "../FileSystem.js";
 import { DEFAULT_PERSIST_DIR } from "../constants.js";
+import type { HNSWIndexOptions } from "./HNSWIndex.js";
+import { HNSWIndex } from "./HNSWIndex.js";
 import type {
+  MetadataFilters,
   VectorStore,
   VectorStoreQuery,
   VectorStoreQueryResult,
 } from "./types.js";
 import { VectorStoreQueryMode } from "./types.js";
+import { fuseHybridQueryResults, metadataMatchesFilters } from "./utils.js";
 
 const LEARNER_MODES = new Set<VectorStoreQueryMode>([
   VectorStoreQueryMode.SVM,
@@ -24,9 +28,32 @@ const LEARNER_MODES = new Set<VectorStoreQueryMode>([
 
 const MMR_MODE = VectorStoreQueryMode.MMR;
 
+export type SimpleVectorStoreOptions = {
+  // if set, an HNSW index is used for approximate nearest neighbour search in the default query mode
+  hnsw?: HNSWIndexOptions;
+};
+
+function sparseSimilarity(
+  queryWeights: Map<number, number>,
+  embedding: SparseEmbedding,
+): number {
+  let similarity = 0;
+  for (let i = 0; i < embedding.indices.length; i++) {
+    similarity +=
+      (queryWeights.get(embedding.indices[i]) ?? 0) * embedding.values[i];
+  }
+  return similarity;
+}
+
+function hnswIndexPath(persistPath: string): string {
+  return `${persistPath.replace(/\.json$/, "")}.hnsw.json`;
+}
+
 class SimpleVectorStoreData {
   embeddingDict: Record<string, number[]> = {};
   textIdToRefDocId: Record<string, string> = {};
+  metadataDict: Record<string, Metadata> = {};
+  sparseEmbeddingDict: Record<string, SparseEmbedding> = {};
 }
 
 export class SimpleVectorStore implements VectorStore {
@@ -34,18 +61,30 @@ export class SimpleVectorStore implements VectorStore {
   private data: SimpleVectorStoreData = new SimpleVectorStoreData();
   private fs: GenericFileSystem = defaultFS;
   private persistPath: string | undefined;
+  private index: HNSWIndex | undefined;
 
-  constructor(data?: SimpleVectorStoreData, fs?: GenericFileSystem) {
+  constructor(
+    data?: SimpleVectorStoreData,
+    fs?: GenericFileSystem,
+    options?: SimpleVectorStoreOptions,
+  ) {
     this.data = data || new SimpleVectorStoreData();
     this.fs = fs || defaultFS;
+    if (options?.hnsw) {
+      this.index = new HNSWIndex(options.hnsw);
+      for (const [id, embedding] of Object.entries(this.data.embeddingDict)) {
+        this.index.add(id, embedding);
+      }
+    }
   }
 
   static async fromPersistDir(
     persistDir: string = DEFAULT_PERSIST_DIR,
     fs: GenericFileSystem = defaultFS,
+    options?: SimpleVectorStoreOptions,
   ): Promise<SimpleVectorStore> {
     const persistPath = `${persistDir}/vector_store.json`;
-    return await SimpleVectorStore.fromPersistPath(persistPath, fs);
+    return await SimpleVectorStore.fromPersistPath(persistPath, fs, options);
   }
 
   get client(): any {
@@ -59,6 +98,13 @@ export class SimpleVectorStore implements VectorStore {
   async add(embeddingResults: BaseNode[]): Promise<string[]> {
     for (const node of embeddingResults) {
       this.data.embeddingDict[node.id_] = node.getEmbedding();
+      this.data.metadataDict[node.id_] = { ...node.metadata };
+      if (node.sparseEmbedding) {
+        this.data.sparseEmbeddingDict[node.id_] = node.sparseEmbedding;
+      } else {
+        delete this.data.sparseEmbeddingDict[node.id_];
+      }
+      this.index?.add(node.id_, node.getEmbedding());
 
       if (!node.sourceNode) {
         continue;
@@ -78,36 +124,84 @@ export class SimpleVectorStore implements VectorStore {
     const textIdsToDelete = Object.keys(this.data.textIdToRefDocId).filter(
       (textId) => this.data.textIdToRefDocId[textId] === refDocId,
     );
-    for (const textId of textIdsToDelete) {
+    await this.removeNodes(textIdsToDelete);
+  }
+
+  /**
+   * Deletes nodes by their ids and/or by metadata filters.
+   * If both are given, only nodes matching both are deleted.
+   * @param nodeIds ids of the nodes to delete
+   * @param filters metadata filters the nodes to delete must match
+   * @returns ids of the deleted nodes
+   */
+  async deleteNodes(
+    nodeIds?: string[],
+    filters?: MetadataFilters,
+  ): Promise<string[]> {
+    if (!nodeIds && !filters) {
+      throw new Error("Either nodeIds or filters must be provided.");
+    }
+    let textIdsToDelete = nodeIds ?? Object.keys(this.data.embeddingDict);
+    if (filters) {
+      textIdsToDelete = this.filterByMetadata(textIdsToDelete, filters);
+    }
+    textIdsToDelete = textIdsToDelete.filter(
+      (textId) => textId in this.data.embeddingDict,
+    );
+    await this.removeNodes(textIdsToDelete);
+    return textIdsToDelete;
+  }
+
+  private async removeNodes(textIds: string[]): Promise<void> {
+    for (const textId of textIds) {
       delete this.data.embeddingDict[textId];
       delete this.data.textIdToRefDocId[textId];
+      delete this.data.metadataDict[textId];
+      delete this.data.sparseEmbeddingDict[textId];
+      this.index?.delete(textId);
     }
     if (this.persistPath) {
       await this.persist(this.persistPath, this.fs);
     }
-    return Promise.resolve();
+  }
+
+  private filterByMetadata(
+    textIds: string[],
+    filters: MetadataFilters,
+  ): string[] {
+    return textIds.filter((textId) =>
+      metadataMatchesFilters(this.data.metadataDict[textId] ?? {}, filters),
+    );
   }
 
   async query(query: VectorStoreQuery): Promise<VectorStoreQueryResult> {
-    if (!_.isNil(query.filters)) {
-      throw new Error(
-        "Metadata filters not implemented for SimpleVectorStore yet.",
-      );
+    if (query.mode === VectorStoreQueryMode.HYBRID) {
+      const [denseResult, sparseResult] = await Promise.all([
+        this.query({ ...query, mode: VectorStoreQueryMode.DEFAULT }),
+        this.query({
+          ...query,
+          mode: VectorStoreQueryMode.SPARSE,
+          similarityTopK: query.sparseTopK ?? query.similarityTopK,
+        }),
+      ]);
+      return fuseHybridQueryResults(query, denseResult, sparseResult);
+    }
+    if (this.index && query.mode === VectorStoreQueryMode.DEFAULT) {
+      return this.queryIndex(this.index, query);
     }
 
-    const items = Object.entries(this.data.embeddingDict);
-
-    let nodeIds: string[], embeddings: number[][];
+    let nodeIds = Object.keys(this.data.embeddingDict);
     if (query.docIds) {
       const availableIds = new Set(query.docIds);
-      const queriedItems = items.filter((item) => availableIds.has(item[0]));
-      nodeIds = queriedItems.map((item) => item[0]);
-      embeddings = queriedItems.map((item) => item[1]);
-    } else {
-      // No docIds specified, so use all available items
-      nodeIds = items.map((item) => item[0]);
-      embeddings = items.map((item) => item[1]);
+      nodeIds = nodeIds.filter((nodeId) => availableIds.has(nodeId));
+    }
+    if (!_.isNil(query.filters)) {
+      nodeIds = this.filterByMetadata(nodeIds, query.filters);
+    }
+    if (query.mode === VectorStoreQueryMode.SPARSE) {
+      return this.querySparse(nodeIds, query);
     }
+    const embeddings = nodeIds.map((nodeId) => this.data.embeddingDict[nodeId]);
 
     const queryEmbedding = query.queryEmbedding!;
 
@@ -118,6 +212,7 @@ export class SimpleVectorStore implements VectorStore {
         embeddings,
         query.similarityTopK,
         nodeIds,
+        query.mode,
       );
     } else if (query.mode === MMR_MODE) {
       const mmrThreshold = query.mmrThreshold;
@@ -146,6 +241,57 @@ export class SimpleVectorStore implements VectorStore {
     });
   }
 
+  private querySparse(
+    nodeIds: string[],
+    query: VectorStoreQuery,
+  ): VectorStoreQueryResult {
+    if (!query.querySparseEmbedding) {
+      throw new Error("A query sparse embedding is required in sparse mode");
+    }
+    const { indices, values } = query.querySparseEmbedding;
+    const queryWeights = new Map(indices.map((index, i) => [index, values[i]]));
+    // nodes without sparse embedding can't be found by a sparse query
+    const scored = nodeIds
+      .filter((nodeId) => nodeId in this.data.sparseEmbeddingDict)
+      .map((nodeId) => ({
+        nodeId,
+        similarity: sparseSimilarity(
+          queryWeights,
+          this.data.sparseEmbeddingDict[nodeId],
+        ),
+      }))
+      .filter(({ similarity }) => similarity > 0)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, query.similarityTopK);
+    return {
+      similarities: scored.map(({ similarity }) => similarity),
+      ids: scored.map(({ nodeId }) => nodeId),
+    };
+  }
+
+  private queryIndex(
+    index: HNSWIndex,
+    query: VectorStoreQuery,
+  ): VectorStoreQueryResult {
+    let filter: ((nodeId: string) => boolean) | undefined;
+    if (query.docIds || !_.isNil(query.filters)) {
+      const candidateIds = query.docIds ?? Object.keys(this.data.embeddingDict);
+      const allowedIds = new Set(
+        _.isNil(query.filters)
+          ? candidateIds
+          : this.filterByMetadata(candidateIds, query.filters),
+      );
+      filter = (nodeId) => allowedIds.has(nodeId);
+    }
+
+    const [similarities, ids] = index.search(
+      query.queryEmbedding!,
+      query.similarityTopK,
+      filter,
+    );
+    return { similarities, ids };
+  }
+
   async persist(
     persistPath: string = `${DEFAULT_PERSIST_DIR}/vector_store.json`,
     fs?: GenericFileSystem,
@@ -157,11 +303,18 @@ export class SimpleVectorStore implements VectorStore {
     }
 
     await fs.writeFile(persistPath, JSON.stringify(this.data));
+    if (this.index) {
+      await fs.writeFile(
+        hnswIndexPath(persistPath),
+        JSON.stringify(this.index),
+      );
+    }
   }
 
   static async fromPersistPath(
     persistPath: string,
     fs: GenericFileSystem = defaultFS,
+    options?: SimpleVectorStoreOptions,
   ): Promise<SimpleVectorStore> {
     const dirPath = path.dirname(persistPath);
     if (!(await exists(fs, dirPath))) {
@@ -181,23 +334,48 @@ export class SimpleVectorStore implements VectorStore {
     const data = new SimpleVectorStoreData();
     data.embeddingDict = dataDict.embeddingDict ?? {};
     data.textIdToRefDocId = dataDict.textIdToRefDocId ?? {};
-    const store = new SimpleVectorStore(data);
+    data.metadataDict = dataDict.metadataDict ?? {};
+    data.sparseEmbeddingDict = dataDict.sparseEmbeddingDict ?? {};
+
+    let index: HNSWIndex | undefined;
+    if (options?.hnsw) {
+      try {
+        const indexData = await fs.readFile(hnswIndexPath(persistPath));
+        index = HNSWIndex.fromJSON(JSON.parse(indexData), options.hnsw);
+        if (index.size !== Object.keys(data.embeddingDict).length) {
+          // the index is outdated, it's rebuilt from the embeddings
+          index = undefined;
+        }
+      } catch (e) {
+        // no persisted index, it's built from the embeddings
+      }
+    }
+
+    const store = new SimpleVectorStore(data, fs, index ? undefined : options);
+    store.index = index ?? store.index;
     store.persistPath = persistPath;
     store.fs = fs;
     return store;
   }
 
-  static fromDict(saveDict: SimpleVectorStoreData): SimpleVectorStore {
+  static fromDict(
+    saveDict: SimpleVectorStoreData,
+    options?: SimpleVectorStoreOptions,
+  ): SimpleVectorStore {
     const data = new SimpleVectorStoreData();
     data.embeddingDict = saveDict.embeddingDict;
     data.textIdToRefDocId = saveDict.textIdToRefDocId;
-    return new SimpleVectorStore(data);
+    data.metadataDict = saveDict.metadataDict ?? {};
+    data.sparseEmbeddingDict = saveDict.sparseEmbeddingDict ?? {};
+    return new SimpleVectorStore(data, undefined, options);
   }
 
   toDict(): SimpleVectorStoreData {
     return {
       embeddingDict: this.data.embeddingDict,
       textIdToRefDocId: this.data.textIdToRefDocId,
+      metadataDict: this.data.metadataDict,
+      sparseEmbeddingDict: this.data.sparseEmbeddingDict,
     };
   }
 }
@@ -1,4 +1,4 @@
-import type { BaseNode } from "../../Node.js";
+import type { BaseNode, SparseEmbedding } from "../../Node.js";
 
 export interface VectorStoreQueryResult {
   nodes?: BaseNode[];
@@ -18,6 +18,48 @@ export enum VectorStoreQueryMode {
   MMR = "mmr",
 }
 
+export enum HybridFusionMode {
+  // scores of each result list are min-max normalized and combined using `alpha`
+  RELATIVE_SCORE = "relative_score",
+  // reciprocal rank fusion, only uses the rank of the results in each list
+  RECIPROCAL_RANK = "reciprocal_rank",
+}
+
+export enum FilterOperator {
+  EQ = "==", // default operator (string, number, boolean)
+  GT = ">", // greater than (number, string)
+  LT = "<", // less than (number, string)
+  NE = "!=", // not equal to (string, number, boolean)
+  GTE = ">=", // greater than or equal to (number, string)
+  LTE = "<=", // less than or equal to (number, string)
+  IN = "in", // metadata value is in the filter array
+  NIN = "nin", // metadata value is not in the filter array
+  CONTAINS = "contains", // metadata array contains the filter value
+  TEXT_MATCH = "text_match", // metadata string contains the filter value
+}
+
+export enum FilterCondition {
+  AND = "and",
+  OR = "or",
+  NOT = "not", // none of the filters match, i.e. NOT (f1 AND f2 ...)
+}
+
+export type MetadataFilterValue =
+  | string
+  | number
+  | boolean
+  | string[]
+  | number[];
+
+export interface MetadataFilter {
+  key: string;
+  value: MetadataFilterValue;
+  operator?: FilterOperator;
+}
+
+/**
+ * @deprecated use {@link MetadataFilter} with `FilterOperator.EQ` instead
+ */
 export interface ExactMatchFilter {
   filterType: "ExactMatch";
   key: string;
@@ -25,7 +67,8 @@ export interface ExactMatchFilter {
 }
 
 export interface MetadataFilters {
-  filters: ExactMatchFilter[];
+  filters: Array<MetadataFilter | ExactMatchFilter | MetadataFilters>;
+  condition?: FilterCondition;
 }
 
 export interface VectorStoreQuerySpec {
@@ -51,7 +94,13 @@ export interface VectorStoreQuery {
   docIds?: string[];
   queryStr?: string;
   mode: VectorStoreQueryMode;
+  // sparse embedding of the query, used in SPARSE and HYBRID mode
+  querySparseEmbedding?: SparseEmbedding;
+  // number of sparse results to fuse in HYBRID mode, defaults to similarityTopK
+  sparseTopK?: number;
+  // weight of the dense scores in HYBRID mode: 1 is pure dense, 0 is pure sparse
   alpha?: number;
+  hybridFusionMode?: HybridFusionMode;
   filters?: MetadataFilters;
   mmrThreshold?: number;
 }
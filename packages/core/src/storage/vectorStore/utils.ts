@@ -1,7 +1,19 @@
 import type { BaseNode, Metadata } from "../../Node.js";
 import { ObjectType, jsonToNode } from "../../Node.js";
+import type {
+  ExactMatchFilter,
+  MetadataFilter,
+  MetadataFilterValue,
+  MetadataFilters,
+  VectorStoreQuery,
+  VectorStoreQueryResult,
+} from "./types.js";
+import { FilterCondition, FilterOperator, HybridFusionMode } from "./types.js";
 
 const DEFAULT_TEXT_KEY = "text";
+const DEFAULT_HYBRID_ALPHA = 0.5;
+// constant of the reciprocal rank fusion, see https://plg.uwaterloo.ca/~gvcormac/cormacksigir09-rrf.pdf
+export const RECIPROCAL_RANK_K = 60;
 
 export function validateIsFlat(obj: { [key: string]: any }): void {
   for (const key in obj) {
@@ -17,7 +29,8 @@ export function nodeToMetadata(
   textField: string = DEFAULT_TEXT_KEY,
   flatMetadata: boolean = false,
 ): Metadata {
-  const { metadata, embedding, ...rest } = node.toMutableJSON();
+  const { metadata, embedding, sparseEmbedding, ...rest } =
+    node.toMutableJSON();
 
   if (flatMetadata) {
     validateIsFlat(metadata);
@@ -77,3 +90,286 @@ export function metadataDictToNode(
       return jsonToNode(nodeObj, ObjectType.TEXT);
   }
 }
+
+export function isMetadataFilters(
+  filter: MetadataFilter | ExactMatchFilter | MetadataFilters,
+): filter is MetadataFilters {
+  return "filters" in filter;
+}
+
+/**
+ * Converts a legacy `ExactMatchFilter` or a filter without operator into a
+ * filter with an explicit operator (defaults to `FilterOperator.EQ`).
+ */
+export function normalizeMetadataFilter(
+  filter: MetadataFilter | ExactMatchFilter,
+): Required<MetadataFilter> {
+  return {
+    key: filter.key,
+    value: filter.value,
+    operator: ("operator" in filter && filter.operator) || FilterOperator.EQ,
+  };
+}
+
+const NEGATED_OPERATORS: Partial<Record<FilterOperator, FilterOperator>> = {
+  [FilterOperator.EQ]: FilterOperator.NE,
+  [FilterOperator.NE]: FilterOperator.EQ,
+  [FilterOperator.GT]: FilterOperator.LTE,
+  [FilterOperator.GTE]: FilterOperator.LT,
+  [FilterOperator.LT]: FilterOperator.GTE,
+  [FilterOperator.LTE]: FilterOperator.GT,
+  [FilterOperator.IN]: FilterOperator.NIN,
+  [FilterOperator.NIN]: FilterOperator.IN,
+};
+
+function negateMetadataFilter(
+  filter: MetadataFilter | ExactMatchFilter,
+): MetadataFilter {
+  const { key, value, operator } = normalizeMetadataFilter(filter);
+  const negated = NEGATED_OPERATORS[operator];
+  if (!negated) {
+    throw new Error(`Filter operator "${operator}" can't be negated.`);
+  }
+  return { key, value, operator: negated };
+}
+
+/**
+ * Rewrites `FilterCondition.NOT` using De Morgan's laws so that the result only
+ * uses AND/OR conditions. Used by stores whose filter language has no NOT.
+ * Note: negated comparisons (e.g. NOT (a > 1) => a <= 1) only match nodes
+ * that have the metadata key.
+ */
+export function pushDownNegation(
+  filters: MetadataFilters,
+  negate: boolean = false,
+): MetadataFilters {
+  const condition = filters.condition ?? FilterCondition.AND;
+  if (condition === FilterCondition.NOT) {
+    return pushDownNegation({ filters: filters.filters }, !negate);
+  }
+  if (!negate) {
+    return {
+      condition,
+      filters: filters.filters.map((filter) =>
+        isMetadataFilters(filter) ? pushDownNegation(filter) : filter,
+      ),
+    };
+  }
+  return {
+    condition:
+      condition === FilterCondition.OR
+        ? FilterCondition.AND
+        : FilterCondition.OR,
+    filters: filters.filters.map((filter) =>
+      isMetadataFilters(filter)
+        ? pushDownNegation(filter, true)
+        : negateMetadataFilter(filter),
+    ),
+  };
+}
+
+function isComparable(a: unknown, b: unknown): boolean {
+  return (
+    typeof a === typeof b && (typeof a === "number" || typeof a === "string")
+  );
+}
+
+function metadataMatchesFilter(
+  metadata: Metadata,
+  { key, value, operator }: Required<MetadataFilter>,
+): boolean {
+  const metadataValue = metadata[key];
+  switch (operator) {
+    case FilterOperator.EQ:
+      return metadataValue === value;
+    case FilterOperator.NE:
+      return metadataValue !== value;
+    case FilterOperator.GT:
+      return isComparable(metadataValue, value) && metadataValue > value;
+    case FilterOperator.GTE:
+      return isComparable(metadataValue, value) && metadataValue >= value;
+    case FilterOperator.LT:
+      return isComparable(metadataValue, value) && metadataValue < value;
+    case FilterOperator.LTE:
+      return isComparable(metadataValue, value) && metadataValue <= value;
+    case FilterOperator.IN:
+      return Array.isArray(value) && value.some((v) => v === metadataValue);
+    case FilterOperator.NIN:
+      return Array.isArray(value) && !value.some((v) => v === metadataValue);
+    case FilterOperator.CONTAINS:
+      return Array.isArray(metadataValue) && metadataValue.includes(value);
+    case FilterOperator.TEXT_MATCH:
+      return (
+        typeof metadataValue === "string" &&
+        typeof value === "string" &&
+        metadataValue.includes(value)
+      );
+    default:
+      throw new Error(`Unsupported filter operator: ${operator}`);
+  }
+}
+
+/**
+ * Evaluates metadata filters against the metadata of a node.
+ * This is the reference behaviour that the filter translators of the vector
+ * stores follow.
+ */
+export function metadataMatchesFilters(
+  metadata: Metadata,
+  filters: MetadataFilters,
+): boolean {
+  const matches = (
+    filter: MetadataFilter | ExactMatchFilter | MetadataFilters,
+  ) =>
+    isMetadataFilters(filter)
+      ? metadataMatchesFilters(metadata, filter)
+      : metadataMatchesFilter(metadata, normalizeMetadataFilter(filter));
+
+  switch (filters.condition ?? FilterCondition.AND) {
+    case FilterCondition.OR:
+      return filters.filters.some(matches);
+    case FilterCondition.NOT:
+      return !filters.filters.every(matches);
+    default:
+      return filters.filters.every(matches);
+  }
+}
+
+const MONGO_OPERATORS: Partial<Record<FilterOperator, string>> = {
+  [FilterOperator.EQ]: "$eq",
+  [FilterOperator.NE]: "$ne",
+  [FilterOperator.GT]: "$gt",
+  [FilterOperator.GTE]: "$gte",
+  [FilterOperator.LT]: "$lt",
+  [FilterOperator.LTE]: "$lte",
+  [FilterOperator.IN]: "$in",
+  [FilterOperator.NIN]: "$nin",
+};
+
+export type MongoLikeFilterOptions = {
+  // name of the vector store, used in error messages
+  storeName: string;
+  // builds `NOT clause`, if not set, negations are pushed down to the filters
+  not?: (clause: Record<string, any>) => Record<string, any>;
+  // builds the condition for `FilterOperator.CONTAINS`, unsupported if not set
+  contains?: (value: MetadataFilterValue) => Record<string, any>;
+};
+
+function toMongoLikeClause(
+  filters: MetadataFilters,
+  options: MongoLikeFilterOptions,
+): Record<string, any> | undefined {
+  const clauses = filters.filters
+    .map((filter) =>
+      isMetadataFilters(filter)
+        ? toMongoLikeClause(filter, options)
+        : toMongoLikeCondition(normalizeMetadataFilter(filter), options),
+    )
+    .filter((clause): clause is Record<string, any> => clause !== undefined);
+  if (clauses.length === 0) {
+    return undefined;
+  }
+
+  const condition = filters.condition ?? FilterCondition.AND;
+  const operator = condition === FilterCondition.OR ? "$or" : "$and";
+  const clause = clauses.length === 1 ? clauses[0] : { [operator]: clauses };
+  return condition === FilterCondition.NOT ? options.not!(clause) : clause;
+}
+
+function toMongoLikeCondition(
+  { key, value, operator }: Required<MetadataFilter>,
+  options: MongoLikeFilterOptions,
+): Record<string, any> {
+  if (operator === FilterOperator.CONTAINS && options.contains) {
+    return { [key]: options.contains(value) };
+  }
+  const mongoOperator = MONGO_OPERATORS[operator];
+  if (!mongoOperator) {
+    throw new Error(
+      `${options.storeName} does not support the "${operator}" filter operator.`,
+    );
+  }
+  return { [key]: { [mongoOperator]: value } };
+}
+
+/**
+ * Translates metadata filters into the MongoDB-like query language
+ * (`$and`, `$or`, `$eq`, `$in`, ...) that is used by several vector stores.
+ * @returns the filter or undefined if there are no filters
+ */
+export function toMongoLikeFilter(
+  filters: MetadataFilters | undefined,
+  options: MongoLikeFilterOptions,
+): Record<string, any> | undefined {
+  if (!filters) {
+    return undefined;
+  }
+  return toMongoLikeClause(
+    options.not ? filters : pushDownNegation(filters),
+    options,
+  );
+}
+
+/**
+ * The score of the result at `rank` (starting at 0) in reciprocal rank fusion.
+ */
+export function reciprocalRankScore(rank: number): number {
+  return 1 / (RECIPROCAL_RANK_K + rank + 1);
+}
+
+/**
+ * Min-max normalizes the scores of a result list to [0, 1].
+ * Equal scores are all normalized to 1.
+ */
+export function relativeScores(similarities: number[]): number[] {
+  const max = Math.max(...similarities);
+  const min = Math.min(...similarities);
+  if (max === min) {
+    return similarities.map(() => 1);
+  }
+  return similarities.map((similarity) => (similarity - min) / (max - min));
+}
+
+/**
+ * Fuses the results of the dense and the sparse query of a HYBRID query.
+ * With `HybridFusionMode.RELATIVE_SCORE` (default), the scores of both lists
+ * are min-max normalized and weighted by `query.alpha` (dense) and
+ * `1 - query.alpha` (sparse). With `HybridFusionMode.RECIPROCAL_RANK` only the
+ * ranks are used and `query.alpha` is ignored.
+ * @returns the `query.similarityTopK` best results
+ */
+export function fuseHybridQueryResults(
+  query: VectorStoreQuery,
+  denseResult: VectorStoreQueryResult,
+  sparseResult: VectorStoreQueryResult,
+): VectorStoreQueryResult {
+  const alpha = query.alpha ?? DEFAULT_HYBRID_ALPHA;
+  const fusionMode = query.hybridFusionMode ?? HybridFusionMode.RELATIVE_SCORE;
+  const scores = new Map<string, number>();
+  const nodes = new Map<string, BaseNode>();
+
+  const addResult = (result: VectorStoreQueryResult, weight: number) => {
+    const fusedScores =
+      fusionMode === HybridFusionMode.RECIPROCAL_RANK
+        ? result.ids.map((_, rank) => reciprocalRankScore(rank))
+        : relativeScores(result.similarities).map((score) => score * weight);
+    result.ids.forEach((id, i) => {
+      scores.set(id, (scores.get(id) ?? 0) + fusedScores[i]);
+      const node = result.nodes?.[i];
+      if (node && !nodes.has(id)) {
+        nodes.set(id, node);
+      }
+    });
+  };
+  addResult(denseResult, alpha);
+  addResult(sparseResult, 1 - alpha);
+
+  const ids = [...scores.keys()]
+    .sort((a, b) => scores.get(b)! - scores.get(a)!)
+    .slice(0, query.similarityTopK);
+  return {
+    ...(nodes.size > 0 && { nodes: ids.map((id) => nodes.get(id)!) }),
+    similarities: ids.map((id) => scores.get(id)!),
+    ids,
+  };
+}
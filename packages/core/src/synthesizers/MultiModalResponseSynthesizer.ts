@@ -3,6 +3,7 @@ import { MetadataMode, splitNodesByType } from "../Node.js";
 import { Response } from "../Response.js";
 import type { ServiceContext } from "../ServiceContext.js";
 import { serviceContextFromDefaults } from "../ServiceContext.js";
+import { traceEvent } from "../callbacks/CallbackManager.js";
 import { imageToDataUrl } from "../embeddings/index.js";
 import type { MessageContentDetail } from "../llm/types.js";
 import { PromptMixin } from "../prompts/Mixin.js";
@@ -63,32 +64,38 @@ export class MultiModalResponseSynthesizer
     if (stream) {
       throw new Error("streaming not implemented");
     }
-    const nodes = nodesWithScore.map(({ node }) => node);
-    const { imageNodes, textNodes } = splitNodesByType(nodes);
-    const textChunks = textNodes.map((node) =>
-      node.getContent(this.metadataMode),
+    return traceEvent(
+      this.serviceContext.callbackManager,
+      { type: "synthesize", parentEvent, input: { query, nodesWithScore } },
+      async (event) => {
+        const nodes = nodesWithScore.map(({ node }) => node);
+        const { imageNodes, textNodes } = splitNodesByType(nodes);
+        const textChunks = textNodes.map((node) =>
+          node.getContent(this.metadataMode),
+        );
+        // TODO: use builders to generate context
+        const context = textChunks.join("\n\n");
+        const textPrompt = this.textQATemplate({ context, query });
+        const images = await Promise.all(
+          imageNodes.map(async (node: ImageNode) => {
+            return {
+              type: "image_url",
+              image_url: {
+                url: await imageToDataUrl(node.image),
+              },
+            } as MessageContentDetail;
+          }),
+        );
+        const prompt: MessageContentDetail[] = [
+          { type: "text", text: textPrompt },
+          ...images,
+        ];
+        const response = await this.serviceContext.llm.complete({
+          prompt,
+          parentEvent: event,
+        });
+        return new Response(response.text, nodesWithScore);
+      },
     );
-    // TODO: use builders to generate context
-    const context = textChunks.join("\n\n");
-    const textPrompt = this.textQATemplate({ context, query });
-    const images = await Promise.all(
-      imageNodes.map(async (node: ImageNode) => {
-        return {
-          type: "image_url",
-          image_url: {
-            url: await imageToDataUrl(node.image),
-          },
-        } as MessageContentDetail;
-      }),
-    );
-    const prompt: MessageContentDetail[] = [
-      { type: "text", text: textPrompt },
-      ...images,
-    ];
-    const response = await this.serviceContext.llm.complete({
-      prompt,
-      parentEvent,
-    });
-    return new Response(response.text, nodes);
   }
 }
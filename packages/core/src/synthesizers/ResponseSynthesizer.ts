@@ -2,6 +2,7 @@ import { MetadataMode } from "../Node.js";
 import { Response } from "../Response.js";
 import type { ServiceContext } from "../ServiceContext.js";
 import { serviceContextFromDefaults } from "../ServiceContext.js";
+import { traceEvent } from "../callbacks/CallbackManager.js";
 import { streamConverter } from "../llm/utils.js";
 import { PromptMixin } from "../prompts/Mixin.js";
 import type { ResponseBuilderPrompts } from "./builders.js";
@@ -70,24 +71,32 @@ export class ResponseSynthesizer
   }: SynthesizeParamsStreaming | SynthesizeParamsNonStreaming): Promise<
     AsyncIterable<Response> | Response
   > {
-    const textChunks: string[] = nodesWithScore.map(({ node }) =>
-      node.getContent(this.metadataMode),
+    return traceEvent(
+      this.serviceContext.callbackManager,
+      { type: "synthesize", parentEvent, input: { query, nodesWithScore } },
+      async (event) => {
+        const textChunks: string[] = nodesWithScore.map(({ node }) =>
+          node.getContent(this.metadataMode),
+        );
+        if (stream) {
+          const response = await this.responseBuilder.getResponse({
+            query,
+            textChunks,
+            parentEvent: event,
+            stream,
+          });
+          return streamConverter(
+            response,
+            (chunk) => new Response(chunk, nodesWithScore),
+          );
+        }
+        const response = await this.responseBuilder.getResponse({
+          query,
+          textChunks,
+          parentEvent: event,
+        });
+        return new Response(response, nodesWithScore);
+      },
     );
-    const nodes = nodesWithScore.map(({ node }) => node);
-    if (stream) {
-      const response = await this.responseBuilder.getResponse({
-        query,
-        textChunks,
-        parentEvent,
-        stream,
-      });
-      return streamConverter(response, (chunk) => new Response(chunk, nodes));
-    }
-    const response = await this.responseBuilder.getResponse({
-      query,
-      textChunks,
-      parentEvent,
-    });
-    return new Response(response, nodes);
   }
 }
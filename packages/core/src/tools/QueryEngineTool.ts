@@ -1,3 +1,4 @@
+import type { Event } from "../callbacks/CallbackManager.js";
 import type { BaseQueryEngine, BaseTool, ToolMetadata } from "../types.js";
 
 export type QueryEngineToolParams = {
@@ -7,6 +8,7 @@ export type QueryEngineToolParams = {
 
 type QueryEngineCallParams = {
   query: string;
+  parentEvent?: Event;
 };
 
 const DEFAULT_NAME = "query_engine_tool";
@@ -47,7 +49,10 @@ export class QueryEngineTool implements BaseTool {
       );
     }
 
-    const response = await this.queryEngine.query({ query: queryStr });
+    const response = await this.queryEngine.query({
+      query: queryStr,
+      parentEvent: args[0].parentEvent,
+    });
 
     return response.response;
   }
@@ -1,24 +1,53 @@
-import type { BaseTool, ToolMetadata } from "../types.js";
+import type { BaseTool, ToolMetadata, ToolParameters } from "../types.js";
+import type { ZodTypeLike } from "./schema.js";
+import {
+  ToolArgumentsError,
+  isZodSchema,
+  validateJSONSchema,
+  zodToJSONSchema,
+} from "./schema.js";
 
-type Metadata = {
+type Metadata<T> = {
   name: string;
   description: string;
-  parameters: ToolMetadata["parameters"];
+  // a JSON Schema or a Zod schema of the arguments
+  parameters?: ToolParameters | ZodTypeLike<T>;
 };
 
-export class FunctionTool<T = any> implements BaseTool {
-  private _fn: (...args: any[]) => any;
+/**
+ * A tool calling a function with the arguments generated by the LLM.
+ * The arguments are validated against the parameters of the tool first.
+ *
+ * @example
+ * const sumTool = new FunctionTool(({ a, b }) => a + b, {
+ *   name: "sumNumbers",
+ *   description: "Use this function to sum two numbers",
+ *   parameters: z.object({ a: z.number(), b: z.number() }),
+ * });
+ */
+export class FunctionTool<T = any, R = any> implements BaseTool {
+  private _fn: (input: T) => R | Promise<R>;
   private _metadata: ToolMetadata;
+  private _zodSchema?: ZodTypeLike<T>;
 
-  constructor(fn: (...args: any[]) => any, metadata: Metadata) {
+  constructor(fn: (input: T) => R | Promise<R>, metadata: Metadata<T>) {
     this._fn = fn;
-    this._metadata = metadata as ToolMetadata;
+    const { parameters, ...rest } = metadata;
+    if (isZodSchema(parameters)) {
+      this._zodSchema = parameters;
+      this._metadata = {
+        ...rest,
+        parameters: zodToJSONSchema(parameters) as ToolParameters,
+      };
+    } else {
+      this._metadata = { ...rest, parameters };
+    }
   }
 
-  static fromDefaults<T = any>(
-    fn: (...args: any[]) => any,
-    metadata?: Metadata,
-  ): FunctionTool<T> {
+  static fromDefaults<T = any, R = any>(
+    fn: (input: T) => R | Promise<R>,
+    metadata?: Metadata<T>,
+  ): FunctionTool<T, R> {
     return new FunctionTool(fn, metadata!);
   }
 
@@ -26,7 +55,44 @@ export class FunctionTool<T = any> implements BaseTool {
     return this._metadata;
   }
 
-  async call(...args: any[]): Promise<any> {
-    return this._fn(...args);
+  /**
+   * Validates and coerces the arguments of a call.
+   * @throws ToolArgumentsError if the arguments don't match the parameters
+   */
+  validate(input: unknown): T {
+    const message = `Invalid arguments for tool ${this._metadata.name}`;
+    if (this._zodSchema) {
+      const result = this._zodSchema.safeParse(input);
+      if (!result.success) {
+        throw new ToolArgumentsError(
+          message,
+          result.error.issues.map((issue) => ({
+            path: issue.path
+              .map((key) =>
+                typeof key === "number" ? `[${key}]` : `.${String(key)}`,
+              )
+              .join("")
+              .replace(/^\./, ""),
+            message: issue.message,
+          })),
+        );
+      }
+      return result.data;
+    }
+    if (!this._metadata.parameters) {
+      return input as T;
+    }
+    const { value, issues } = validateJSONSchema(
+      this._metadata.parameters,
+      input,
+    );
+    if (issues.length > 0) {
+      throw new ToolArgumentsError(message, issues);
+    }
+    return value as T;
+  }
+
+  async call(input: T): Promise<R> {
+    return this._fn(this.validate(input));
   }
 }
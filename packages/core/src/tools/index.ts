@@ -1,4 +1,5 @@
 export * from "./QueryEngineTool.js";
 export * from "./functionTool.js";
+export * from "./schema.js";
 export * from "./types.js";
 export * from "./utils.js";
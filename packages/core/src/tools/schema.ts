@@ -0,0 +1,357 @@
+import type { JSONSchema } from "../types.js";
+
+export type ValidationIssue = {
+  // e.g. `items[0].name`, empty for the arguments themselves
+  path: string;
+  message: string;
+};
+
+/**
+ * Error for tool arguments that are not valid JSON or don't match the
+ * parameters of the tool. Its issues are sent back to the LLM, so it can fix them.
+ */
+export class ToolArgumentsError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[] = []) {
+    super(message);
+    this.name = "ToolArgumentsError";
+    this.issues = issues;
+  }
+
+  toJSON() {
+    return { error: this.message, issues: this.issues };
+  }
+}
+
+/**
+ * The parts of a Zod 3 or Zod 4 schema that are used for tools, so that the
+ * `zod` package is not needed by llamaindex.
+ */
+export type ZodTypeLike<T = any> = {
+  // the internals of Zod 3 and Zod 4 schemas
+  _def?: Record<string, any>;
+  _zod?: object;
+  description?: string;
+  // Zod 4 schemas convert themselves to JSON Schema
+  toJSONSchema?(params: {
+    target?: string;
+    io?: "input" | "output";
+    unrepresentable?: "throw" | "any";
+  }): object;
+  safeParse(data: unknown):
+    | { success: true; data: T }
+    | {
+        success: false;
+        error: { issues: { path: PropertyKey[]; message: string }[] };
+      };
+};
+
+export function isZodSchema(schema: unknown): schema is ZodTypeLike {
+  return (
+    typeof schema === "object" &&
+    schema !== null &&
+    ("_def" in schema || "_zod" in schema) &&
+    typeof (schema as ZodTypeLike).safeParse === "function"
+  );
+}
+
+function isOptionalZodSchema(schema: ZodTypeLike): boolean {
+  const typeName = schema._def?.typeName;
+  return typeName === "ZodOptional" || typeName === "ZodDefault";
+}
+
+/**
+ * Converts a Zod schema to the JSON Schema sent to the LLM.
+ * Types without a JSON Schema equivalent (e.g. functions) accept any value.
+ */
+export function zodToJSONSchema(schema: ZodTypeLike): JSONSchema {
+  if (schema.toJSONSchema) {
+    // the input of the schema, so that fields with defaults aren't required
+    const { $schema, ...jsonSchema } = schema.toJSONSchema({
+      target: "draft-07",
+      io: "input",
+      unrepresentable: "any",
+    }) as JSONSchema & { $schema?: string };
+    return jsonSchema;
+  }
+  if (schema._zod) {
+    throw new Error(
+      "This Zod schema can't be converted to JSON Schema, use a schema from `zod` instead of `zod/mini`, or pass `z.toJSONSchema(schema)` as the parameters",
+    );
+  }
+  return zod3ToJSONSchema(schema);
+}
+
+function zod3ToJSONSchema(schema: ZodTypeLike): JSONSchema {
+  const def = schema._def ?? {};
+  let jsonSchema: JSONSchema;
+  switch (def.typeName) {
+    case "ZodString":
+      jsonSchema = { type: "string" };
+      break;
+    case "ZodNumber":
+      jsonSchema = {
+        type: def.checks?.some(
+          (check: { kind: string }) => check.kind === "int",
+        )
+          ? "integer"
+          : "number",
+      };
+      break;
+    case "ZodBoolean":
+      jsonSchema = { type: "boolean" };
+      break;
+    case "ZodNull":
+      jsonSchema = { type: "null" };
+      break;
+    case "ZodLiteral":
+      jsonSchema = { type: typeof def.value, enum: [def.value] };
+      break;
+    case "ZodEnum":
+      jsonSchema = { type: "string", enum: def.values };
+      break;
+    case "ZodNativeEnum":
+      // numeric enums map their values to their names too
+      jsonSchema = {
+        enum: Object.entries(def.values)
+          .filter(([key]) => isNaN(Number(key)))
+          .map(([, value]) => value),
+      };
+      break;
+    case "ZodArray":
+      jsonSchema = { type: "array", items: zod3ToJSONSchema(def.type) };
+      break;
+    case "ZodObject": {
+      const shape: Record<string, ZodTypeLike> = def.shape();
+      const required = Object.keys(shape).filter(
+        (key) => !isOptionalZodSchema(shape[key]),
+      );
+      jsonSchema = {
+        type: "object",
+        properties: Object.fromEntries(
+          Object.entries(shape).map(([key, value]) => [
+            key,
+            zod3ToJSONSchema(value),
+          ]),
+        ),
+        ...(required.length > 0 && { required }),
+      };
+      break;
+    }
+    case "ZodRecord":
+      jsonSchema = {
+        type: "object",
+        additionalProperties: zod3ToJSONSchema(def.valueType),
+      };
+      break;
+    case "ZodUnion":
+      jsonSchema = { anyOf: def.options.map(zod3ToJSONSchema) };
+      break;
+    case "ZodOptional":
+      jsonSchema = zod3ToJSONSchema(def.innerType);
+      break;
+    case "ZodNullable":
+      jsonSchema = {
+        anyOf: [zod3ToJSONSchema(def.innerType), { type: "null" }],
+      };
+      break;
+    case "ZodDefault":
+      jsonSchema = {
+        ...zod3ToJSONSchema(def.innerType),
+        default: def.defaultValue(),
+      };
+      break;
+    case "ZodEffects":
+      jsonSchema = zod3ToJSONSchema(def.schema);
+      break;
+    default:
+      jsonSchema = {};
+  }
+  const description = schema.description ?? def.description;
+  return description ? { ...jsonSchema, description } : jsonSchema;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeOf(value) === "object";
+}
+
+function parseJSON(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Coerces a value generated by a LLM to a JSON Schema type, e.g. `"5"` to `5`.
+ * @returns the coerced value, or undefined if the value has another type
+ */
+function coerce(value: unknown, type: string): { value: unknown } | undefined {
+  switch (type) {
+    case "string":
+      if (typeof value === "string") {
+        return { value };
+      }
+      if (typeof value === "number" || typeof value === "boolean") {
+        return { value: String(value) };
+      }
+      return undefined;
+    case "number":
+    case "integer": {
+      const number =
+        typeof value === "string" && value.trim() !== ""
+          ? Number(value)
+          : value;
+      if (typeof number !== "number" || !isFinite(number)) {
+        return undefined;
+      }
+      return type === "number" || Number.isInteger(number)
+        ? { value: number }
+        : undefined;
+    }
+    case "boolean":
+      if (typeof value === "boolean") {
+        return { value };
+      }
+      if (value === "true" || value === "false") {
+        return { value: value === "true" };
+      }
+      return undefined;
+    case "null":
+      return value === null || value === "null" ? { value: null } : undefined;
+    case "object":
+    case "array": {
+      // nested values are sometimes sent as JSON strings
+      const parsed = typeof value === "string" ? parseJSON(value) : value;
+      return typeOf(parsed) === type ? { value: parsed } : undefined;
+    }
+    default:
+      return { value };
+  }
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+function validate(
+  schema: JSONSchema,
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+): unknown {
+  if (value === undefined && schema.default !== undefined) {
+    return schema.default;
+  }
+
+  if (schema.anyOf) {
+    for (const option of schema.anyOf) {
+      const optionIssues: ValidationIssue[] = [];
+      const result = validate(option, value, path, optionIssues);
+      if (optionIssues.length === 0) {
+        return result;
+      }
+    }
+    issues.push({ path, message: "doesn't match any of the allowed schemas" });
+    return value;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    // prefer the type of the value to coercing it to another type
+    const coerced =
+      types
+        .filter((type) => type === typeOf(value))
+        .map((type) => coerce(value, type))
+        .find(Boolean) ??
+      types.map((type) => coerce(value, type)).find(Boolean);
+    if (!coerced) {
+      issues.push({
+        path,
+        message: `expected ${types.join(" or ")}, got ${typeOf(value)}`,
+      });
+      return value;
+    }
+    value = coerced.value;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({
+      path,
+      message: `expected one of ${schema.enum
+        .map((option) => JSON.stringify(option))
+        .join(", ")}, got ${JSON.stringify(value)}`,
+    });
+    return value;
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    return value.map((item, index) =>
+      validate(items, item, joinPath(path, index), issues),
+    );
+  }
+
+  if (isPlainObject(value) && (schema.properties || schema.required)) {
+    const properties = schema.properties ?? {};
+    const result: Record<string, unknown> = {};
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined && properties[key]?.default === undefined) {
+        issues.push({ path: joinPath(path, key), message: "is required" });
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertySchema = properties[key];
+      if (propertySchema) {
+        result[key] = validate(
+          propertySchema,
+          propertyValue,
+          joinPath(path, key),
+          issues,
+        );
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: joinPath(path, key), message: "is not allowed" });
+      } else {
+        result[key] = propertyValue;
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(properties)) {
+      if (result[key] === undefined && propertySchema.default !== undefined) {
+        result[key] = propertySchema.default;
+      }
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Validates a value against a JSON Schema.
+ * Supports nested objects, arrays, enums and `anyOf`, and coerces values of
+ * the wrong type when possible, e.g. `"5"` for a number.
+ * @returns the coerced value and the validation issues
+ */
+export function validateJSONSchema(
+  schema: JSONSchema,
+  value: unknown,
+): { value: unknown; issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = [];
+  const result = validate(schema, value, "", issues);
+  return { value: result, issues };
+}
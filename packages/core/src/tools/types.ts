@@ -3,6 +3,8 @@ export class ToolOutput {
   toolName: string;
   rawInput: any;
   rawOutput: any;
+  // the call failed, `rawOutput` is the error
+  isError: boolean = false;
 
   constructor(
     content: string,
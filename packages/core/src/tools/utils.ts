@@ -1,33 +1,51 @@
 import type { BaseTool } from "../types.js";
+import { ToolArgumentsError } from "./schema.js";
 import { ToolOutput } from "./types.js";
 
+function parseArguments(input: string): { [key: string]: any } {
+  if (!input.trim()) {
+    return {};
+  }
+  try {
+    return JSON.parse(input);
+  } catch (e) {
+    throw new ToolArgumentsError(`Arguments are not valid JSON: ${e}`);
+  }
+}
+
 /**
  * Call tool with error handling.
  * @param tool: tool
- * @param inputDict: input dict
+ * @param input: input dict, or the arguments as JSON string
  * @param errorMessage: error message
  * @param raiseError: raise error
  * @returns: tool output
  */
 export async function callToolWithErrorHandling(
   tool: BaseTool,
-  inputDict: { [key: string]: any },
+  input: { [key: string]: any } | string,
   errorMessage: string | null = null,
   raiseError: boolean = false,
 ): Promise<ToolOutput> {
   try {
+    const inputDict = typeof input === "string" ? parseArguments(input) : input;
     const value = await tool.call?.(inputDict);
     return new ToolOutput(value, tool.metadata.name, inputDict, value);
   } catch (e) {
     if (raiseError) {
       throw e;
     }
-    errorMessage = errorMessage || `Error: ${e}`;
-    return new ToolOutput(
-      errorMessage,
+    // send the validation issues to the LLM, so it can fix its arguments
+    if (!errorMessage && e instanceof ToolArgumentsError) {
+      errorMessage = JSON.stringify(e);
+    }
+    const output = new ToolOutput(
+      errorMessage || `Error: ${e}`,
       tool.metadata.name,
-      { kwargs: inputDict },
+      { kwargs: input },
       e,
     );
+    output.isError = true;
+    return output;
   }
 }
@@ -57,10 +57,25 @@ export interface StructuredOutput<T> {
   parsedOutput: T;
 }
 
-export type ToolParameters = {
-  type: string | "object";
-  properties: Record<string, { type: string; description?: string }>;
+/**
+ * A JSON Schema, e.g. to describe the parameters of a tool
+ */
+export type JSONSchema = {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JSONSchema>;
   required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  enum?: unknown[];
+  anyOf?: JSONSchema[];
+  default?: unknown;
+  [key: string]: unknown;
+};
+
+export type ToolParameters = JSONSchema & {
+  type: string | "object";
+  properties: Record<string, JSONSchema>;
 };
 
 export interface ToolMetadata {
@@ -12,10 +12,15 @@ import { Document } from "llamaindex/Node";
 import type { ServiceContext } from "llamaindex/ServiceContext";
 import { serviceContextFromDefaults } from "llamaindex/ServiceContext";
 import type {
+  EventStartCallbackResponse,
   RetrievalCallbackResponse,
   StreamCallbackResponse,
 } from "llamaindex/callbacks/CallbackManager";
-import { CallbackManager } from "llamaindex/callbacks/CallbackManager";
+import {
+  CallbackManager,
+  traceEvent,
+} from "llamaindex/callbacks/CallbackManager";
+import { TraceRecorder } from "llamaindex/callbacks/TraceRecorder";
 import { OpenAIEmbedding } from "llamaindex/embeddings/index";
 import { SummaryIndex } from "llamaindex/indices/summary/index";
 import { VectorStoreIndex } from "llamaindex/indices/vectorStore/index";
@@ -37,6 +42,7 @@ describe("CallbackManager: onLLMStream and onRetrieve", () => {
   let serviceContext: ServiceContext;
   let streamCallbackData: StreamCallbackResponse[] = [];
   let retrieveCallbackData: RetrievalCallbackResponse[] = [];
+  let eventStartData: EventStartCallbackResponse[] = [];
   let document: Document;
 
   beforeAll(async () => {
@@ -48,6 +54,9 @@ describe("CallbackManager: onLLMStream and onRetrieve", () => {
       onRetrieve: (data) => {
         retrieveCallbackData.push(data);
       },
+      onEventStart: (data) => {
+        eventStartData.push(data);
+      },
     });
 
     const languageModel = new OpenAI({
@@ -69,6 +78,7 @@ describe("CallbackManager: onLLMStream and onRetrieve", () => {
   beforeEach(() => {
     streamCallbackData = [];
     retrieveCallbackData = [];
+    eventStartData = [];
   });
 
   afterAll(() => {
@@ -139,9 +149,13 @@ describe("CallbackManager: onLLMStream and onRetrieve", () => {
         },
       },
     ]);
-    // both retrieval and streaming should have
-    // the same parent event
-    expect(streamCallbackData[0].event.parentId).toBe(
+    // streaming happens in the synthesize event, which shares
+    // the parent event of the retrieval
+    const synthesizeEvent = eventStartData.find(
+      ({ event }) => event.id === streamCallbackData[0].event.parentId,
+    )?.event;
+    expect(synthesizeEvent?.type).toBe("synthesize");
+    expect(synthesizeEvent?.parentId).toBe(
       retrieveCallbackData[0].event.parentId,
     );
   });
@@ -217,10 +231,126 @@ describe("CallbackManager: onLLMStream and onRetrieve", () => {
         },
       },
     ]);
-    // both retrieval and streaming should have
-    // the same parent event
-    expect(streamCallbackData[0].event.parentId).toBe(
+    // streaming happens in the synthesize event, which shares
+    // the parent event of the retrieval
+    const synthesizeEvent = eventStartData.find(
+      ({ event }) => event.id === streamCallbackData[0].event.parentId,
+    )?.event;
+    expect(synthesizeEvent?.type).toBe("synthesize");
+    expect(synthesizeEvent?.parentId).toBe(
       retrieveCallbackData[0].event.parentId,
     );
   });
 });
+
+describe("CallbackManager: onEventStart and onEventEnd", () => {
+  const recorder = new TraceRecorder();
+  const callbackManager = new CallbackManager(recorder);
+
+  beforeEach(() => {
+    recorder.reset();
+  });
+
+  afterAll(() => {
+    vi.clearAllMocks();
+  });
+
+  test("traces a query as a tree of events", async () => {
+    const languageModel = new OpenAI({ model: "gpt-3.5-turbo" });
+    mockLlmGeneration({ languageModel });
+    const embedModel = new OpenAIEmbedding({ callbackManager });
+    mockEmbeddingModel(embedModel);
+    const serviceContext = serviceContextFromDefaults({
+      callbackManager,
+      llm: languageModel,
+      embedModel,
+    });
+
+    const vectorStoreIndex = await VectorStoreIndex.fromDocuments(
+      [new Document({ text: "Author: My name is Paul Graham" })],
+      { serviceContext },
+    );
+    const toTypes = (spans: ReturnType<TraceRecorder["getTraceTree"]>) =>
+      spans.map((span) => span.event.type);
+    expect(toTypes(recorder.getTraceTree())).toEqual([
+      "nodeParsing",
+      "embedding",
+    ]);
+
+    recorder.reset();
+    const queryEngine = vectorStoreIndex.asQueryEngine();
+    await queryEngine.query({ query: "What is the author's name?" });
+
+    const [root, ...otherRoots] = recorder.getTraceTree();
+    expect(otherRoots).toEqual([]);
+    expect(root.event.type).toBe("wrapper");
+    expect(root.input).toBe("What is the author's name?");
+    expect(toTypes(root.children)).toEqual(["retrieve", "synthesize"]);
+    expect(root.children[1].output?.toString()).toBe(
+      "MOCK_TOKEN_1-MOCK_TOKEN_2",
+    );
+    expect(root.durationMs).toBeGreaterThanOrEqual(0);
+    expect(recorder.formatTraceTree()).toMatch(
+      /^wrapper \(\d+ms\)\n {2}retrieve \(\d+ms\)\n {2}synthesize \(\d+ms\)$/,
+    );
+  });
+
+  test("traces failed operations", async () => {
+    const error = new Error("tool failed");
+    await expect(
+      traceEvent(callbackManager, { type: "toolCall", input: "x" }, () =>
+        Promise.reject(error),
+      ),
+    ).rejects.toThrow(error);
+    const [span] = recorder.getTraceTree();
+    expect(span).toMatchObject({ input: "x", error });
+    expect(recorder.formatTraceTree()).toMatch(/error: Error: tool failed$/);
+  });
+
+  test("ends the event of a stream when the stream is consumed", async () => {
+    async function* generate() {
+      yield "a";
+      yield "b";
+    }
+    const stream = await traceEvent(
+      callbackManager,
+      { type: "llmPredict" },
+      async (event) => {
+        await traceEvent(
+          callbackManager,
+          { type: "toolCall", parentEvent: event },
+          async () => "nested",
+        );
+        return generate();
+      },
+    );
+    const [span] = recorder.getTraceTree();
+    expect(span.durationMs).toBeUndefined();
+    expect(span.children.map((child) => child.output)).toEqual(["nested"]);
+
+    for await (const _ of stream) {
+      // consume the stream
+    }
+    expect(span.output).toEqual(["a", "b"]);
+    expect(span.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  test("ends the event of a stream when the consumer stops early", async () => {
+    async function* generate() {
+      yield "a";
+      yield "b";
+    }
+    const stream = await traceEvent(
+      callbackManager,
+      { type: "llmPredict" },
+      async () => generate(),
+    );
+
+    for await (const _ of stream) {
+      break;
+    }
+    const [span] = recorder.getTraceTree();
+    expect(span.output).toEqual(["a"]);
+    expect(span.durationMs).toBeGreaterThanOrEqual(0);
+  });
+});
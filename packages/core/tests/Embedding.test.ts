@@ -1,8 +1,10 @@
 import {
   OpenAIEmbedding,
   SimilarityType,
+  getTopKEmbeddingsLearner,
   similarity,
 } from "llamaindex/embeddings/index";
+import { VectorStoreQueryMode } from "llamaindex/storage/index";
 import { beforeAll, describe, expect, test, vi } from "vitest";
 import { mockEmbeddingModel } from "./utility/mockOpenAI.js";
 
@@ -56,6 +58,46 @@ describe("similarity", () => {
   });
 });
 
+describe("getTopKEmbeddingsLearner", () => {
+  const queryEmbedding = [1, 0.2, 0];
+  const embeddings = [
+    [0, 1, 0],
+    [0.9, 0.3, 0.1],
+    [0, 0, 1],
+    [0.5, 0.5, 0],
+    [-1, 0, 0],
+  ];
+  const ids = ["a", "b", "c", "d", "e"];
+
+  test.each([
+    VectorStoreQueryMode.SVM,
+    VectorStoreQueryMode.LOGISTIC_REGRESSION,
+    VectorStoreQueryMode.LINEAR_REGRESSION,
+  ])("ranks embeddings similar to the query first (%s)", (mode) => {
+    const [similarities, resultIds] = getTopKEmbeddingsLearner(
+      queryEmbedding,
+      embeddings,
+      2,
+      ids,
+      mode,
+    );
+    expect(resultIds).toEqual(["b", "d"]);
+    expect(similarities[0]).toBeGreaterThan(similarities[1]);
+  });
+
+  test("throws on unsupported query mode", () => {
+    expect(() =>
+      getTopKEmbeddingsLearner(
+        queryEmbedding,
+        embeddings,
+        2,
+        ids,
+        VectorStoreQueryMode.MMR,
+      ),
+    ).toThrow();
+  });
+});
+
 describe("[OpenAIEmbedding]", () => {
   let embedModel: OpenAIEmbedding;
 
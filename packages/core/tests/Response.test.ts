@@ -0,0 +1,24 @@
+import { TextNode } from "llamaindex/Node";
+import { Response } from "llamaindex/Response";
+import { describe, expect, test } from "vitest";
+
+describe("Response", () => {
+  test("keeps the scores of the source nodes", () => {
+    const node = new TextNode({ text: "some text" });
+    const response = new Response("answer", [{ node, score: 0.5 }]);
+
+    expect(response.sourceNodes).toEqual([node]);
+    expect(response.sourceNodesWithScore).toEqual([{ node, score: 0.5 }]);
+  });
+
+  test("formats the source nodes", () => {
+    const response = new Response("answer", [
+      new TextNode({ id_: "short", text: "some text" }),
+      new TextNode({ id_: "long", text: "a".repeat(20) }),
+    ]);
+
+    expect(response.getFormattedSources(10)).toBe(
+      "[1] (Node id: short): some text\n\n[2] (Node id: long): aaaaaaa...",
+    );
+  });
+});
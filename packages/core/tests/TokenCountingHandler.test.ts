@@ -0,0 +1,164 @@
+import {
+  CallbackManager,
+  traceEvent,
+} from "llamaindex/callbacks/CallbackManager";
+import { TokenCountingHandler } from "llamaindex/callbacks/TokenCountingHandler";
+import { OpenAI } from "llamaindex/llm/LLM";
+import type { OpenAISession } from "llamaindex/llm/open_ai";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+
+const usage = { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 };
+
+async function* streamChunks() {
+  yield { choices: [{ delta: { content: "Hello" }, finish_reason: null }] };
+  yield { choices: [{ delta: { content: " world" }, finish_reason: "stop" }] };
+  // OpenAI sends the usage in an extra chunk without choices
+  yield { choices: [], usage };
+}
+
+function createSession(withUsage: boolean = true) {
+  const create = vi.fn(async (params: { stream?: boolean }) =>
+    params.stream
+      ? streamChunks()
+      : {
+          choices: [{ message: { content: "Hello world", role: "assistant" } }],
+          usage: withUsage ? usage : undefined,
+        },
+  );
+  const session = {
+    openai: { chat: { completions: { create } } },
+  } as unknown as OpenAISession;
+  return { session, create };
+}
+
+describe("TokenCountingHandler", () => {
+  const tokenCounter = new TokenCountingHandler({
+    pricing: { "gpt-4": { promptTokens: 30, completionTokens: 60 } },
+  });
+  const callbackManager = new CallbackManager(tokenCounter);
+  const messages = [{ content: "Say hello", role: "user" as const }];
+
+  beforeEach(() => {
+    tokenCounter.reset();
+  });
+
+  test("returns and counts the usage of a chat response", async () => {
+    const { session } = createSession();
+    const llm = new OpenAI({ model: "gpt-4", session, callbackManager });
+    const response = await llm.chat({ messages });
+    expect(response.usage).toEqual({
+      promptTokens: 10,
+      completionTokens: 5,
+      totalTokens: 15,
+    });
+    expect(tokenCounter.getTotalUsage()).toEqual({
+      promptTokens: 10,
+      completionTokens: 5,
+      totalTokens: 15,
+      llmCalls: 1,
+      cost: (10 * 30 + 5 * 60) / 1_000_000,
+    });
+  });
+
+  test("returns the usage in the last chunk of a stream", async () => {
+    const { session, create } = createSession();
+    const llm = new OpenAI({
+      model: "gpt-4",
+      session,
+      callbackManager,
+      includeStreamUsage: true,
+    });
+    const stream = await llm.chat({ messages, stream: true });
+    const chunks = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    expect(create.mock.calls[0][0]).toMatchObject({
+      stream_options: { include_usage: true },
+    });
+    expect(chunks.map((chunk) => chunk.delta).join("")).toBe("Hello world");
+    expect(chunks[chunks.length - 1].usage?.totalTokens).toBe(15);
+    expect(tokenCounter.getTotalUsage().totalTokens).toBe(15);
+  });
+
+  test("doesn't request the usage of streams by default", async () => {
+    const { session, create } = createSession();
+    const llm = new OpenAI({ model: "gpt-4", session });
+    const stream = await llm.chat({ messages, stream: true });
+    for await (const _ of stream) {
+      // consume the stream
+    }
+    expect(create.mock.calls[0][0]).not.toHaveProperty("stream_options");
+  });
+
+  test("aggregates the usage per model, query and agent task", async () => {
+    const gpt4 = new OpenAI({
+      model: "gpt-4",
+      session: createSession().session,
+      callbackManager,
+    });
+    const gpt35 = new OpenAI({
+      model: "gpt-3.5-turbo",
+      session: createSession().session,
+      callbackManager,
+    });
+
+    await traceEvent(
+      callbackManager,
+      { type: "wrapper", input: "first query" },
+      async (parentEvent) => {
+        await gpt4.chat({ messages, parentEvent });
+        await gpt35.chat({ messages, parentEvent });
+      },
+    );
+    await traceEvent(
+      callbackManager,
+      { type: "agentStep", input: { taskId: "task-1" } },
+      (parentEvent) => gpt35.chat({ messages, parentEvent }),
+    );
+
+    const usageByModel = tokenCounter.getUsageByModel();
+    expect(usageByModel["gpt-4"].llmCalls).toBe(1);
+    expect(usageByModel["gpt-4"].cost).toBeGreaterThan(0);
+    expect(usageByModel["gpt-3.5-turbo"]).toMatchObject({
+      llmCalls: 2,
+      totalTokens: 30,
+      // no pricing for this model
+      cost: 0,
+    });
+
+    const usageByQuery = tokenCounter.getUsageByQuery();
+    expect(usageByQuery.map(({ input }) => input)).toEqual([
+      "first query",
+      { taskId: "task-1" },
+    ]);
+    expect(usageByQuery[0].usage.llmCalls).toBe(2);
+
+    expect(tokenCounter.getUsageByTask()).toEqual({
+      "task-1": expect.objectContaining({ llmCalls: 1, totalTokens: 15 }),
+    });
+    expect(tokenCounter.getTotalUsage().llmCalls).toBe(3);
+  });
+
+  test("estimates the usage if the LLM doesn't report it", async () => {
+    const llm = new OpenAI({
+      model: "gpt-4",
+      session: createSession(false).session,
+      callbackManager,
+    });
+    const response = await llm.chat({ messages });
+    expect(response.usage).toBeUndefined();
+    // "Say hello" and "Hello world" are two tokens each
+    expect(tokenCounter.getTotalUsage()).toMatchObject({
+      promptTokens: 2,
+      completionTokens: 2,
+      llmCalls: 1,
+    });
+
+    tokenCounter.reset();
+    tokenCounter.estimateMissingUsage = false;
+    await llm.chat({ messages });
+    expect(tokenCounter.getTotalUsage().llmCalls).toBe(0);
+    tokenCounter.estimateMissingUsage = true;
+  });
+});
@@ -0,0 +1,133 @@
+import { FunctionCallingAgent } from "llamaindex/agent/index";
+import type { AnthropicSession } from "llamaindex/llm/anthropic";
+import { Anthropic } from "llamaindex/llm/LLM";
+import { FunctionTool } from "llamaindex/tools/index";
+import { describe, expect, test, vi } from "vitest";
+
+const sumJSON = {
+  type: "object",
+  properties: {
+    a: { type: "number" },
+    b: { type: "number" },
+  },
+  required: ["a", "b"],
+};
+
+const toolUse = (id: string, a: number, b: number) => ({
+  type: "tool_use",
+  id,
+  name: "sumNumbers",
+  input: { a, b },
+});
+
+function createLLM(...responses: unknown[][]) {
+  const create = vi.fn();
+  for (const content of responses) {
+    create.mockResolvedValueOnce({
+      content,
+      usage: { input_tokens: 10, output_tokens: 5 },
+    });
+  }
+  const session = {
+    anthropic: { messages: { create } },
+  } as unknown as AnthropicSession;
+  return { llm: new Anthropic({ model: "claude-3-opus", session }), create };
+}
+
+describe("FunctionCallingAgent", () => {
+  test("calls the tools of a response in parallel", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const sumTool = new FunctionTool(
+      async ({ a, b }: { a: number; b: number }) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        running--;
+        return a + b;
+      },
+      {
+        name: "sumNumbers",
+        description: "Sums two numbers",
+        parameters: sumJSON,
+      },
+    );
+    const { llm, create } = createLLM(
+      [toolUse("toolu_1", 1, 1), toolUse("toolu_2", 2, 2)],
+      [{ type: "text", text: "The sums are 2 and 4" }],
+    );
+    const agent = new FunctionCallingAgent({ llm, tools: [sumTool] });
+
+    const response = await agent.chat({
+      message: "how much are 1 + 1 and 2 + 2?",
+    });
+
+    expect(String(response)).toBe("The sums are 2 and 4");
+    expect(maxRunning).toBe(2);
+    expect(response.sources.map(String)).toEqual(["2", "4"]);
+    const { messages } = create.mock.calls[1][0];
+    expect(messages[messages.length - 1]).toEqual({
+      role: "user",
+      content: [
+        { type: "tool_result", tool_use_id: "toolu_1", content: "2" },
+        { type: "tool_result", tool_use_id: "toolu_2", content: "4" },
+      ],
+    });
+  });
+
+  test("returns unknown tools and invalid arguments as errors to the LLM", async () => {
+    const { llm, create } = createLLM(
+      [{ type: "tool_use", id: "toolu_1", name: "unknown", input: {} }],
+      [{ type: "text", text: "Sorry" }],
+    );
+    const agent = new FunctionCallingAgent({ llm, tools: [] });
+
+    const response = await agent.chat({ message: "hello" });
+
+    expect(String(response)).toBe("Sorry");
+    expect(response.sources[0].content).toContain("not found");
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+
+  test("stops calling tools after the max iterations of a task", async () => {
+    const sumTool = new FunctionTool(
+      ({ a, b }: { a: number; b: number }) => a + b,
+      {
+        name: "sumNumbers",
+        description: "Sums two numbers",
+        parameters: sumJSON,
+      },
+    );
+    const { llm, create } = createLLM(
+      [toolUse("toolu_1", 1, 1)],
+      [{ type: "text", text: "The sum is 2" }],
+    );
+    const agent = new FunctionCallingAgent({
+      llm,
+      tools: [sumTool],
+      maxIterations: 10,
+    });
+
+    const task = agent.createTask("how much is 1 + 1?", { maxIterations: 2 });
+    const firstStep = await agent.runStep(task.taskId);
+    expect(firstStep.isLast).toBe(false);
+    const lastStep = await agent.runStep(task.taskId);
+    expect(lastStep.isLast).toBe(true);
+    expect(String(lastStep.output)).toBe("The sum is 2");
+
+    expect(create.mock.calls[0][0].tool_choice).toEqual({ type: "auto" });
+    expect(create.mock.calls[1][0].tool_choice).toEqual({ type: "none" });
+  });
+
+  test("throws for LLMs without tool calling support", () => {
+    expect(
+      () =>
+        new FunctionCallingAgent({
+          llm: new Anthropic({
+            model: "claude-2.1",
+            session: {} as AnthropicSession,
+          }),
+        }),
+    ).toThrow("must be a function-calling model");
+  });
+});
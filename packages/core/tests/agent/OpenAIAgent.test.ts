@@ -1,3 +1,4 @@
+import type { FunctionCallingAgentWorker } from "llamaindex/agent/index";
 import { OpenAIAgent } from "llamaindex/agent/index";
 import { CallbackManager } from "llamaindex/callbacks/CallbackManager";
 import { OpenAI } from "llamaindex/llm/index";
@@ -67,4 +68,12 @@ describe("OpenAIAgent", () => {
 
     expect(String(response)).toEqual("The sum is 2");
   });
+
+  it("keeps the defaults of the previous OpenAIAgent", () => {
+    const agent = new OpenAIAgent({ tools: [] });
+    const worker = agent.agentWorker as FunctionCallingAgentWorker;
+
+    expect(worker.maxIterations).toBe(5);
+    expect(worker.llm.metadata.model).toBe("gpt-3.5-turbo-0613");
+  });
 });
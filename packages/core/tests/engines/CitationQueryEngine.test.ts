@@ -0,0 +1,150 @@
+import type { NodeWithScore } from "llamaindex/Node";
+import { MetadataMode, NodeRelationship, TextNode } from "llamaindex/Node";
+import type { BaseRetriever } from "llamaindex/Retriever";
+import { serviceContextFromDefaults } from "llamaindex/ServiceContext";
+import {
+  CitationQueryEngine,
+  parseCitations,
+} from "llamaindex/engines/query/index";
+import type { LLM } from "llamaindex/llm/types";
+import { describe, expect, test, vi } from "vitest";
+
+vi.mock("llamaindex/llm/open_ai", () => {
+  return {
+    getOpenAISession: vi.fn().mockImplementation(() => null),
+  };
+});
+
+const answer =
+  "Paris is the capital of France [1]. It has 2 million inhabitants [2][3].";
+
+function createEngine(nodes: NodeWithScore[], citationChunkSize?: number) {
+  const complete = vi.fn(async () => ({ text: answer }));
+  const llm = {
+    metadata: { contextWindow: 3900, tokenizer: undefined },
+    complete,
+  } as unknown as LLM;
+  const serviceContext = serviceContextFromDefaults({ llm });
+  const retriever: BaseRetriever = {
+    retrieve: async () => nodes,
+    getServiceContext: () => serviceContext,
+  };
+  const engine = new CitationQueryEngine({
+    retriever,
+    citationChunkSize,
+    citationChunkOverlap: 0,
+  });
+  return { engine, complete };
+}
+
+describe("CitationQueryEngine", () => {
+  test("answers with numbered sources and citations", async () => {
+    const document = new TextNode({ id_: "france" });
+    const { engine, complete } = createEngine([
+      {
+        node: new TextNode({
+          text: "Paris is the capital of France.",
+          metadata: { file_name: "france.txt" },
+          relationships: {
+            [NodeRelationship.SOURCE]: document.asRelatedNodeInfo(),
+          },
+        }),
+        score: 0.9,
+      },
+      {
+        node: new TextNode({ text: "Paris has 2 million inhabitants." }),
+        score: 0.7,
+      },
+    ]);
+
+    const response = await engine.query({ query: "Tell me about Paris" });
+
+    const { prompt } = (
+      complete.mock.calls[0] as unknown as [{ prompt: string }]
+    )[0];
+    expect(prompt).toMatch(
+      /Source 1:\s+Paris is the capital of France\.\s+Source 2:\s+Paris has 2 million inhabitants\./,
+    );
+    expect(response.response).toBe(answer);
+    expect(
+      response.sourceNodesWithScore?.map(({ node, score }) => [
+        node.getContent(MetadataMode.NONE),
+        score,
+      ]),
+    ).toEqual([
+      ["Paris is the capital of France.", 0.9],
+      ["Paris has 2 million inhabitants.", 0.7],
+    ]);
+    expect(response.sourceNodes?.[0].sourceNode?.nodeId).toBe("france");
+    expect(response.sourceNodes?.[0].metadata).toEqual({
+      file_name: "france.txt",
+    });
+    expect(response.citations).toEqual([
+      {
+        text: "Paris is the capital of France [1].",
+        startCharIdx: 0,
+        endCharIdx: 35,
+        sourceNumbers: [1],
+      },
+      {
+        text: "It has 2 million inhabitants [2][3].",
+        startCharIdx: 36,
+        endCharIdx: 72,
+        sourceNumbers: [2],
+      },
+    ]);
+  });
+
+  test("splits the retrieved nodes into sources", async () => {
+    const sentences = Array.from(
+      { length: 6 },
+      (_, i) => `This is the sentence number ${i} of the document.`,
+    );
+    const { engine } = createEngine(
+      [{ node: new TextNode({ text: sentences.join(" ") }), score: 0.5 }],
+      30,
+    );
+
+    const response = await engine.query({ query: "Tell me about it" });
+
+    expect(response.sourceNodesWithScore!.length).toBeGreaterThan(1);
+    expect(
+      response.sourceNodesWithScore!.every(({ score }) => score === 0.5),
+    ).toBe(true);
+    expect(
+      response.sourceNodes!.map((node) => node.getContent(MetadataMode.NONE)),
+    ).toEqual(expect.arrayContaining([expect.stringContaining(sentences[0])]));
+  });
+});
+
+describe("parseCitations", () => {
+  test("assigns the citations after a sentence to this sentence", () => {
+    expect(parseCitations("Water is wet. [2] The sky is red [1].", 2)).toEqual([
+      {
+        text: "Water is wet. [2]",
+        startCharIdx: 0,
+        endCharIdx: 17,
+        sourceNumbers: [2],
+      },
+      {
+        text: "The sky is red [1].",
+        startCharIdx: 18,
+        endCharIdx: 37,
+        sourceNumbers: [1],
+      },
+    ]);
+  });
+
+  test("ignores the sentences without citations", () => {
+    expect(
+      parseCitations("No sources were helpful.\nThe sky is red [1][1].", 1),
+    ).toEqual([
+      {
+        text: "The sky is red [1][1].",
+        startCharIdx: 25,
+        endCharIdx: 47,
+        sourceNumbers: [1],
+      },
+    ]);
+  });
+});
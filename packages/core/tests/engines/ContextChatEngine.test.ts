@@ -0,0 +1,131 @@
+import type { NodeWithScore } from "llamaindex/Node";
+import { TextNode } from "llamaindex/Node";
+import type { BaseRetriever } from "llamaindex/Retriever";
+import { serviceContextFromDefaults } from "llamaindex/ServiceContext";
+import { ContextChatEngine } from "llamaindex/engines/chat/index";
+import type { ChatMessage, LLM } from "llamaindex/llm/types";
+import { describe, expect, test, vi } from "vitest";
+
+vi.mock("llamaindex/llm/open_ai", () => {
+  return {
+    getOpenAISession: vi.fn().mockImplementation(() => null),
+  };
+});
+
+// an LLM with a context window of 300 tokens, 250 of them for the input
+function fakeLLM() {
+  const chat = vi.fn(async () => ({
+    message: { content: "answer", role: "assistant" },
+  }));
+  const llm = {
+    metadata: {
+      model: "fake",
+      temperature: 0,
+      topP: 1,
+      maxTokens: 50,
+      contextWindow: 300,
+      tokenizer: undefined,
+    },
+    chat,
+    tokens: () => {
+      throw new Error("Method not implemented.");
+    },
+  } as unknown as LLM;
+  return { llm, chat };
+}
+
+function fakeRetriever(nodes: NodeWithScore[]): BaseRetriever {
+  return {
+    retrieve: async () => nodes,
+    getServiceContext: () => serviceContextFromDefaults({}),
+  };
+}
+
+// a text of `count` tokens
+const words = (word: string, count: number) =>
+  Array(count).fill(word).join(" ");
+
+const node = (id: string, text: string, score: number): NodeWithScore => ({
+  node: new TextNode({ id_: id, text }),
+  score,
+});
+
+const sentMessages = (chat: ReturnType<typeof fakeLLM>["chat"]) =>
+  (chat.mock.calls[0] as unknown as [{ messages: ChatMessage[] }])[0].messages;
+
+describe("ContextChatEngine", () => {
+  test("leaves out the nodes with the lowest scores", async () => {
+    const { llm, chat } = fakeLLM();
+    const engine = new ContextChatEngine({
+      chatModel: llm,
+      retriever: fakeRetriever([
+        node("b", words("b", 80), 0.5),
+        node("a", words("a", 80), 0.9),
+        node("d", words("d", 80), 0.1),
+        node("c", words("c", 80), 0.8),
+      ]),
+    });
+
+    const response = await engine.chat({ message: "question" });
+
+    const context = sentMessages(chat)[0].content as string;
+    expect(context).toContain(words("a", 80));
+    expect(context).toContain(words("c", 80));
+    // the node with the lowest score that fits is truncated
+    expect(context).toContain(words("b", 20));
+    expect(context).not.toContain(words("b", 80));
+    expect(context).not.toContain(words("d", 2));
+    expect(response.sourceNodes?.map(({ id_ }) => id_)).toEqual([
+      "b",
+      "a",
+      "c",
+    ]);
+  });
+
+  test("keeps the latest messages of the chat history", async () => {
+    const { llm, chat } = fakeLLM();
+    const engine = new ContextChatEngine({
+      chatModel: llm,
+      retriever: fakeRetriever([node("a", "some context", 1)]),
+      chatHistory: [
+        { role: "user", content: words("first", 60) },
+        { role: "assistant", content: words("second", 60) },
+        { role: "user", content: words("third", 60) },
+        { role: "assistant", content: words("fourth", 60) },
+      ],
+    });
+
+    await engine.chat({ message: "question" });
+
+    const messages = sentMessages(chat);
+    expect(messages.map(({ content }) => content)).toEqual([
+      expect.stringContaining("some context"),
+      words("fourth", 60),
+      "question",
+    ]);
+  });
+
+  test("includes the metadata of the nodes for the LLM", async () => {
+    const { llm, chat } = fakeLLM();
+    const engine = new ContextChatEngine({
+      chatModel: llm,
+      retriever: fakeRetriever([
+        {
+          node: new TextNode({
+            text: "some context",
+            metadata: { title: "Report", internalId: "42" },
+            excludedLlmMetadataKeys: ["internalId"],
+          }),
+          score: 1,
+        },
+      ]),
+    });
+
+    await engine.chat({ message: "question" });
+
+    const context = sentMessages(chat)[0].content as string;
+    expect(context).toContain("title: Report");
+    expect(context).toContain("some context");
+    expect(context).not.toContain("internalId");
+  });
+});
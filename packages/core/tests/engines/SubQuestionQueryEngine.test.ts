@@ -0,0 +1,129 @@
+import type { EventEndCallbackResponse } from "llamaindex/callbacks/CallbackManager";
+import { CallbackManager } from "llamaindex/callbacks/CallbackManager";
+import { SubQuestionQueryEngine } from "llamaindex/engines/query/index";
+import type { SubQuestion } from "llamaindex/engines/query/types";
+import { Response } from "llamaindex/Response";
+import type { BaseSynthesizer } from "llamaindex/synthesizers/index";
+import type { BaseTool } from "llamaindex/types";
+import { describe, expect, test, vi } from "vitest";
+
+const subQuestions: SubQuestion[] = [
+  { subQuestion: "What is the revenue of Uber?", toolName: "uber" },
+  { subQuestion: "What is the revenue of Lyft?", toolName: "lyft" },
+  { subQuestion: "What is the revenue of Bolt?", toolName: "bolt" },
+];
+
+function createTool(
+  name: string,
+  call: (params: { query: string }) => Promise<string>,
+): BaseTool {
+  return { metadata: { name, description: `Answers about ${name}` }, call };
+}
+
+function createEngine(
+  tools: BaseTool[],
+  options: { maxConcurrency?: number; subQuestionTimeout?: number } = {},
+  callbackManager?: CallbackManager,
+) {
+  const synthesize = vi.fn(async ({ nodesWithScore }) =>
+    nodesWithScore.length > 0
+      ? new Response(`Synthesized from ${nodesWithScore.length} answers`)
+      : new Response("No answer"),
+  );
+  const engine = new SubQuestionQueryEngine({
+    questionGen: { generate: async () => subQuestions },
+    responseSynthesizer: { synthesize } as unknown as BaseSynthesizer,
+    queryEngineTools: tools,
+    callbackManager,
+    ...options,
+  });
+  return { engine, synthesize };
+}
+
+describe("SubQuestionQueryEngine", () => {
+  test("limits the number of sub-questions answered at the same time", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const call = async ({ query }: { query: string }) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      running--;
+      return `Answer to ${query}`;
+    };
+    const { engine } = createEngine(
+      ["uber", "lyft", "bolt"].map((name) => createTool(name, call)),
+      { maxConcurrency: 2 },
+    );
+
+    const response = await engine.query({ query: "Compare the revenues" });
+
+    expect(maxRunning).toBe(2);
+    expect(response.response).toBe("Synthesized from 3 answers");
+    expect(response.metadata.subQuestions).toEqual(
+      subQuestions.map((subQuestion) => ({
+        subQuestion,
+        answer: `Answer to ${subQuestion.subQuestion}`,
+      })),
+    );
+  });
+
+  test("skips the failed and timed out sub-questions and reports them", async () => {
+    const { engine, synthesize } = createEngine(
+      [
+        createTool("uber", async () => "10 billion"),
+        createTool("lyft", async () => {
+          throw new Error("Index not available");
+        }),
+        createTool(
+          "bolt",
+          () => new Promise((resolve) => setTimeout(resolve, 200, "late")),
+        ),
+      ],
+      { subQuestionTimeout: 20 },
+    );
+
+    const response = await engine.query({ query: "Compare the revenues" });
+
+    expect(synthesize.mock.calls[0][0].nodesWithScore).toHaveLength(1);
+    const [uber, lyft, bolt] = response.metadata.subQuestions as any[];
+    expect(uber.answer).toBe("10 billion");
+    expect(lyft.error.message).toBe("Index not available");
+    expect(bolt.error.message).toBe("Timed out after 20ms");
+  });
+
+  test("traces each sub-question and its answer", async () => {
+    const ends: EventEndCallbackResponse[] = [];
+    const callbackManager = new CallbackManager({
+      onEventEnd: (params) => {
+        ends.push(params);
+      },
+    });
+    const { engine } = createEngine(
+      [
+        createTool("uber", async () => "10 billion"),
+        createTool("lyft", async () => "4 billion"),
+      ],
+      {},
+      callbackManager,
+    );
+
+    await engine.query({ query: "Compare the revenues" });
+
+    const subQuestionEnds = ends.filter(
+      ({ event }) => event.type === "subQuestion",
+    );
+    expect(subQuestionEnds.map(({ output, error }) => output ?? error)).toEqual(
+      expect.arrayContaining([
+        "10 billion",
+        "4 billion",
+        expect.objectContaining({ message: "Tool bolt not found" }),
+      ]),
+    );
+    // the sub-questions are grouped in an intermediate event of the query
+    const [group, root] = ends.filter(({ event }) => event.type === "wrapper");
+    expect(group.event.tags).toEqual(["intermediate"]);
+    expect(group.event.parentId).toBe(root.event.id);
+    expect(subQuestionEnds[0].event.parentId).toBe(group.event.id);
+  });
+});
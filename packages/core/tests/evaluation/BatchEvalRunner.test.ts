@@ -0,0 +1,122 @@
+import { TextNode } from "llamaindex/Node";
+import { Response } from "llamaindex/Response";
+import type { BaseEvaluator } from "llamaindex/evaluation/index";
+import { BatchEvalRunner, reportToCSV } from "llamaindex/evaluation/index";
+import type { BaseQueryEngine } from "llamaindex/types";
+import { describe, expect, test } from "vitest";
+
+function fakeQueryEngine() {
+  let running = 0;
+  const stats = { maxRunning: 0 };
+  const queryEngine = {
+    async query({ query }: { query: string }) {
+      running++;
+      stats.maxRunning = Math.max(stats.maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      running--;
+      if (query === "fail") {
+        throw new Error("Index not available");
+      }
+      return new Response(query.toUpperCase(), [
+        new TextNode({ text: `context of ${query}` }),
+      ]);
+    },
+  } as unknown as BaseQueryEngine;
+  return { queryEngine, stats };
+}
+
+// passes if the response is the reference
+const exactMatch: BaseEvaluator = {
+  async evaluate({ response, reference }) {
+    const passing = response === reference;
+    return { response, passing, score: passing ? 1 : 0, feedback: "" };
+  },
+};
+
+// passes if the response is based on a context
+const grounded: BaseEvaluator = {
+  async evaluate({ query, response, contexts }) {
+    if (query === "b") {
+      throw new Error("Rate limited");
+    }
+    const passing = contexts?.[0] === `context of ${query}`;
+    return { response, passing, score: passing ? 5 : 1, feedback: "ok" };
+  },
+};
+
+describe("BatchEvalRunner", () => {
+  test("evaluates the responses to the queries", async () => {
+    const { queryEngine, stats } = fakeQueryEngine();
+    const runner = new BatchEvalRunner({
+      evaluators: { exactMatch, grounded },
+      workers: 2,
+    });
+
+    const report = await runner.evaluateQueries(queryEngine, [
+      { query: "a", reference: "A" },
+      { query: "b", reference: "wrong" },
+      "c",
+      "fail",
+    ]);
+
+    expect(stats.maxRunning).toBe(2);
+    expect(
+      report.results.map(({ query, response, errors }) => ({
+        query,
+        response,
+        errors,
+      })),
+    ).toEqual([
+      { query: "a", response: "A", errors: {} },
+      { query: "b", response: "B", errors: { grounded: "Rate limited" } },
+      { query: "c", response: "C", errors: {} },
+      {
+        query: "fail",
+        response: undefined,
+        errors: { query: "Index not available" },
+      },
+    ]);
+    expect(report.metrics).toEqual({
+      exactMatch: {
+        numEvaluated: 3,
+        numPassing: 1,
+        numErrors: 1,
+        passingRate: 1 / 3,
+        meanScore: 1 / 3,
+      },
+      grounded: {
+        numEvaluated: 2,
+        numPassing: 2,
+        numErrors: 2,
+        passingRate: 1,
+        meanScore: 5,
+      },
+    });
+  });
+
+  test("evaluates existing responses", async () => {
+    const runner = new BatchEvalRunner({ evaluators: { exactMatch } });
+
+    const report = await runner.evaluateResponses([
+      { query: "a", reference: "A", response: new Response("A") },
+    ]);
+
+    expect(report.results[0].evaluations.exactMatch.passing).toBe(true);
+  });
+
+  test("creates a CSV report", async () => {
+    const runner = new BatchEvalRunner({ evaluators: { exactMatch } });
+    const report = await runner.evaluateResponses([
+      { query: "a", reference: "A", response: new Response("A") },
+      { query: 'say "hi", twice', response: new Response("hi\nhi") },
+    ]);
+
+    expect(reportToCSV(report)).toBe(
+      [
+        "query,reference,response,error,exactMatch_score,exactMatch_passing,exactMatch_feedback",
+        "a,A,A,,1,true,",
+        '"say ""hi"", twice",,"hi\nhi",,0,false,',
+      ].join("\n"),
+    );
+  });
+});
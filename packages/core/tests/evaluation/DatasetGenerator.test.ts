@@ -0,0 +1,119 @@
+import { Document, TextNode } from "llamaindex/Node";
+import { serviceContextFromDefaults } from "llamaindex/ServiceContext";
+import { DatasetGenerator, QADataset } from "llamaindex/evaluation/index";
+import type { LLM } from "llamaindex/llm/types";
+import { SimpleDocumentStore } from "llamaindex/storage/docStore/SimpleDocumentStore";
+import { rmSync } from "node:fs";
+import { afterAll, describe, expect, test, vi } from "vitest";
+
+vi.mock("llamaindex/llm/open_ai", () => {
+  return {
+    getOpenAISession: vi.fn().mockImplementation(() => null),
+  };
+});
+
+// asks numbered questions about the first word of the context, and answers with the context
+function fakeLLM() {
+  const complete = vi.fn(async ({ prompt }: { prompt: string }) => {
+    const context = prompt.split("---------------------\n")[1].trim();
+    if (prompt.includes("generate")) {
+      const word = context.split(" ")[0];
+      return {
+        text: `Here are the questions:\n1. What is ${word}?\n\n2) Why ${word}?\n- How ${word}?`,
+      };
+    }
+    return { text: ` ${context} ` };
+  });
+  return { llm: { complete } as unknown as LLM, complete };
+}
+
+describe("DatasetGenerator", () => {
+  const persistPath = "/tmp/dataset_generator_test/dataset.json";
+
+  afterAll(() => {
+    rmSync("/tmp/dataset_generator_test", { recursive: true, force: true });
+  });
+
+  test("generates questions and references from nodes", async () => {
+    const { llm } = fakeLLM();
+    const generator = new DatasetGenerator({
+      serviceContext: serviceContextFromDefaults({ llm }),
+      numQuestionsPerNode: 2,
+    });
+
+    const dataset = await generator.generateFromNodes([
+      new TextNode({ id_: "a", text: "apples are red" }),
+      new TextNode({ id_: "empty", text: " " }),
+      new TextNode({ id_: "b", text: "bananas are yellow" }),
+    ]);
+
+    expect(dataset.items).toEqual([
+      {
+        query: "What is apples?",
+        reference: "apples are red",
+        sourceNodeIds: ["a"],
+      },
+      {
+        query: "Why apples?",
+        reference: "apples are red",
+        sourceNodeIds: ["a"],
+      },
+      {
+        query: "What is bananas?",
+        reference: "bananas are yellow",
+        sourceNodeIds: ["b"],
+      },
+      {
+        query: "Why bananas?",
+        reference: "bananas are yellow",
+        sourceNodeIds: ["b"],
+      },
+    ]);
+  });
+
+  test("generates questions from the nodes of documents and doc stores", async () => {
+    const { llm, complete } = fakeLLM();
+    const generator = new DatasetGenerator({
+      serviceContext: serviceContextFromDefaults({ llm }),
+      numQuestionsPerNode: 3,
+      generateReferences: false,
+    });
+    const document = new Document({ id_: "doc", text: "cherries are sweet" });
+
+    const { dataset: fromDocuments, nodes } =
+      await generator.generateFromDocuments([document]);
+
+    expect(fromDocuments.queries).toEqual([
+      "What is cherries?",
+      "Why cherries?",
+      "How cherries?",
+    ]);
+    expect(fromDocuments.items[0].reference).toBeUndefined();
+    // the ids of the returned nodes, which can be indexed
+    expect(fromDocuments.items[0].sourceNodeIds).toEqual([nodes[0].id_]);
+    expect(nodes[0].id_).not.toBe("doc");
+    expect(complete).toHaveBeenCalledTimes(1);
+
+    const docStore = new SimpleDocumentStore();
+    await docStore.addDocuments([new TextNode({ id_: "c", text: "cherries" })]);
+    const fromDocStore = await generator.generateFromDocStore(docStore);
+
+    expect(
+      fromDocStore.items.map(({ sourceNodeIds }) => sourceNodeIds),
+    ).toEqual(Array(3).fill(["c"]));
+  });
+
+  test("persists and loads a dataset", async () => {
+    const dataset = new QADataset([
+      { query: "What is apples?", reference: "red", sourceNodeIds: ["a"] },
+    ]);
+
+    await dataset.persist(persistPath);
+    const loaded = await QADataset.fromPersistPath(persistPath);
+
+    expect(loaded.items).toEqual(dataset.items);
+    await expect(
+      QADataset.fromPersistPath("/tmp/dataset_generator_test/missing.json"),
+    ).rejects.toThrow("No dataset found");
+  });
+});
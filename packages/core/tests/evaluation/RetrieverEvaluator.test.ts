@@ -0,0 +1,56 @@
+import { TextNode } from "llamaindex/Node";
+import type { BaseRetriever } from "llamaindex/Retriever";
+import { QADataset, RetrieverEvaluator } from "llamaindex/evaluation/index";
+import { describe, expect, test } from "vitest";
+
+// retrieves the nodes by id, in the order given for each query
+function fakeRetriever(retrieved: Record<string, string[]>) {
+  return {
+    retrieve: async ({ query }: { query: string }) =>
+      (retrieved[query] ?? []).map((id) => ({
+        node: new TextNode({ id_: id, text: id }),
+        score: 1,
+      })),
+  } as unknown as BaseRetriever;
+}
+
+describe("RetrieverEvaluator", () => {
+  test("computes the hit rate and the mean reciprocal rank", async () => {
+    const evaluator = new RetrieverEvaluator({
+      retriever: fakeRetriever({
+        first: ["a", "b"],
+        second: ["c", "b"],
+        missed: ["c"],
+      }),
+    });
+    const dataset = new QADataset([
+      { query: "first", sourceNodeIds: ["a"] },
+      { query: "second", sourceNodeIds: ["b"] },
+      { query: "missed", sourceNodeIds: ["a"] },
+      { query: "nothing", sourceNodeIds: ["a"] },
+    ]);
+
+    const report = await evaluator.evaluateDataset(dataset);
+
+    expect(report.results.map(({ reciprocalRank }) => reciprocalRank)).toEqual([
+      1, 0.5, 0, 0,
+    ]);
+    expect(report.results[1]).toEqual({
+      query: "second",
+      expectedIds: ["b"],
+      retrievedIds: ["c", "b"],
+      hit: true,
+      reciprocalRank: 0.5,
+    });
+    expect(report.hitRate).toBe(0.5);
+    expect(report.mrr).toBe(0.375);
+  });
+
+  test("returns zero metrics for an empty dataset", async () => {
+    const evaluator = new RetrieverEvaluator({ retriever: fakeRetriever({}) });
+
+    const report = await evaluator.evaluateDataset([]);
+
+    expect(report).toEqual({ results: [], hitRate: 0, mrr: 0 });
+  });
+});
@@ -2,15 +2,20 @@ import type { BaseNode } from "llamaindex/Node";
 import { TextNode } from "llamaindex/Node";
 import {
   IngestionCache,
+  getNodeTransformationHash,
+  getTransformHash,
   getTransformationHash,
 } from "llamaindex/ingestion/IngestionCache";
 import type { TransformComponent } from "llamaindex/ingestion/index";
 import { SimpleNodeParser } from "llamaindex/nodeParsers/index";
-import { beforeAll, describe, expect, test } from "vitest";
+import { SimpleKVStore } from "llamaindex/storage/kvStore/SimpleKVStore";
+import { rmSync } from "node:fs";
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+
+const hash = "1";
 
 describe("IngestionCache", () => {
   let cache: IngestionCache;
-  const hash = "1";
 
   beforeAll(() => {
     cache = new IngestionCache();
@@ -25,6 +30,72 @@ describe("IngestionCache", () => {
     const result = await cache.get("not found");
     expect(result).toBeUndefined();
   });
+  test("should count hits and misses", async () => {
+    cache.resetStats();
+    await cache.get(hash);
+    await cache.get("not found");
+    await cache.get("not found either");
+    expect(cache.stats).toEqual({ hits: 1, misses: 2 });
+  });
+});
+
+describe("IngestionCache with a persistent store", () => {
+  const persistPath = "/tmp/ingestion_cache_test/cache.json";
+
+  afterAll(() => {
+    rmSync("/tmp/ingestion_cache_test", { recursive: true, force: true });
+  });
+  test("should get the nodes put by another instance", async () => {
+    const nodes = [new TextNode({ text: "some text", id_: "some id" })];
+    await new IngestionCache(
+      await SimpleKVStore.fromPersistPath(persistPath),
+    ).put(hash, nodes);
+
+    const cache = new IngestionCache(
+      await SimpleKVStore.fromPersistPath(persistPath),
+    );
+    expect(await cache.get(hash)).toEqual(nodes);
+  });
+});
+
+describe("getNodeTransformationHash", () => {
+  const transformHash = getTransformHash(
+    new SimpleNodeParser({ chunkOverlap: 10, chunkSize: 1024 }),
+  );
+
+  test("should return the same hash for the same node", () => {
+    const result1 = getNodeTransformationHash(
+      new TextNode({ text: "some text", id_: "some id" }),
+      transformHash,
+    );
+    const result2 = getNodeTransformationHash(
+      new TextNode({ text: "some text", id_: "some id" }),
+      transformHash,
+    );
+    expect(result1).toBe(result2);
+  });
+  test("should return different hashes for different ids", () => {
+    const result1 = getNodeTransformationHash(
+      new TextNode({ text: "some text", id_: "some id" }),
+      transformHash,
+    );
+    const result2 = getNodeTransformationHash(
+      new TextNode({ text: "some text", id_: "other id" }),
+      transformHash,
+    );
+    expect(result1).not.toBe(result2);
+  });
+  test("should return different hashes for different transforms", () => {
+    const node = new TextNode({ text: "some text", id_: "some id" });
+    const result1 = getNodeTransformationHash(node, transformHash);
+    const result2 = getNodeTransformationHash(
+      node,
+      getTransformHash(
+        new SimpleNodeParser({ chunkOverlap: 10, chunkSize: 512 }),
+      ),
+    );
+    expect(result1).not.toBe(result2);
+  });
 });
 
 describe("getTransformationHash", () => {
@@ -0,0 +1,468 @@
+import type { BaseNode } from "llamaindex/Node";
+import {
+  Document,
+  MetadataMode,
+  NodeRelationship,
+  TextNode,
+} from "llamaindex/Node";
+import { BaseEmbedding } from "llamaindex/embeddings/types";
+import type { IngestionProgress } from "llamaindex/ingestion/index";
+import {
+  DocStoreStrategy,
+  IngestionCache,
+  IngestionCheckpoint,
+  IngestionPipeline,
+  runTransformations,
+} from "llamaindex/ingestion/index";
+import { SimpleNodeParser } from "llamaindex/nodeParsers/index";
+import { SimpleDocumentStore } from "llamaindex/storage/docStore/SimpleDocumentStore";
+import { SimpleKVStore } from "llamaindex/storage/kvStore/SimpleKVStore";
+import { SimpleVectorStore } from "llamaindex/storage/vectorStore/SimpleVectorStore";
+import { rmSync } from "node:fs";
+import { afterAll, describe, expect, test } from "vitest";
+
+// embeds each document as a single node
+class FakeEmbedder {
+  batches: string[][] = [];
+  failOnBatch?: number;
+  delay = 0;
+  running = 0;
+  maxRunning = 0;
+
+  // the recorded batches are not part of the cache key
+  toJSON() {
+    return { name: "FakeEmbedder" };
+  }
+
+  async transform(nodes: BaseNode[]): Promise<BaseNode[]> {
+    this.batches.push(nodes.map((node) => node.id_));
+    if (this.batches.length === this.failOnBatch) {
+      throw new Error("Embedding failed");
+    }
+    this.running++;
+    this.maxRunning = Math.max(this.maxRunning, this.running);
+    await new Promise((resolve) => setTimeout(resolve, this.delay));
+    this.running--;
+    return nodes.map(
+      (node) =>
+        new TextNode({
+          id_: `${node.id_}-node`,
+          text: (node as Document).text,
+          embedding: [1, 0],
+          relationships: {
+            [NodeRelationship.SOURCE]: node.asRelatedNodeInfo(),
+          },
+        }),
+    );
+  }
+}
+
+async function* readDocuments(count: number) {
+  for (let i = 0; i < count; i++) {
+    yield new Document({ id_: `doc${i}`, text: `document ${i}` });
+  }
+}
+
+async function collect(documents: AsyncIterable<Document>) {
+  const result: Document[] = [];
+  for await (const document of documents) {
+    result.push(document);
+  }
+  return result;
+}
+
+describe("IngestionPipeline.runBatched", () => {
+  test("streams the documents through the pipeline in batches", async () => {
+    const embedder = new FakeEmbedder();
+    const vectorStore = new SimpleVectorStore();
+    const pipeline = new IngestionPipeline({
+      transformations: [embedder],
+      vectorStore,
+    });
+    const progress: IngestionProgress[] = [];
+
+    const result = await pipeline.runBatched({
+      documents: readDocuments(5),
+      batchSize: 2,
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(embedder.batches).toEqual([
+      ["doc0", "doc1"],
+      ["doc2", "doc3"],
+      ["doc4"],
+    ]);
+    expect(Object.keys(vectorStore.toDict().embeddingDict)).toHaveLength(5);
+    expect(result).toEqual({
+      numBatches: 3,
+      numDocuments: 5,
+      numNodes: 5,
+      numSkipped: 0,
+      numFailed: 0,
+      failedDocuments: [],
+      numDeleted: 0,
+    });
+    expect(progress.map(({ numDocuments }) => numDocuments)).toEqual([2, 4, 5]);
+  });
+
+  test("resumes an interrupted run from the checkpoint", async () => {
+    const embedder = new FakeEmbedder();
+    const docStore = new SimpleDocumentStore();
+    const vectorStore = new SimpleVectorStore();
+    const checkpoint = new IngestionCheckpoint();
+    const pipeline = new IngestionPipeline({
+      transformations: [embedder],
+      vectorStore,
+      docStore,
+    });
+    await pipeline.runBatched({ documents: readDocuments(2), checkpoint });
+    // the process stopped while ingesting the next batch
+    const interrupted = [
+      new Document({ id_: "doc2", text: "document 2" }),
+      new Document({ id_: "doc3", text: "document 3" }),
+    ];
+    await docStore.addDocuments(interrupted, true);
+    await checkpoint.setStatus(interrupted, "started");
+
+    const result = await pipeline.runBatched({
+      documents: readDocuments(5),
+      batchSize: 2,
+      checkpoint,
+    });
+
+    expect(embedder.batches.slice(1)).toEqual([["doc2", "doc3"], ["doc4"]]);
+    expect(result).toEqual({
+      numBatches: 2,
+      numDocuments: 3,
+      numNodes: 3,
+      numSkipped: 2,
+      numFailed: 0,
+      failedDocuments: [],
+      numDeleted: 0,
+    });
+    expect(Object.keys(vectorStore.toDict().embeddingDict).sort()).toEqual(
+      [0, 1, 2, 3, 4].map((i) => `doc${i}-node`),
+    );
+  });
+
+  test("returns the documents of the failed batches", async () => {
+    const embedder = new FakeEmbedder();
+    embedder.failOnBatch = 2;
+    const docStore = new SimpleDocumentStore();
+    const vectorStore = new SimpleVectorStore();
+    const pipeline = new IngestionPipeline({
+      transformations: [embedder],
+      vectorStore,
+      docStore,
+    });
+
+    const result = await pipeline.runBatched({
+      documents: readDocuments(5),
+      batchSize: 2,
+    });
+
+    expect(result.numDocuments).toBe(3);
+    expect(result.numFailed).toBe(2);
+    expect(result.failedDocuments.map(({ document }) => document.id_)).toEqual([
+      "doc2",
+      "doc3",
+    ]);
+    expect(result.failedDocuments[0].error).toEqual(
+      new Error("Embedding failed"),
+    );
+    // the failed documents are not kept in the doc store
+    expect(await docStore.documentExists("doc2")).toBe(false);
+
+    const rerun = await pipeline.runBatched({
+      documents: result.failedDocuments.map(({ document }) => document),
+    });
+
+    expect(rerun.numDocuments).toBe(2);
+    expect(rerun.failedDocuments).toEqual([]);
+    expect(Object.keys(vectorStore.toDict().embeddingDict).sort()).toEqual(
+      [0, 1, 2, 3, 4].map((i) => `doc${i}-node`),
+    );
+  });
+
+  test("keeps the documents of a previous run when a batch fails", async () => {
+    const embedder = new FakeEmbedder();
+    embedder.failOnBatch = 2;
+    const docStore = new SimpleDocumentStore();
+    const vectorStore = new SimpleVectorStore();
+    const pipeline = new IngestionPipeline({
+      transformations: [embedder],
+      vectorStore,
+      docStore,
+    });
+    await pipeline.runBatched({ documents: readDocuments(1) });
+
+    const result = await pipeline.runBatched({ documents: readDocuments(2) });
+
+    expect(embedder.batches).toEqual([["doc0"], ["doc1"]]);
+    expect(result.failedDocuments.map(({ document }) => document.id_)).toEqual([
+      "doc0",
+      "doc1",
+    ]);
+    expect(await docStore.documentExists("doc0")).toBe(true);
+    expect(await docStore.documentExists("doc1")).toBe(false);
+    expect(Object.keys(vectorStore.toDict().embeddingDict)).toEqual([
+      "doc0-node",
+    ]);
+  });
+
+  test("retries the failed batches", async () => {
+    const embedder = new FakeEmbedder();
+    embedder.failOnBatch = 1;
+    const docStore = new SimpleDocumentStore();
+    const pipeline = new IngestionPipeline({
+      transformations: [embedder],
+      vectorStore: new SimpleVectorStore(),
+      docStore,
+    });
+
+    const result = await pipeline.runBatched({
+      documents: readDocuments(2),
+      maxRetries: 2,
+      retryDelay: 1,
+    });
+
+    expect(embedder.batches).toEqual([
+      ["doc0", "doc1"],
+      ["doc0", "doc1"],
+    ]);
+    expect(result.numDocuments).toBe(2);
+    expect(result.numFailed).toBe(0);
+  });
+
+  test("ingests batches concurrently", async () => {
+    const embedder = new FakeEmbedder();
+    embedder.delay = 10;
+    const vectorStore = new SimpleVectorStore();
+    const pipeline = new IngestionPipeline({
+      transformations: [embedder],
+      vectorStore,
+    });
+
+    const result = await pipeline.runBatched({
+      documents: readDocuments(6),
+      batchSize: 1,
+      numWorkers: 3,
+    });
+
+    expect(embedder.maxRunning).toBe(3);
+    expect(result.numBatches).toBe(6);
+    expect(Object.keys(vectorStore.toDict().embeddingDict)).toHaveLength(6);
+  });
+
+  test("ingests changed documents again", async () => {
+    const embedder = new FakeEmbedder();
+    const checkpoint = new IngestionCheckpoint();
+    const pipeline = new IngestionPipeline({ transformations: [embedder] });
+
+    await pipeline.runBatched({ documents: readDocuments(2), checkpoint });
+    const result = await pipeline.runBatched({
+      documents: [
+        new Document({ id_: "doc0", text: "document 0" }),
+        new Document({ id_: "doc1", text: "changed" }),
+      ],
+      checkpoint,
+    });
+
+    expect(result.numSkipped).toBe(1);
+    expect(embedder.batches[1]).toEqual(["doc1"]);
+  });
+});
+
+describe("IngestionPipeline.sync", () => {
+  const vectorIds = (vectorStore: SimpleVectorStore) =>
+    Object.keys(vectorStore.toDict().embeddingDict).sort();
+
+  test("adds, updates and deletes documents", async () => {
+    const embedder = new FakeEmbedder();
+    const vectorStore = new SimpleVectorStore();
+    const docStore = new SimpleDocumentStore();
+    const pipeline = new IngestionPipeline({
+      transformations: [embedder],
+      vectorStore,
+      docStore,
+      disableCache: true,
+    });
+    await pipeline.sync({ documents: await collect(readDocuments(3)) });
+
+    const report = await pipeline.sync({
+      documents: [
+        new Document({ id_: "doc0", text: "document 0" }),
+        new Document({ id_: "doc1", text: "changed" }),
+        new Document({ id_: "doc3", text: "document 3" }),
+      ],
+    });
+
+    expect(report).toEqual({
+      added: ["doc3"],
+      updated: ["doc1"],
+      deleted: ["doc2"],
+      unchanged: ["doc0"],
+    });
+    expect(embedder.batches[1]).toEqual(["doc1", "doc3"]);
+    expect(await docStore.documentExists("doc2")).toBe(false);
+    expect(vectorIds(vectorStore)).toEqual([
+      "doc0-node",
+      "doc1-node",
+      "doc3-node",
+    ]);
+  });
+
+  test("only deletes the documents missing from the source ids", async () => {
+    const vectorStore = new SimpleVectorStore();
+    const pipeline = new IngestionPipeline({
+      transformations: [new FakeEmbedder()],
+      vectorStore,
+      docStore: new SimpleDocumentStore(),
+    });
+    await pipeline.sync({ documents: await collect(readDocuments(3)) });
+
+    const report = await pipeline.sync({
+      documents: [new Document({ id_: "doc3", text: "document 3" })],
+      sourceIds: ["doc0", "doc2", "doc3"],
+    });
+
+    expect(report).toEqual({
+      added: ["doc3"],
+      updated: [],
+      deleted: ["doc1"],
+      unchanged: [],
+    });
+    expect(vectorIds(vectorStore)).toEqual([
+      "doc0-node",
+      "doc2-node",
+      "doc3-node",
+    ]);
+  });
+
+  test("deletes the missing documents with the upserts and delete strategy", async () => {
+    const vectorStore = new SimpleVectorStore();
+    const pipeline = new IngestionPipeline({
+      transformations: [new FakeEmbedder()],
+      vectorStore,
+      docStore: new SimpleDocumentStore(),
+      docStoreStrategy: DocStoreStrategy.UPSERTS_AND_DELETE,
+    });
+
+    await pipeline.run({ documents: await collect(readDocuments(3)) });
+    await pipeline.run({ documents: await collect(readDocuments(2)) });
+
+    expect(vectorIds(vectorStore)).toEqual(["doc0-node", "doc1-node"]);
+  });
+
+  test("deletes the missing documents after all batches", async () => {
+    const vectorStore = new SimpleVectorStore();
+    const pipeline = new IngestionPipeline({
+      transformations: [new FakeEmbedder()],
+      vectorStore,
+      docStore: new SimpleDocumentStore(),
+      docStoreStrategy: DocStoreStrategy.UPSERTS_AND_DELETE,
+    });
+
+    await pipeline.runBatched({ documents: readDocuments(3), batchSize: 1 });
+    const result = await pipeline.runBatched({
+      documents: readDocuments(2),
+      batchSize: 1,
+    });
+
+    expect(result.numDeleted).toBe(1);
+    expect(vectorIds(vectorStore)).toEqual(["doc0-node", "doc1-node"]);
+  });
+});
+
+describe("runTransformations with a cache", () => {
+  test("only transforms the nodes that changed", async () => {
+    const embedder = new FakeEmbedder();
+    const cache = new IngestionCache();
+    const documents = (texts: string[]) =>
+      texts.map((text, i) => new Document({ id_: `doc${i}`, text }));
+
+    await runTransformations(
+      documents(["a", "b", "c"]),
+      [embedder],
+      {},
+      {
+        cache,
+      },
+    );
+    const nodes = await runTransformations(
+      documents(["a", "changed", "c"]),
+      [embedder],
+      {},
+      { cache },
+    );
+
+    expect(embedder.batches).toEqual([["doc0", "doc1", "doc2"], ["doc1"]]);
+    expect(nodes.map((node) => node.getContent(MetadataMode.NONE))).toEqual([
+      "a",
+      "changed",
+      "c",
+    ]);
+    expect(cache.stats).toEqual({ hits: 2, misses: 4 });
+  });
+});
+
+describe("IngestionPipeline with a persistent cache", () => {
+  const persistPath = "/tmp/ingestion_pipeline_test/cache.json";
+
+  // embeds the texts by their length
+  class LengthEmbedding extends BaseEmbedding {
+    texts: string[] = [];
+
+    // the recorded texts are not part of the cache key
+    toJSON() {
+      return { name: "LengthEmbedding" };
+    }
+
+    async getTextEmbedding(text: string): Promise<number[]> {
+      this.texts.push(text);
+      return [text.length, 1];
+    }
+
+    async getQueryEmbedding(query: string): Promise<number[]> {
+      return this.getTextEmbedding(query);
+    }
+  }
+
+  afterAll(() => {
+    rmSync("/tmp/ingestion_pipeline_test", { recursive: true, force: true });
+  });
+
+  test("returns the cached nodes with their embeddings", async () => {
+    const embedModel = new LengthEmbedding();
+    const documents = () => [
+      new Document({
+        id_: "doc",
+        text: "some text",
+        metadata: { file: "doc.txt" },
+        excludedEmbedMetadataKeys: ["file"],
+      }),
+    ];
+    const run = async (vectorStore: SimpleVectorStore) => {
+      const pipeline = new IngestionPipeline({
+        transformations: [new SimpleNodeParser(), embedModel],
+        vectorStore,
+        cache: new IngestionCache(
+          await SimpleKVStore.fromPersistPath(persistPath),
+        ),
+      });
+      return pipeline.run({ documents: documents() });
+    };
+
+    const nodes = await run(new SimpleVectorStore());
+    const vectorStore = new SimpleVectorStore();
+    const cachedNodes = await run(vectorStore);
+
+    expect(embedModel.texts).toEqual(["some text"]);
+    expect(cachedNodes).toEqual(nodes);
+    expect(cachedNodes[0].embedding).toEqual([9, 1]);
+    expect(cachedNodes[0].excludedEmbedMetadataKeys).toEqual(["file"]);
+    expect(Object.keys(vectorStore.toDict().embeddingDict)).toEqual([
+      nodes[0].id_,
+    ]);
+  });
+});
@@ -0,0 +1,328 @@
+import type { AnthropicSession } from "llamaindex/llm/anthropic";
+import { Anthropic, OpenAI } from "llamaindex/llm/LLM";
+import { MistralAI } from "llamaindex/llm/mistral";
+import { Ollama } from "llamaindex/llm/ollama";
+import type { OpenAISession } from "llamaindex/llm/open_ai";
+import type { ChatMessage, ToolCall } from "llamaindex/llm/types";
+import type { ToolMetadata } from "llamaindex/types";
+import { afterEach, describe, expect, test, vi } from "vitest";
+
+const sumTool: ToolMetadata = {
+  name: "sum",
+  description: "Adds two numbers",
+  parameters: {
+    type: "object",
+    properties: { a: { type: "number" }, b: { type: "number" } },
+    required: ["a", "b"],
+  },
+};
+
+const toolCall: ToolCall = {
+  id: "call_1",
+  type: "function",
+  function: { name: "sum", arguments: '{"a":1,"b":2}' },
+};
+
+// a conversation in which the LLM called the sum tool
+const messages: ChatMessage[] = [
+  { role: "user", content: "What is 1 + 2?" },
+  {
+    role: "assistant",
+    content: "",
+    additionalKwargs: { toolCalls: [toolCall] },
+  },
+  {
+    role: "tool",
+    content: "3",
+    additionalKwargs: { name: "sum", toolCallId: "call_1" },
+  },
+];
+
+describe("Tool calling", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test("OpenAI", async () => {
+    const create = vi.fn(async () => ({
+      choices: [
+        {
+          message: { content: null, role: "assistant", tool_calls: [toolCall] },
+        },
+      ],
+    }));
+    const session = {
+      openai: { chat: { completions: { create } } },
+    } as unknown as OpenAISession;
+    const llm = new OpenAI({ session });
+
+    const response = await llm.chat({
+      messages,
+      tools: [sumTool],
+      toolChoice: { name: "sum" },
+    });
+
+    expect(response.message.additionalKwargs?.toolCalls).toEqual([toolCall]);
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tools: [{ type: "function", function: sumTool }],
+        tool_choice: { type: "function", function: { name: "sum" } },
+        messages: [
+          { role: "user", content: "What is 1 + 2?" },
+          { role: "assistant", content: "", tool_calls: [toolCall] },
+          {
+            role: "tool",
+            content: "3",
+            name: "sum",
+            tool_call_id: "call_1",
+          },
+        ],
+      }),
+    );
+  });
+
+  test("Anthropic", async () => {
+    const create = vi.fn(async () => ({
+      content: [
+        { type: "text", text: "Let me add them." },
+        { type: "tool_use", id: "toolu_1", name: "sum", input: { a: 1, b: 2 } },
+      ],
+      usage: { input_tokens: 10, output_tokens: 5 },
+    }));
+    const session = {
+      anthropic: { messages: { create } },
+    } as unknown as AnthropicSession;
+    const llm = new Anthropic({ session });
+
+    const response = await llm.chat({
+      messages: [
+        ...messages,
+        {
+          role: "tool",
+          content: "3",
+          additionalKwargs: { name: "sum", toolCallId: "call_2" },
+        },
+      ],
+      tools: [sumTool],
+      toolChoice: "auto",
+    });
+
+    expect(response.message).toEqual({
+      role: "assistant",
+      content: "Let me add them.",
+      additionalKwargs: {
+        toolCalls: [
+          {
+            id: "toolu_1",
+            type: "function",
+            function: { name: "sum", arguments: '{"a":1,"b":2}' },
+          },
+        ],
+      },
+    });
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tools: [
+          {
+            name: "sum",
+            description: "Adds two numbers",
+            input_schema: sumTool.parameters,
+          },
+        ],
+        tool_choice: { type: "auto" },
+        messages: [
+          { role: "user", content: "What is 1 + 2?" },
+          {
+            role: "assistant",
+            content: [
+              {
+                type: "tool_use",
+                id: "call_1",
+                name: "sum",
+                input: { a: 1, b: 2 },
+              },
+            ],
+          },
+          {
+            // consecutive tool results are sent in one message
+            role: "user",
+            content: [
+              { type: "tool_result", tool_use_id: "call_1", content: "3" },
+              { type: "tool_result", tool_use_id: "call_2", content: "3" },
+            ],
+          },
+        ],
+      }),
+    );
+  });
+
+  test("accepts tools in the OpenAI format", async () => {
+    const create = vi.fn(async () => ({
+      choices: [
+        {
+          message: { content: null, role: "assistant", tool_calls: [toolCall] },
+        },
+      ],
+    }));
+    const session = {
+      openai: { chat: { completions: { create } } },
+    } as unknown as OpenAISession;
+    const llm = new OpenAI({ session });
+
+    await llm.chat({
+      messages,
+      tools: [{ type: "function", function: sumTool }],
+      toolChoice: { type: "function", function: { name: "sum" } },
+    });
+
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tools: [{ type: "function", function: sumTool }],
+        tool_choice: { type: "function", function: { name: "sum" } },
+      }),
+    );
+  });
+
+  test("streaming chats don't let the LLM call tools", async () => {
+    const create = vi.fn(async function* () {
+      yield { choices: [{ delta: { content: "3" }, finish_reason: "stop" }] };
+    });
+    const session = {
+      openai: { chat: { completions: { create } } },
+    } as unknown as OpenAISession;
+    const llm = new OpenAI({ session });
+
+    await expect(
+      llm.chat({ messages, tools: [sumTool], stream: true }),
+    ).rejects.toThrow("Streaming chats don't return tool calls");
+
+    // the tools are sent for the tool calls in the messages
+    const stream = await llm.chat({
+      messages,
+      tools: [sumTool],
+      toolChoice: "none",
+      stream: true,
+    });
+    for await (const _ of stream) {
+      // consume the stream
+    }
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tools: [{ type: "function", function: sumTool }],
+        tool_choice: "none",
+        messages: expect.arrayContaining([
+          { role: "assistant", content: "", tool_calls: [toolCall] },
+        ]),
+      }),
+    );
+  });
+
+  test("MistralAI", async () => {
+    const fetch = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          choices: [
+            {
+              message: {
+                role: "assistant",
+                content: "",
+                tool_calls: [
+                  {
+                    id: "call_1",
+                    function: { name: "sum", arguments: '{"a":1,"b":2}' },
+                  },
+                ],
+              },
+            },
+          ],
+        }),
+      ),
+    );
+    const llm = new MistralAI({ apiKey: "key" });
+
+    const response = await llm.chat({ messages, tools: [sumTool] });
+
+    expect(response.message.additionalKwargs?.toolCalls).toEqual([toolCall]);
+    expect(fetch.mock.calls[0][0]).toBe(
+      "https://api.mistral.ai/v1/chat/completions",
+    );
+    expect(JSON.parse(fetch.mock.calls[0][1]?.body as string)).toMatchObject({
+      tools: [{ type: "function", function: sumTool }],
+      messages: [
+        { role: "user", content: "What is 1 + 2?" },
+        { role: "assistant", content: "", tool_calls: [toolCall] },
+        { role: "tool", content: "3", name: "sum", tool_call_id: "call_1" },
+      ],
+    });
+  });
+
+  test("MistralAI reports the errors of the API", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response("Unauthorized", { status: 401 }),
+    );
+    const llm = new MistralAI({ apiKey: "key" });
+
+    await expect(llm.chat({ messages, tools: [sumTool] })).rejects.toThrow(
+      "Mistral API error (401): Unauthorized",
+    );
+  });
+
+  test("MistralAI sends the tools to its endpoint and retries", async () => {
+    const fetch = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(new Response("Too many requests", { status: 429 }))
+      .mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({
+            choices: [{ message: { role: "assistant", content: "3" } }],
+          }),
+        ),
+      );
+    const llm = new MistralAI({
+      apiKey: "key",
+      model: "mistral-large-latest",
+      endpoint: "https://proxy.example.com",
+    });
+
+    const response = await llm.chat({ messages, tools: [sumTool] });
+
+    expect(llm.metadata.isFunctionCallingModel).toBe(true);
+    expect(response.message.content).toBe("3");
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      "https://proxy.example.com/v1/chat/completions",
+      "https://proxy.example.com/v1/chat/completions",
+    ]);
+  });
+
+  test("Ollama", async () => {
+    const fetch = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          message: {
+            role: "assistant",
+            content: "",
+            tool_calls: [
+              { function: { name: "sum", arguments: { a: 1, b: 2 } } },
+            ],
+          },
+          done: true,
+        }),
+      ),
+    );
+    const llm = new Ollama({ model: "llama3" });
+
+    const response = await llm.chat({ messages, tools: [sumTool] });
+
+    // Ollama doesn't return ids, so they are generated
+    expect(response.message.additionalKwargs?.toolCalls).toEqual([
+      { ...toolCall, id: expect.any(String) },
+    ]);
+    const body = JSON.parse(fetch.mock.calls[0][1]?.body as string);
+    expect(body.tools).toEqual([{ type: "function", function: sumTool }]);
+    expect(body.messages[1]).toEqual({
+      role: "assistant",
+      content: "",
+      tool_calls: [{ function: { name: "sum", arguments: { a: 1, b: 2 } } }],
+    });
+  });
+});
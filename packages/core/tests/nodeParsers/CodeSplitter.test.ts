@@ -0,0 +1,203 @@
+import { Document, MetadataMode } from "llamaindex/Node";
+import { CodeSplitter } from "llamaindex/nodeParsers/index";
+import { SimpleDirectoryReader } from "llamaindex/readers/SimpleDirectoryReader";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { afterAll, describe, expect, test } from "vitest";
+
+const typescript = `import { a } from "./a.js";
+
+/**
+ * Adds numbers.
+ */
+export function add(x: number, y: number): number {
+  const text = "} not a brace {";
+  return x + y;
+}
+
+export class Calculator {
+  private total = 0;
+
+  plus(value: number) {
+    this.total = add(this.total, value);
+    return this;
+  }
+
+  async result(): Promise<number> {
+    // returns the total
+    return this.total;
+  }
+}
+`;
+
+const python = `import os
+
+
+class Greeter:
+    """Greets people.
+
+    def not_a_method():
+    """
+
+    def __init__(self, name):
+        self.name = name
+
+    @property
+    def greeting(self):
+        return f"Hello {self.name}"
+
+
+def main():
+    print(Greeter(os.getenv("USER")).greeting)
+`;
+
+describe("CodeSplitter", () => {
+  test("splits TypeScript along functions, classes and methods", () => {
+    const splitter = new CodeSplitter({
+      language: "typescript",
+      maxChars: 200,
+    });
+
+    const chunks = splitter.splitText(typescript);
+
+    expect(chunks.map(({ symbol }) => symbol)).toEqual([
+      "add",
+      "Calculator, Calculator.plus",
+      "Calculator.result",
+    ]);
+    expect(chunks[0].text).toContain('import { a } from "./a.js";');
+    expect(chunks[0].text).toContain("return x + y;\n}\n");
+    expect(chunks[1].text.startsWith("export class Calculator {")).toBe(true);
+    expect(chunks[2].text.endsWith("  }\n}\n")).toBe(true);
+    expect(chunks.map(({ text }) => text).join("")).toBe(typescript);
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(200);
+    }
+  });
+
+  test("splits Python along indentation", () => {
+    const splitter = new CodeSplitter({ language: "python", maxChars: 150 });
+
+    const chunks = splitter.splitText(python);
+
+    expect(chunks.map(({ symbol }) => symbol)).toEqual([
+      undefined,
+      "Greeter, Greeter.__init__",
+      "Greeter.greeting",
+      "main",
+    ]);
+    // the docstring is not parsed and the decorator stays with its method
+    expect(chunks[1].text).toContain("def not_a_method():");
+    expect(chunks[2].text).toContain("    @property\n    def greeting");
+    expect(
+      chunks.map(({ startCharIdx, endCharIdx }) =>
+        python.slice(startCharIdx, endCharIdx),
+      ),
+    ).toEqual(chunks.map(({ text }) => text));
+  });
+
+  test("splits the declarations with a single member by lines", () => {
+    const body = Array.from(
+      { length: 20 },
+      (_, i) => `        total += x * ${i}\n`,
+    ).join("");
+    const pythonLoop = `def f(xs):\n    for x in xs:\n${body}`;
+    const method = Array.from(
+      { length: 20 },
+      (_, i) => `    this.total += ${i};\n`,
+    ).join("");
+    const typescriptClass = `class A {\n  add() {\n${method}  }\n}\n`;
+
+    const pythonChunks = new CodeSplitter({
+      language: "python",
+      maxChars: 100,
+    }).splitText(pythonLoop);
+    const typescriptChunks = new CodeSplitter({
+      language: "typescript",
+      maxChars: 100,
+    }).splitText(typescriptClass);
+
+    expect(pythonChunks.length).toBeGreaterThan(1);
+    expect(pythonChunks.map(({ text }) => text).join("")).toBe(pythonLoop);
+    expect(new Set(pythonChunks.map(({ symbol }) => symbol))).toEqual(
+      new Set(["f"]),
+    );
+    expect(typescriptChunks.length).toBeGreaterThan(1);
+    expect(typescriptChunks.map(({ text }) => text).join("")).toBe(
+      typescriptClass,
+    );
+    for (const chunk of [...pythonChunks, ...typescriptChunks]) {
+      expect(chunk.text.length).toBeLessThanOrEqual(100);
+    }
+  });
+
+  test("doesn't read the floor division of Python as a comment", () => {
+    const code = `def half(xs):\n    return sum(x // 2 for x in xs)\n\n\ndef double(xs):\n    return [x * 2 for x in xs]\n`;
+
+    const chunks = new CodeSplitter({
+      language: "python",
+      maxChars: 60,
+    }).splitText(code);
+
+    expect(chunks.map(({ symbol }) => symbol)).toEqual(["half", "double"]);
+  });
+
+  test("keeps small files in a single chunk", () => {
+    const splitter = new CodeSplitter({ language: "typescript" });
+
+    const chunks = splitter.splitText(typescript);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].symbol).toBe("add, Calculator");
+  });
+
+  describe("with the SimpleDirectoryReader", () => {
+    const directoryPath = "/tmp/test_code_splitter_dir";
+
+    afterAll(() => {
+      rmSync(directoryPath, { recursive: true, force: true });
+    });
+
+    test("stores the language, file path and symbols in the metadata", async () => {
+      mkdirSync(directoryPath, { recursive: true });
+      writeFileSync(`${directoryPath}/greeter.py`, python);
+
+      const documents = await new SimpleDirectoryReader().loadData({
+        directoryPath,
+      });
+      const nodes = new CodeSplitter({ maxChars: 150 }).getNodesFromDocuments(
+        documents,
+      );
+
+      expect(documents[0].metadata).toEqual({
+        file_path: `${directoryPath}/greeter.py`,
+        language: "python",
+      });
+      expect(nodes.map((node) => node.metadata.symbol)).toEqual([
+        undefined,
+        "Greeter, Greeter.__init__",
+        "Greeter.greeting",
+        "main",
+      ]);
+      expect(nodes[3].metadata).toEqual({
+        file_path: `${directoryPath}/greeter.py`,
+        language: "python",
+        symbol: "main",
+      });
+      expect(nodes[3].getContent(MetadataMode.NONE)).toContain("def main():");
+    });
+  });
+
+  test("uses the extension of the file path", () => {
+    const document = new Document({
+      text: python,
+      metadata: { file_path: "greeter.py" },
+    });
+
+    const nodes = new CodeSplitter({ maxChars: 150 }).getNodesFromDocuments([
+      document,
+    ]);
+
+    expect(nodes[0].metadata.language).toBe("python");
+    expect(nodes).toHaveLength(4);
+  });
+});
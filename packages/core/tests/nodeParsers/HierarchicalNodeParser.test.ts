@@ -0,0 +1,68 @@
+import { Document, NodeRelationship } from "llamaindex/Node";
+import {
+  HierarchicalNodeParser,
+  getLeafNodes,
+  getRootNodes,
+} from "llamaindex/nodeParsers/index";
+import { describe, expect, test } from "vitest";
+
+const text = Array.from(
+  { length: 40 },
+  (_, i) => `This is sentence number ${i} of the document.`,
+).join(" ");
+
+describe("HierarchicalNodeParser", () => {
+  test("links the chunks of each level to their parent and children", () => {
+    const document = new Document({ text, metadata: { file: "a.txt" } });
+    const parser = new HierarchicalNodeParser({
+      chunkSizes: [200, 50, 20],
+      chunkOverlap: 0,
+    });
+
+    const nodes = parser.getNodesFromDocuments([document]);
+    const nodesById = Object.fromEntries(nodes.map((node) => [node.id_, node]));
+    const rootNodes = getRootNodes(nodes);
+    const leafNodes = getLeafNodes(nodes);
+
+    expect(rootNodes.length).toBeGreaterThan(1);
+    expect(leafNodes.length).toBeGreaterThan(rootNodes.length);
+    expect(rootNodes.length + leafNodes.length).toBeLessThan(nodes.length);
+    for (const node of nodes) {
+      expect(node.sourceNode?.nodeId).toBe(document.id_);
+      expect(node.metadata).toEqual({ file: "a.txt" });
+      const parentId = node.parentNode?.nodeId;
+      if (parentId) {
+        const parent = nodesById[parentId];
+        expect(parent.childNodes!.map(({ nodeId }) => nodeId)).toContain(
+          node.id_,
+        );
+        expect(parent.getText()).toContain(node.getText());
+      }
+    }
+    for (const node of leafNodes) {
+      // leaves are on the third level
+      const parent = nodesById[node.parentNode!.nodeId];
+      expect(parent.parentNode).toBeDefined();
+      expect(nodesById[parent.parentNode!.nodeId].parentNode).toBeUndefined();
+    }
+  });
+
+  test("links the siblings with previous and next relationships", () => {
+    const parser = new HierarchicalNodeParser({
+      chunkSizes: [200, 50],
+      chunkOverlap: 0,
+    });
+
+    const nodes = parser.getNodesFromDocuments([new Document({ text })]);
+    const [root] = getRootNodes(nodes);
+    const children = root.childNodes!.map(({ nodeId }) =>
+      nodes.find((node) => node.id_ === nodeId),
+    );
+
+    expect(children[0]!.prevNode).toBeUndefined();
+    expect(children[0]!.nextNode?.nodeId).toBe(children[1]!.id_);
+    expect(children[1]!.relationships[NodeRelationship.PREVIOUS]).toEqual(
+      children[0]!.asRelatedNodeInfo(),
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import { Document, MetadataMode } from "llamaindex/Node";
+import { BaseEmbedding } from "llamaindex/embeddings/types";
+import { SemanticSplitterNodeParser } from "llamaindex/nodeParsers/index";
+import { describe, expect, test } from "vitest";
+
+// embeds the texts about cats and cars in orthogonal directions
+class TopicEmbedding extends BaseEmbedding {
+  texts: string[] = [];
+
+  async getTextEmbedding(text: string): Promise<number[]> {
+    this.texts.push(text);
+    return [
+      (text.match(/Cat/g) ?? []).length,
+      (text.match(/Car/g) ?? []).length,
+    ];
+  }
+
+  async getQueryEmbedding(query: string): Promise<number[]> {
+    return this.getTextEmbedding(query);
+  }
+}
+
+const text = "Cats purr. Cats meow.\n\n Cars drive. Cars honk. Cars park.";
+
+describe("SemanticSplitterNodeParser", () => {
+  test("splits the text where the topic changes", async () => {
+    const nodeParser = new SemanticSplitterNodeParser({
+      embedModel: new TopicEmbedding(),
+      bufferSize: 0,
+    });
+
+    const nodes = await nodeParser.splitDocuments([new Document({ text })]);
+
+    expect(nodes.map((node) => node.getContent(MetadataMode.NONE))).toEqual([
+      "Cats purr. Cats meow.",
+      "Cars drive. Cars honk. Cars park.",
+    ]);
+    expect(
+      nodes.map(({ startCharIdx, endCharIdx }) =>
+        text.slice(startCharIdx, endCharIdx),
+      ),
+    ).toEqual(["Cats purr. Cats meow.", "Cars drive. Cars honk. Cars park."]);
+    expect(nodes[0].nextNode?.nodeId).toBe(nodes[1].id_);
+    expect(nodes[1].prevNode?.nodeId).toBe(nodes[0].id_);
+  });
+
+  test("splits the documents as a transformation", async () => {
+    const nodeParser = new SemanticSplitterNodeParser({
+      embedModel: new TopicEmbedding(),
+      bufferSize: 0,
+    });
+
+    const nodes = await nodeParser.transform([new Document({ text })]);
+
+    expect(nodes).toHaveLength(2);
+  });
+
+  test("embeds the sentences with the sentences around them", async () => {
+    const embedModel = new TopicEmbedding();
+    const nodeParser = new SemanticSplitterNodeParser({
+      embedModel,
+      bufferSize: 1,
+    });
+
+    await nodeParser.splitText("One. Two. Three.");
+
+    expect(embedModel.texts).toEqual([
+      "One. Two.",
+      "One. Two. Three.",
+      "Two. Three.",
+    ]);
+  });
+
+  test("returns a single chunk for a single sentence", async () => {
+    const embedModel = new TopicEmbedding();
+    const nodeParser = new SemanticSplitterNodeParser({ embedModel });
+
+    const chunks = await nodeParser.splitText("  Only one sentence. ");
+
+    expect(chunks).toEqual([
+      { text: "Only one sentence.", startCharIdx: 2, endCharIdx: 20 },
+    ]);
+    expect(embedModel.texts).toEqual([]);
+  });
+});
@@ -1,14 +1,22 @@
 import type { ServiceContext } from "llamaindex";
 import {
   FunctionTool,
+  JSONSerializer,
   ObjectIndex,
+  ObjectSerializerRegistry,
   OpenAI,
   OpenAIEmbedding,
+  SerializedObjectNodeMapping,
   SimpleToolNodeMapping,
+  ToolSerializer,
   VectorStoreIndex,
   serviceContextFromDefaults,
+  storageContextFromDefaults,
 } from "llamaindex";
-import { beforeAll, describe, expect, test, vi } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeAll, describe, expect, test, vi } from "vitest";
 import {
   mockEmbeddingModel,
   mockLlmGeneration,
@@ -22,9 +30,10 @@ vi.mock("llamaindex/llm/open_ai", () => {
 
 describe("ObjectIndex", () => {
   let serviceContext: ServiceContext;
+  let embeddingModel: OpenAIEmbedding;
 
   beforeAll(() => {
-    const embeddingModel = new OpenAIEmbedding();
+    embeddingModel = new OpenAIEmbedding();
     const llm = new OpenAI();
 
     mockEmbeddingModel(embeddingModel);
@@ -131,4 +140,71 @@ describe("ObjectIndex", () => {
 
     expect(Object.keys(tools).length).toBe(2);
   });
+
+  describe("with a persist dir", () => {
+    let persistDir: string;
+
+    afterEach(() => {
+      rmSync(persistDir, { recursive: true, force: true });
+    });
+
+    test("persists and reloads tools and JSON objects", async () => {
+      persistDir = mkdtempSync(join(tmpdir(), "object-index-"));
+      const createTool = () =>
+        new FunctionTool(({ x }: { x: string }) => x, {
+          name: "echo",
+          description: "Echoes its input",
+        });
+      const document = { title: "Guide", url: "https://example.com" };
+
+      const objectIndex = await ObjectIndex.fromObjects(
+        [createTool(), document],
+        SerializedObjectNodeMapping.fromObjects([createTool(), document]),
+        VectorStoreIndex,
+        {
+          serviceContext,
+          storageContext: await storageContextFromDefaults({ persistDir }),
+        },
+      );
+      // only the tools are listed, by name
+      expect(Object.keys(objectIndex.tools)).toEqual(["echo"]);
+      const embeddingCalls = vi.mocked(embeddingModel.getTextEmbeddings).mock
+        .calls.length;
+
+      // e.g. after a restart: the tools are registered again, but not embedded
+      const tool = createTool();
+      const registry = new ObjectSerializerRegistry([
+        new ToolSerializer([tool]),
+        new JSONSerializer(),
+      ]);
+      const reloaded = await ObjectIndex.fromStorage(
+        new SerializedObjectNodeMapping(registry),
+        VectorStoreIndex,
+        {
+          serviceContext,
+          storageContext: await storageContextFromDefaults({ persistDir }),
+        },
+      );
+      const retriever = await reloaded.asRetriever({ serviceContext });
+      const objects = await retriever.retrieve("echo");
+
+      expect(objects).toHaveLength(2);
+      expect(objects).toContain(tool);
+      expect(objects).toContainEqual(document);
+      expect(
+        vi.mocked(embeddingModel.getTextEmbeddings).mock.calls,
+      ).toHaveLength(embeddingCalls);
+      expect(reloaded.tools).toEqual({});
+    });
+  });
+
+  test("throws for tools missing in the registry", () => {
+    const mapping = new SerializedObjectNodeMapping(
+      new ObjectSerializerRegistry([new ToolSerializer()]),
+    );
+    const node = new SerializedObjectNodeMapping().toNode(
+      new FunctionTool(() => "", { name: "unknown", description: "" }),
+    );
+    expect(() => mapping.fromNode(node)).toThrow("not registered");
+  });
 });
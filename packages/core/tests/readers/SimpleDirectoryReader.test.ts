@@ -0,0 +1,45 @@
+import { SimpleDirectoryReader } from "llamaindex/readers/SimpleDirectoryReader";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+
+const directoryPath = "/tmp/test_simple_directory_reader_dir";
+
+describe("SimpleDirectoryReader", () => {
+  beforeAll(() => {
+    mkdirSync(`${directoryPath}/sub`, { recursive: true });
+    writeFileSync(`${directoryPath}/a.txt`, "a");
+    writeFileSync(`${directoryPath}/sub/b.txt`, "b");
+  });
+
+  afterAll(() => {
+    rmSync(directoryPath, { recursive: true, force: true });
+  });
+
+  test("lazyLoadData yields the documents of each file", async () => {
+    const reader = new SimpleDirectoryReader();
+
+    const texts: string[] = [];
+    for await (const document of reader.lazyLoadData(directoryPath)) {
+      texts.push(document.text);
+    }
+
+    expect(texts.sort()).toEqual(["a", "b"]);
+  });
+
+  test("lazyLoadData stops when the observer cancels the reading", async () => {
+    writeFileSync(`${directoryPath}/c.unknown`, "c");
+    // cancels the reading for files without reader
+    const reader = new SimpleDirectoryReader(
+      (category, name, status) => status !== 2,
+    );
+    const params = { directoryPath, defaultReader: null };
+
+    const texts: string[] = [];
+    for await (const document of reader.lazyLoadData(params)) {
+      texts.push(document.text);
+    }
+
+    expect(texts.length).toBeLessThan(2);
+    expect(await reader.loadData(params)).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import type { BaseNode, NodeWithScore } from "llamaindex/Node";
+import { Document, MetadataMode } from "llamaindex/Node";
+import type { BaseRetriever } from "llamaindex/Retriever";
+import { serviceContextFromDefaults } from "llamaindex/ServiceContext";
+import {
+  HierarchicalNodeParser,
+  getLeafNodes,
+  getRootNodes,
+} from "llamaindex/nodeParsers/index";
+import { AutoMergingRetriever } from "llamaindex/retrievers/index";
+import { SimpleDocumentStore } from "llamaindex/storage/docStore/SimpleDocumentStore";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+
+vi.mock("llamaindex/llm/open_ai", () => {
+  return {
+    getOpenAISession: vi.fn().mockImplementation(() => null),
+  };
+});
+
+const text = Array.from(
+  { length: 40 },
+  (_, i) => `This is sentence number ${i} of the document.`,
+).join(" ");
+
+function fakeRetriever(results: [BaseNode, number][]): BaseRetriever {
+  return {
+    async retrieve(): Promise<NodeWithScore[]> {
+      return results.map(([node, score]) => ({ node, score }));
+    },
+    getServiceContext: () => serviceContextFromDefaults({}),
+  };
+}
+
+describe("AutoMergingRetriever", () => {
+  let nodes: BaseNode[];
+  let docStore: SimpleDocumentStore;
+
+  beforeEach(async () => {
+    const parser = new HierarchicalNodeParser({
+      chunkSizes: [200, 50],
+      chunkOverlap: 0,
+    });
+    nodes = parser.getNodesFromDocuments([new Document({ text })]);
+    docStore = new SimpleDocumentStore();
+    await docStore.addDocuments(nodes, true);
+  });
+
+  const childrenOf = (parent: BaseNode) =>
+    parent.childNodes!.map(
+      ({ nodeId }) => nodes.find((node) => node.id_ === nodeId)!,
+    );
+
+  test("replaces the children with their parent when most of them are retrieved", async () => {
+    const [firstRoot, secondRoot] = getRootNodes(nodes);
+    const firstChildren = childrenOf(firstRoot);
+    const secondChildren = childrenOf(secondRoot);
+    const retrieved: [BaseNode, number][] = [
+      ...firstChildren.map((node): [BaseNode, number] => [node, 0.5]),
+      [secondChildren[0], 0.9],
+    ];
+    const retriever = new AutoMergingRetriever({
+      vectorRetriever: fakeRetriever(retrieved),
+      docStore,
+    });
+
+    const result = await retriever.retrieve({ query: "query" });
+
+    expect(result.map(({ node }) => node.id_)).toEqual([
+      secondChildren[0].id_,
+      firstRoot.id_,
+    ]);
+    expect(result[1].score).toBeCloseTo(0.5);
+    expect(result[1].node.getContent(MetadataMode.NONE)).toBe(
+      firstRoot.getContent(MetadataMode.NONE),
+    );
+  });
+
+  test("keeps the children if not enough of them are retrieved", async () => {
+    const [root] = getRootNodes(nodes);
+    const children = childrenOf(root);
+    const retriever = new AutoMergingRetriever({
+      vectorRetriever: fakeRetriever([[children[0], 0.9]]),
+      docStore,
+      simpleRatioThresh: 1 / children.length,
+    });
+
+    const result = await retriever.retrieve({ query: "query" });
+
+    expect(children.length).toBeGreaterThan(1);
+    expect(result.map(({ node }) => node.id_)).toEqual([children[0].id_]);
+    expect(getLeafNodes(nodes)).toContain(children[0]);
+  });
+});
@@ -0,0 +1,148 @@
+import type { NodeWithScore } from "llamaindex/Node";
+import { TextNode } from "llamaindex/Node";
+import type { BaseRetriever } from "llamaindex/Retriever";
+import { serviceContextFromDefaults } from "llamaindex/ServiceContext";
+import { OpenAI } from "llamaindex/llm/index";
+import { QueryFusionRetriever } from "llamaindex/retrievers/index";
+import { HybridFusionMode } from "llamaindex/storage/index";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+
+vi.mock("llamaindex/llm/open_ai", () => {
+  return {
+    getOpenAISession: vi.fn().mockImplementation(() => null),
+  };
+});
+
+const nodes: Record<string, TextNode> = Object.fromEntries(
+  ["a", "b", "c", "d"].map((id) => [id, new TextNode({ id_: id, text: id })]),
+);
+
+function fakeRetriever(
+  results: Record<string, [string, number | undefined][]>,
+): BaseRetriever & { queries: string[] } {
+  const queries: string[] = [];
+  return {
+    queries,
+    async retrieve({ query }): Promise<NodeWithScore[]> {
+      queries.push(query);
+      return (results[query] ?? []).map(([id, score]) => ({
+        node: nodes[id],
+        score,
+      }));
+    },
+    getServiceContext: () => serviceContextFromDefaults({}),
+  };
+}
+
+describe("QueryFusionRetriever", () => {
+  let llm: OpenAI;
+
+  beforeEach(() => {
+    llm = new OpenAI();
+    vi.spyOn(llm, "complete").mockResolvedValue({
+      text: "1. cats\n2. kittens\n3. felines",
+    } as any);
+  });
+
+  test("fuses the results of all retrievers and generated queries by rank", async () => {
+    const vector = fakeRetriever({
+      cat: [
+        ["a", 0.9],
+        ["b", 0.8],
+      ],
+      cats: [
+        ["b", 0.9],
+        ["c", 0.7],
+      ],
+    });
+    const keyword = fakeRetriever({
+      cat: [
+        ["b", undefined],
+        ["d", undefined],
+      ],
+    });
+    const retriever = new QueryFusionRetriever({
+      retrievers: [vector, keyword],
+      serviceContext: serviceContextFromDefaults({ llm }),
+      numQueries: 3,
+      similarityTopK: 4,
+    });
+
+    const results = await retriever.retrieve({ query: "cat" });
+
+    expect(vector.queries).toEqual(["cat", "cats", "kittens"]);
+    expect(keyword.queries).toEqual(["cat", "cats", "kittens"]);
+    expect(results.map(({ node }) => node.id_)).toEqual(["b", "a", "d", "c"]);
+    expect(results[0].score).toBeCloseTo(2 / 61 + 1 / 62);
+  });
+
+  test("doesn't generate queries if numQueries is 1", async () => {
+    const vector = fakeRetriever({ cat: [["a", 0.5]] });
+    const retriever = new QueryFusionRetriever({
+      retrievers: [vector],
+      serviceContext: serviceContextFromDefaults({ llm }),
+      numQueries: 1,
+    });
+
+    const results = await retriever.retrieve({ query: "cat" });
+
+    expect(llm.complete).not.toHaveBeenCalled();
+    expect(results).toEqual([{ node: nodes.a, score: 1 / 61 }]);
+  });
+
+  test("relative score fusion weights the normalized scores", async () => {
+    const first = fakeRetriever({
+      cat: [
+        ["a", 10],
+        ["b", 5],
+        ["c", 0],
+      ],
+    });
+    const second = fakeRetriever({
+      cat: [
+        ["c", 0.8],
+        ["a", 0.4],
+      ],
+    });
+    const retriever = new QueryFusionRetriever({
+      retrievers: [first, second],
+      numQueries: 1,
+      mode: HybridFusionMode.RELATIVE_SCORE,
+      retrieverWeights: [3, 1],
+      similarityTopK: 2,
+    });
+
+    const results = await retriever.retrieve({ query: "cat" });
+
+    expect(results.map(({ node }) => node.id_)).toEqual(["a", "b"]);
+    expect(results[0].score).toBeCloseTo(0.75);
+    expect(results[1].score).toBeCloseTo(0.375);
+  });
+
+  test("relative score fusion normalizes the results without scores by rank", async () => {
+    const vector = fakeRetriever({ cat: [["a", 0.5]] });
+    const keyword = fakeRetriever({
+      cat: [
+        ["b", undefined],
+        ["c", undefined],
+        ["d", undefined],
+      ],
+    });
+    const retriever = new QueryFusionRetriever({
+      retrievers: [vector, keyword],
+      numQueries: 1,
+      mode: HybridFusionMode.RELATIVE_SCORE,
+      similarityTopK: 4,
+    });
+
+    const results = await retriever.retrieve({ query: "cat" });
+
+    // a single result has the maximum score
+    expect(results).toEqual([
+      { node: nodes.a, score: 0.5 },
+      { node: nodes.b, score: 0.5 },
+      { node: nodes.c, score: 0.25 },
+      { node: nodes.d, score: 0 },
+    ]);
+  });
+});
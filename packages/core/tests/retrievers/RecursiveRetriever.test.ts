@@ -0,0 +1,133 @@
+import type { BaseNode, NodeWithScore } from "llamaindex/Node";
+import { IndexNode, MetadataMode, TextNode } from "llamaindex/Node";
+import { Response } from "llamaindex/Response";
+import type { BaseRetriever } from "llamaindex/Retriever";
+import { serviceContextFromDefaults } from "llamaindex/ServiceContext";
+import { RecursiveRetriever } from "llamaindex/retrievers/index";
+import { docToJson, jsonToDoc } from "llamaindex/storage/docStore/utils";
+import type { BaseQueryEngine } from "llamaindex/types";
+import { describe, expect, test, vi } from "vitest";
+
+vi.mock("llamaindex/llm/open_ai", () => {
+  return {
+    getOpenAISession: vi.fn().mockImplementation(() => null),
+  };
+});
+
+function fakeRetriever(
+  results: [BaseNode, number][],
+): BaseRetriever & { queries: string[] } {
+  const queries: string[] = [];
+  return {
+    queries,
+    async retrieve({ query }): Promise<NodeWithScore[]> {
+      queries.push(query);
+      return results.map(([node, score]) => ({ node, score }));
+    },
+    getServiceContext: () => serviceContextFromDefaults({}),
+  };
+}
+
+const chunk = (id: string) => new TextNode({ id_: id, text: id });
+const reference = (id: string, indexId: string) =>
+  new IndexNode({ id_: id, text: `summary of ${indexId}`, indexId });
+
+describe("RecursiveRetriever", () => {
+  test("follows IndexNodes to retrievers, query engines and nodes", async () => {
+    const docRetriever = fakeRetriever([
+      [chunk("chunk1"), 0.7],
+      [chunk("chunk2"), 0.6],
+    ]);
+    const queryEngine: BaseQueryEngine = {
+      query: vi.fn().mockResolvedValue(new Response("42 rows")),
+    };
+    const retriever = new RecursiveRetriever({
+      rootId: "root",
+      retrieverDict: {
+        root: fakeRetriever([
+          [reference("summary1", "doc"), 0.9],
+          [reference("summary2", "table"), 0.8],
+          [reference("summary3", "chunk3"), 0.5],
+          [chunk("chunk4"), 0.4],
+        ]),
+        doc: docRetriever,
+      },
+      queryEngineDict: { table: queryEngine },
+      nodeDict: { chunk3: chunk("chunk3") },
+    });
+
+    const nodes = await retriever.retrieve({ query: "how many rows?" });
+
+    expect(nodes.map(({ node }) => node.getContent(MetadataMode.NONE))).toEqual(
+      ["chunk1", "chunk2", "42 rows", "chunk3", "chunk4"],
+    );
+    expect(nodes.map(({ score }) => score)).toEqual([0.7, 0.6, 0.8, 0.5, 0.4]);
+    expect(docRetriever.queries).toEqual(["how many rows?"]);
+    expect(queryEngine.query).toHaveBeenCalledWith(
+      expect.objectContaining({ query: "how many rows?" }),
+    );
+  });
+
+  test("skips cycles and stops at the max depth", async () => {
+    const retrieverDict: Record<string, BaseRetriever> = {
+      root: fakeRetriever([[reference("toA", "a"), 0.9]]),
+      a: fakeRetriever([
+        [reference("toRoot", "root"), 0.8],
+        [reference("toB", "b"), 0.7],
+      ]),
+      b: fakeRetriever([
+        [reference("toC", "c"), 0.6],
+        [chunk("chunkB"), 0.5],
+      ]),
+      c: fakeRetriever([[chunk("chunkC"), 0.4]]),
+    };
+
+    const unlimited = new RecursiveRetriever({ rootId: "root", retrieverDict });
+    const nodes = await unlimited.retrieve({ query: "query" });
+    expect(nodes.map(({ node }) => node.id_)).toEqual(["chunkC", "chunkB"]);
+
+    const limited = new RecursiveRetriever({
+      rootId: "root",
+      retrieverDict,
+      maxDepth: 2,
+    });
+    const limitedNodes = await limited.retrieve({ query: "query" });
+    expect(limitedNodes.map(({ node }) => node.id_)).toEqual(["toC", "chunkB"]);
+  });
+
+  test("keeps the best score of nodes retrieved several times", async () => {
+    const retriever = new RecursiveRetriever({
+      rootId: "root",
+      retrieverDict: {
+        root: fakeRetriever([
+          [reference("summary1", "a"), 0.9],
+          [chunk("chunk1"), 0.3],
+        ]),
+        a: fakeRetriever([[chunk("chunk1"), 0.8]]),
+      },
+    });
+
+    const nodes = await retriever.retrieve({ query: "query" });
+
+    expect(nodes).toHaveLength(1);
+    expect(nodes[0].score).toBe(0.8);
+  });
+
+  test("throws for unknown index ids", async () => {
+    const retriever = new RecursiveRetriever({
+      rootId: "root",
+      retrieverDict: { root: fakeRetriever([[reference("s", "missing"), 1]]) },
+    });
+
+    await expect(retriever.retrieve({ query: "query" })).rejects.toThrow(
+      "No retriever, query engine or node found for index id missing",
+    );
+  });
+
+  test("IndexNodes are restored from the docstore", () => {
+    const node = jsonToDoc(docToJson(reference("summary1", "doc")));
+
+    expect(node).toBeInstanceOf(IndexNode);
+    expect((node as IndexNode).indexId).toBe("doc");
+  });
+});
@@ -1,6 +1,13 @@
-import { FunctionTool, ToolOutput } from "llamaindex/tools/index";
+import {
+  FunctionTool,
+  ToolArgumentsError,
+  ToolOutput,
+} from "llamaindex/tools/index";
 import { callToolWithErrorHandling } from "llamaindex/tools/utils";
 import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import * as zm from "zod/mini";
+import { z as z3 } from "zod/v3";
 
 function sumNumbers({ a, b }: { a: number; b: number }): number {
   return a + b;
@@ -44,3 +51,148 @@ describe("Tools", () => {
     );
   });
 });
+
+describe("FunctionTool validation", () => {
+  const bookTool = new FunctionTool(
+    (input: { city: string; nights: number; guests: { name: string }[] }) =>
+      input,
+    {
+      name: "bookHotel",
+      description: "Books a hotel",
+      parameters: {
+        type: "object",
+        properties: {
+          city: { type: "string", enum: ["Paris", "Rome"] },
+          nights: { type: "integer" },
+          breakfast: { type: "boolean", default: false },
+          guests: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { name: { type: "string" } },
+              required: ["name"],
+            },
+          },
+        },
+        required: ["city", "nights", "guests"],
+      },
+    },
+  );
+
+  it("coerces the arguments to the types of the schema", async () => {
+    const output = await callToolWithErrorHandling(
+      bookTool,
+      '{"city":"Paris","nights":"2","guests":"[{\\"name\\":\\"Ann\\"}]"}',
+    );
+    expect(output.isError).toBe(false);
+    expect(output.rawOutput).toEqual({
+      city: "Paris",
+      nights: 2,
+      breakfast: false,
+      guests: [{ name: "Ann" }],
+    });
+  });
+
+  it("returns the validation issues as a structured error", async () => {
+    const output = await callToolWithErrorHandling(bookTool, {
+      city: "Berlin",
+      nights: 1.5,
+      guests: [{}],
+    });
+    expect(output.isError).toBe(true);
+    expect(JSON.parse(output.content)).toEqual({
+      error: "Invalid arguments for tool bookHotel",
+      issues: [
+        {
+          path: "city",
+          message: 'expected one of "Paris", "Rome", got "Berlin"',
+        },
+        { path: "nights", message: "expected integer, got number" },
+        { path: "guests[0].name", message: "is required" },
+      ],
+    });
+  });
+
+  it("returns invalid JSON arguments as an error", async () => {
+    const output = await callToolWithErrorHandling(bookTool, "{city:");
+    expect(output.isError).toBe(true);
+    expect(output.rawOutput).toBeInstanceOf(ToolArgumentsError);
+    expect(JSON.parse(output.content).error).toContain("not valid JSON");
+  });
+
+  it("uses a Zod 4 schema for the parameters and the validation", async () => {
+    const tool = new FunctionTool((input: { city: string }) => input.city, {
+      name: "weather",
+      description: "Gets the weather of a city",
+      parameters: z.object({
+        city: z.string().describe("The city"),
+        nights: z.number().optional(),
+        breakfast: z.boolean().default(false),
+      }),
+    });
+
+    expect(tool.metadata.parameters).toEqual({
+      type: "object",
+      properties: {
+        city: { type: "string", description: "The city" },
+        nights: { type: "number" },
+        breakfast: { type: "boolean", default: false },
+      },
+      required: ["city"],
+    });
+    expect(await tool.call({ city: "Paris", breakfast: true })).toBe("Paris");
+    expect(tool.validate({ city: "Paris" })).toEqual({
+      city: "Paris",
+      breakfast: false,
+    });
+    expect(() => tool.validate({})).toThrow(ToolArgumentsError);
+    const output = await callToolWithErrorHandling(tool, {});
+    expect(JSON.parse(output.content).issues).toEqual([
+      {
+        path: "city",
+        message: "Invalid input: expected string, received undefined",
+      },
+    ]);
+  });
+
+  it("uses a Zod 3 schema for the parameters and the validation", async () => {
+    const tool = new FunctionTool((input: { city: string }) => input.city, {
+      name: "weather",
+      description: "Gets the weather of a city",
+      parameters: z3.object({
+        city: z3.string().describe("The city"),
+        nights: z3.number().int().optional(),
+        breakfast: z3.boolean().default(false),
+      }),
+    });
+
+    expect(tool.metadata.parameters).toEqual({
+      type: "object",
+      properties: {
+        city: { type: "string", description: "The city" },
+        nights: { type: "integer" },
+        breakfast: { type: "boolean", default: false },
+      },
+      required: ["city"],
+    });
+    expect(await tool.call({ city: "Paris", breakfast: true })).toBe("Paris");
+    const output = await callToolWithErrorHandling(tool, {
+      city: "Paris",
+      nights: 1.5,
+    });
+    expect(JSON.parse(output.content).issues).toEqual([
+      { path: "nights", message: "Expected integer, received float" },
+    ]);
+  });
+
+  it("rejects Zod schemas that can't be converted to JSON Schema", () => {
+    expect(
+      () =>
+        new FunctionTool(() => "", {
+          name: "weather",
+          description: "Gets the weather of a city",
+          parameters: zm.object({ city: zm.string() }),
+        }),
+    ).toThrow("can't be converted to JSON Schema");
+  });
+});
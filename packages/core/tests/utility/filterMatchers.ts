@@ -0,0 +1,122 @@
+import type { Metadata } from "llamaindex/Node";
+
+// Minimal interpreters of the filter languages of the vector stores,
+// used to check that translated metadata filters select the same nodes.
+
+function matchesValue(
+  fieldValue: unknown,
+  predicate: (value: unknown) => boolean,
+): boolean {
+  // like MongoDB, an array field matches if one of its items matches
+  return Array.isArray(fieldValue)
+    ? fieldValue.some(predicate)
+    : predicate(fieldValue);
+}
+
+function comparable(a: unknown, b: unknown): boolean {
+  return (
+    typeof a === typeof b && (typeof a === "number" || typeof a === "string")
+  );
+}
+
+function matchesMongoOperator(
+  fieldValue: any,
+  operator: string,
+  operand: any,
+): boolean {
+  switch (operator) {
+    case "$eq":
+      return matchesValue(fieldValue, (v) => v === operand);
+    case "$ne":
+      return !matchesValue(fieldValue, (v) => v === operand);
+    case "$gt":
+      return matchesValue(
+        fieldValue,
+        (v: any) => comparable(v, operand) && v > operand,
+      );
+    case "$gte":
+      return matchesValue(
+        fieldValue,
+        (v: any) => comparable(v, operand) && v >= operand,
+      );
+    case "$lt":
+      return matchesValue(
+        fieldValue,
+        (v: any) => comparable(v, operand) && v < operand,
+      );
+    case "$lte":
+      return matchesValue(
+        fieldValue,
+        (v: any) => comparable(v, operand) && v <= operand,
+      );
+    case "$in":
+      return matchesValue(fieldValue, (v) => operand.includes(v));
+    case "$nin":
+      return !matchesValue(fieldValue, (v) => operand.includes(v));
+    case "$all":
+      return (
+        Array.isArray(fieldValue) &&
+        operand.every((v: unknown) => fieldValue.includes(v))
+      );
+    default:
+      throw new Error(`Unknown operator ${operator}`);
+  }
+}
+
+export function mongoMatch(
+  metadata: Metadata,
+  filter: Record<string, any> | undefined,
+): boolean {
+  if (!filter) {
+    return true;
+  }
+  return Object.entries(filter).every(([key, condition]) => {
+    switch (key) {
+      case "$and":
+        return condition.every((f: any) => mongoMatch(metadata, f));
+      case "$or":
+        return condition.some((f: any) => mongoMatch(metadata, f));
+      case "$nor":
+        return !condition.some((f: any) => mongoMatch(metadata, f));
+      default:
+        return Object.entries(condition).every(([operator, operand]) =>
+          matchesMongoOperator(metadata[key], operator, operand),
+        );
+    }
+  });
+}
+
+function qdrantConditionMatch(
+  payload: Metadata,
+  condition: Record<string, any>,
+): boolean {
+  if (!("key" in condition)) {
+    return qdrantMatch(payload, condition);
+  }
+  const fieldValue = payload[condition.key];
+  if (condition.match) {
+    const { value, any, text } = condition.match;
+    if (text !== undefined) {
+      return typeof fieldValue === "string" && fieldValue.includes(text);
+    }
+    if (any !== undefined) {
+      return matchesValue(fieldValue, (v) => any.includes(v));
+    }
+    return matchesValue(fieldValue, (v) => v === value);
+  }
+  return Object.entries(condition.range).every(([operator, operand]) =>
+    matchesMongoOperator(fieldValue, `$${operator}`, operand),
+  );
+}
+
+export function qdrantMatch(
+  payload: Metadata,
+  filter: Record<string, any>,
+): boolean {
+  const { must, should, must_not: mustNot } = filter;
+  return (
+    (!must || must.every((c: any) => qdrantConditionMatch(payload, c))) &&
+    (!should || should.some((c: any) => qdrantConditionMatch(payload, c))) &&
+    (!mustNot || !mustNot.some((c: any) => qdrantConditionMatch(payload, c)))
+  );
+}
@@ -0,0 +1,137 @@
+import { getTopKEmbeddings } from "llamaindex/embeddings/utils";
+import { TextNode } from "llamaindex/Node";
+import {
+  HNSWIndex,
+  SimpleVectorStore,
+  VectorStoreQueryMode,
+} from "llamaindex/storage/index";
+import { rmSync } from "node:fs";
+import { describe, expect, test } from "vitest";
+
+// deterministic pseudo random vectors
+function randomVectors(count: number, dimensions: number): number[][] {
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648 - 0.5;
+  };
+  return Array.from({ length: count }, () =>
+    Array.from({ length: dimensions }, random),
+  );
+}
+
+describe("HNSWIndex", () => {
+  const vectors = randomVectors(500, 16);
+  const ids = vectors.map((_, i) => `node-${i}`);
+
+  function buildIndex() {
+    const index = new HNSWIndex({ M: 8, efSearch: 64 });
+    vectors.forEach((vector, i) => index.add(ids[i], vector));
+    return index;
+  }
+
+  test("finds the nearest neighbours", () => {
+    const index = buildIndex();
+    let found = 0;
+    for (const query of vectors.slice(0, 20)) {
+      const [, expected] = getTopKEmbeddings(query, vectors, 10, ids);
+      const [similarities, result] = index.search(query, 10);
+      expect(similarities[0]).toBeCloseTo(1);
+      found += result.filter((id) => expected.includes(id)).length;
+    }
+    expect(found / 200).toBeGreaterThan(0.9);
+  });
+
+  test("does not return deleted vectors", () => {
+    const index = buildIndex();
+    index.delete("node-0");
+    const [, result] = index.search(vectors[0], 5);
+    expect(result).not.toContain("node-0");
+    expect(index.size).toBe(499);
+  });
+
+  test("rebuilds the graph when most vectors are deleted", () => {
+    const index = buildIndex();
+    ids.slice(0, 400).forEach((id) => index.delete(id));
+    expect(index.size).toBe(100);
+    // deleted nodes never make up more than half of the graph
+    expect(index.toJSON().ids.length).toBeLessThanOrEqual(200);
+    const [, result] = index.search(vectors[450], 1);
+    expect(result).toEqual(["node-450"]);
+  });
+
+  test("filters results", () => {
+    const index = buildIndex();
+    const [, result] = index.search(vectors[0], 3, (id) => id !== "node-0");
+    expect(result).toHaveLength(3);
+    expect(result).not.toContain("node-0");
+  });
+
+  test("can be serialized", () => {
+    const index = buildIndex();
+    const restored = HNSWIndex.fromJSON(
+      JSON.parse(JSON.stringify(index.toJSON())),
+    );
+    expect(restored.search(vectors[7], 5)).toEqual(index.search(vectors[7], 5));
+  });
+});
+
+describe("SimpleVectorStore with HNSW index", () => {
+  const vectors = randomVectors(50, 8);
+  const nodes = vectors.map(
+    (embedding, i) =>
+      new TextNode({
+        id_: `node-${i}`,
+        embedding,
+        metadata: { even: i % 2 === 0 },
+      }),
+  );
+
+  test("queries the index", async () => {
+    const store = new SimpleVectorStore(undefined, undefined, { hnsw: {} });
+    await store.add(nodes);
+    const result = await store.query({
+      queryEmbedding: vectors[3],
+      similarityTopK: 3,
+      mode: VectorStoreQueryMode.DEFAULT,
+      filters: { filters: [{ key: "even", value: true }] },
+    });
+    const [similarities, ids] = getTopKEmbeddings(
+      vectors[3],
+      vectors.filter((_, i) => i % 2 === 0),
+      3,
+      nodes.filter((_, i) => i % 2 === 0).map((node) => node.id_),
+    );
+    expect(result.ids).toEqual(ids);
+    result.similarities.forEach((similarity, i) =>
+      expect(similarity).toBeCloseTo(similarities[i]),
+    );
+  });
+
+  test("persists the index", async () => {
+    const persistDir = "/tmp/test_hnsw_dir";
+    const store = await SimpleVectorStore.fromPersistDir(
+      persistDir,
+      undefined,
+      {
+        hnsw: {},
+      },
+    );
+    await store.add(nodes);
+    await store.delete("unknown");
+
+    const restored = await SimpleVectorStore.fromPersistDir(
+      persistDir,
+      undefined,
+      { hnsw: {} },
+    );
+    const query = {
+      queryEmbedding: vectors[5],
+      similarityTopK: 5,
+      mode: VectorStoreQueryMode.DEFAULT,
+    };
+    expect(await restored.query(query)).toEqual(await store.query(query));
+
+    rmSync(persistDir, { recursive: true });
+  });
+});
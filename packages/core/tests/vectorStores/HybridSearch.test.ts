@@ -0,0 +1,224 @@
+import { Document, MetadataMode, TextNode } from "llamaindex/Node";
+import type { ServiceContext } from "llamaindex/ServiceContext";
+import { serviceContextFromDefaults } from "llamaindex/ServiceContext";
+import { BM25Embedding, OpenAIEmbedding } from "llamaindex/embeddings/index";
+import { VectorStoreIndex } from "llamaindex/indices/vectorStore/index";
+import { storageContextFromDefaults } from "llamaindex/storage/StorageContext";
+import {
+  HybridFusionMode,
+  SimpleVectorStore,
+  VectorStoreQueryMode,
+} from "llamaindex/storage/index";
+import { fuseHybridQueryResults } from "llamaindex/storage/vectorStore/utils";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { mockEmbeddingModel } from "../utility/mockOpenAI.js";
+
+vi.mock("llamaindex/llm/open_ai", () => {
+  return {
+    getOpenAISession: vi.fn().mockImplementation(() => null),
+  };
+});
+
+const texts = [
+  "the cat sat on the mat",
+  "dogs and cats are pets",
+  "the stock market fell today",
+];
+
+describe("BM25Embedding", () => {
+  test("scores texts containing rare query terms higher", async () => {
+    const bm25 = new BM25Embedding();
+    const embeddings = await bm25.getTextSparseEmbeddings(texts);
+    const query = await bm25.getQuerySparseEmbedding("the market");
+
+    const scores = embeddings.map((embedding) =>
+      embedding.indices.reduce((score, index, i) => {
+        const q = query.indices.indexOf(index);
+        return q === -1 ? score : score + query.values[q] * embedding.values[i];
+      }, 0),
+    );
+    expect(scores[2]).toBeGreaterThan(scores[0]);
+    expect(scores[1]).toBe(0);
+  });
+
+  test("serializes the corpus statistics", async () => {
+    const bm25 = new BM25Embedding({ k1: 1.5 });
+    await bm25.getTextSparseEmbeddings(texts);
+    const restored = BM25Embedding.fromJSON(
+      JSON.parse(JSON.stringify(bm25.toJSON())),
+    );
+    expect(restored.k1).toBe(1.5);
+    expect(await restored.getQuerySparseEmbedding("cat")).toEqual(
+      await bm25.getQuerySparseEmbedding("cat"),
+    );
+  });
+
+  test("transform sets the sparse embedding of the nodes", async () => {
+    const nodes = texts.map((text) => new TextNode({ text }));
+    await new BM25Embedding().transform(nodes);
+    expect(nodes.every((node) => node.sparseEmbedding)).toBe(true);
+  });
+});
+
+describe("fuseHybridQueryResults", () => {
+  const dense = { ids: ["a", "b", "c"], similarities: [1, 0.6, 0.5] };
+  const sparse = { ids: ["c", "b", "d"], similarities: [4, 2, 0] };
+
+  test("weights normalized scores by alpha", () => {
+    const query = {
+      similarityTopK: 3,
+      mode: VectorStoreQueryMode.HYBRID,
+      alpha: 0.6,
+    };
+    const result = fuseHybridQueryResults(query, dense, sparse);
+    expect(result.ids).toEqual(["a", "c", "b"]);
+    expect(result.similarities[0]).toBeCloseTo(0.6);
+    expect(result.similarities[1]).toBeCloseTo(0.4);
+    expect(result.similarities[2]).toBeCloseTo(0.32);
+    expect(
+      fuseHybridQueryResults(
+        { ...query, alpha: 0, similarityTopK: 2 },
+        dense,
+        sparse,
+      ).ids,
+    ).toEqual(["c", "b"]);
+  });
+
+  test("reciprocal rank fusion", () => {
+    const result = fuseHybridQueryResults(
+      {
+        similarityTopK: 3,
+        mode: VectorStoreQueryMode.HYBRID,
+        hybridFusionMode: HybridFusionMode.RECIPROCAL_RANK,
+      },
+      dense,
+      sparse,
+    );
+    expect(result.ids).toEqual(["c", "b", "a"]);
+    expect(result.similarities[0]).toBeCloseTo(1 / 61 + 1 / 63);
+  });
+});
+
+describe("SimpleVectorStore hybrid search", () => {
+  let store: SimpleVectorStore;
+  let bm25: BM25Embedding;
+
+  beforeEach(async () => {
+    bm25 = new BM25Embedding();
+    const nodes = texts.map(
+      (text, i) =>
+        new TextNode({ id_: `${i}`, text, embedding: [i === 1 ? 1 : 0, 1] }),
+    );
+    await bm25.transform(nodes);
+    store = new SimpleVectorStore();
+    await store.add(nodes);
+  });
+
+  test("sparse query", async () => {
+    const result = await store.query({
+      querySparseEmbedding: await bm25.getQuerySparseEmbedding("stock"),
+      similarityTopK: 2,
+      mode: VectorStoreQueryMode.SPARSE,
+    });
+    expect(result.ids).toEqual(["2"]);
+  });
+
+  test("sparse query requires a query sparse embedding", async () => {
+    await expect(
+      store.query({ similarityTopK: 2, mode: VectorStoreQueryMode.SPARSE }),
+    ).rejects.toThrow();
+  });
+
+  test("hybrid query combines dense and sparse results", async () => {
+    const query = {
+      queryEmbedding: [1, 0],
+      querySparseEmbedding: await bm25.getQuerySparseEmbedding("stock"),
+      similarityTopK: 2,
+      mode: VectorStoreQueryMode.HYBRID,
+    };
+    expect((await store.query({ ...query, alpha: 0.7 })).ids).toEqual([
+      "1",
+      "2",
+    ]);
+    expect((await store.query({ ...query, alpha: 0 })).ids[0]).toEqual("2");
+  });
+
+  test("persists sparse embeddings", async () => {
+    const restored = SimpleVectorStore.fromDict(
+      JSON.parse(JSON.stringify(store.toDict())),
+    );
+    const result = await restored.query({
+      querySparseEmbedding: await bm25.getQuerySparseEmbedding("cat"),
+      similarityTopK: 2,
+      mode: VectorStoreQueryMode.SPARSE,
+    });
+    expect(result.ids).toEqual(["0"]);
+  });
+});
+
+describe("VectorStoreIndex with a BM25Embedding", () => {
+  let persistDir: string;
+  let serviceContext: ServiceContext;
+
+  beforeEach(() => {
+    persistDir = mkdtempSync(join(tmpdir(), "bm25-index-"));
+    const embedModel = new OpenAIEmbedding();
+    mockEmbeddingModel(embedModel);
+    serviceContext = serviceContextFromDefaults({ embedModel });
+  });
+
+  afterEach(() => {
+    rmSync(persistDir, { recursive: true, force: true });
+  });
+
+  test("persists and reloads the corpus statistics", async () => {
+    const sparseEmbedModel = new BM25Embedding();
+    await VectorStoreIndex.fromDocuments(
+      texts.map((text) => new Document({ text })),
+      {
+        serviceContext,
+        storageContext: await storageContextFromDefaults({ persistDir }),
+        sparseEmbedModel,
+      },
+    );
+    const bm25Path = join(persistDir, "bm25.json");
+    writeFileSync(bm25Path, JSON.stringify(sparseEmbedModel));
+
+    const index = await VectorStoreIndex.init({
+      serviceContext,
+      storageContext: await storageContextFromDefaults({ persistDir }),
+      sparseEmbedModel: BM25Embedding.fromJSON(
+        JSON.parse(readFileSync(bm25Path, "utf-8")),
+      ),
+    });
+    const results = await index
+      .asRetriever({ mode: VectorStoreQueryMode.SPARSE })
+      .retrieve({ query: "stock" });
+
+    expect(
+      results.map(({ node }) => node.getContent(MetadataMode.NONE)),
+    ).toEqual([texts[2]]);
+  });
+
+  test("requires the corpus statistics when loading", async () => {
+    await VectorStoreIndex.fromDocuments(
+      texts.map((text) => new Document({ text })),
+      {
+        serviceContext,
+        storageContext: await storageContextFromDefaults({ persistDir }),
+        sparseEmbedModel: new BM25Embedding(),
+      },
+    );
+
+    await expect(
+      VectorStoreIndex.init({
+        serviceContext,
+        storageContext: await storageContextFromDefaults({ persistDir }),
+        sparseEmbedModel: new BM25Embedding(),
+      }),
+    ).rejects.toThrow("BM25Embedding.fromJSON");
+  });
+});
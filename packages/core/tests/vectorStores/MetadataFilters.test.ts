@@ -0,0 +1,342 @@
+import type { Metadata } from "llamaindex/Node";
+import { TextNode } from "llamaindex/Node";
+import type { MetadataFilters } from "llamaindex/storage/index";
+import {
+  FilterCondition,
+  FilterOperator,
+  PineconeVectorStore,
+  SimpleVectorStore,
+  VectorStoreQueryMode,
+} from "llamaindex/storage/index";
+import { toAstraDBFilter } from "llamaindex/storage/vectorStore/AstraDBVectorStore";
+import { toChromaFilter } from "llamaindex/storage/vectorStore/ChromaVectorStore";
+import { toMongoDBFilter } from "llamaindex/storage/vectorStore/MongoDBAtlasVectorStore";
+import { toPostgresCondition } from "llamaindex/storage/vectorStore/PGVectorStore";
+import { toQdrantFilter } from "llamaindex/storage/vectorStore/QdrantVectorStore";
+import {
+  isMetadataFilters,
+  metadataMatchesFilters,
+  normalizeMetadataFilter,
+  pushDownNegation,
+} from "llamaindex/storage/vectorStore/utils";
+import { describe, expect, test } from "vitest";
+import { mongoMatch, qdrantMatch } from "../utility/filterMatchers.js";
+
+const nodes: Record<string, Metadata> = {
+  a: { author: "alice", year: 2020, tags: ["ai", "ml"], title: "Intro to AI" },
+  b: { author: "bob", year: 2021, tags: ["db"], title: "Databases" },
+  c: {
+    author: "carol",
+    year: 2022,
+    tags: ["ai", "db"],
+    title: "AI for databases",
+  },
+};
+
+const cases: { name: string; filters: MetadataFilters; expected: string[] }[] =
+  [
+    {
+      name: "legacy exact match",
+      filters: {
+        filters: [{ filterType: "ExactMatch", key: "author", value: "bob" }],
+      },
+      expected: ["b"],
+    },
+    {
+      name: "default operator",
+      filters: { filters: [{ key: "year", value: 2020 }] },
+      expected: ["a"],
+    },
+    {
+      name: "ne",
+      filters: {
+        filters: [{ key: "author", value: "bob", operator: FilterOperator.NE }],
+      },
+      expected: ["a", "c"],
+    },
+    {
+      name: "gt",
+      filters: {
+        filters: [{ key: "year", value: 2020, operator: FilterOperator.GT }],
+      },
+      expected: ["b", "c"],
+    },
+    {
+      name: "gte and lte",
+      filters: {
+        filters: [
+          { key: "year", value: 2021, operator: FilterOperator.GTE },
+          { key: "year", value: 2021, operator: FilterOperator.LTE },
+        ],
+      },
+      expected: ["b"],
+    },
+    {
+      name: "lt",
+      filters: {
+        filters: [{ key: "year", value: 2021, operator: FilterOperator.LT }],
+      },
+      expected: ["a"],
+    },
+    {
+      name: "in",
+      filters: {
+        filters: [
+          {
+            key: "author",
+            value: ["alice", "carol"],
+            operator: FilterOperator.IN,
+          },
+        ],
+      },
+      expected: ["a", "c"],
+    },
+    {
+      name: "nin",
+      filters: {
+        filters: [
+          {
+            key: "author",
+            value: ["alice", "carol"],
+            operator: FilterOperator.NIN,
+          },
+        ],
+      },
+      expected: ["b"],
+    },
+    {
+      name: "contains",
+      filters: {
+        filters: [
+          { key: "tags", value: "db", operator: FilterOperator.CONTAINS },
+        ],
+      },
+      expected: ["b", "c"],
+    },
+    {
+      name: "text match",
+      filters: {
+        filters: [
+          { key: "title", value: "AI", operator: FilterOperator.TEXT_MATCH },
+        ],
+      },
+      expected: ["a", "c"],
+    },
+    {
+      name: "or",
+      filters: {
+        condition: FilterCondition.OR,
+        filters: [
+          { key: "author", value: "alice" },
+          { key: "year", value: 2022, operator: FilterOperator.GTE },
+        ],
+      },
+      expected: ["a", "c"],
+    },
+    {
+      name: "nested and/or",
+      filters: {
+        filters: [
+          { key: "year", value: 2020, operator: FilterOperator.GT },
+          {
+            condition: FilterCondition.OR,
+            filters: [
+              { key: "author", value: "bob" },
+              { key: "year", value: 2020, operator: FilterOperator.LTE },
+            ],
+          },
+        ],
+      },
+      expected: ["b"],
+    },
+    {
+      name: "not",
+      filters: {
+        condition: FilterCondition.NOT,
+        filters: [{ key: "author", value: "alice" }],
+      },
+      expected: ["b", "c"],
+    },
+    {
+      name: "not with multiple filters",
+      filters: {
+        condition: FilterCondition.NOT,
+        filters: [
+          { key: "year", value: 2020, operator: FilterOperator.GT },
+          {
+            key: "author",
+            value: ["bob", "alice"],
+            operator: FilterOperator.IN,
+          },
+        ],
+      },
+      expected: ["a", "c"],
+    },
+  ];
+
+function usedOperators(filters: MetadataFilters): FilterOperator[] {
+  return filters.filters.flatMap((filter) =>
+    isMetadataFilters(filter)
+      ? usedOperators(filter)
+      : [normalizeMetadataFilter(filter).operator],
+  );
+}
+
+function matchingNodes(match: (metadata: Metadata) => boolean): string[] {
+  return Object.keys(nodes).filter((id) => match(nodes[id]));
+}
+
+const pinecone = new PineconeVectorStore();
+
+const stores: {
+  name: string;
+  unsupported: FilterOperator[];
+  matches: (filters: MetadataFilters) => (metadata: Metadata) => boolean;
+}[] = [
+  {
+    name: "MongoDBAtlasVectorSearch",
+    unsupported: [FilterOperator.TEXT_MATCH],
+    matches: (filters) => {
+      const filter = toMongoDBFilter(filters);
+      return (metadata) => mongoMatch(metadata, filter);
+    },
+  },
+  {
+    name: "PineconeVectorStore",
+    unsupported: [FilterOperator.TEXT_MATCH],
+    matches: (filters) => {
+      const filter = pinecone.toPineconeFilter(filters);
+      return (metadata) => mongoMatch(metadata, filter);
+    },
+  },
+  {
+    name: "AstraDBVectorStore",
+    unsupported: [FilterOperator.TEXT_MATCH],
+    matches: (filters) => {
+      const filter = toAstraDBFilter(filters);
+      return (metadata) => mongoMatch(metadata, filter);
+    },
+  },
+  {
+    name: "ChromaVectorStore",
+    unsupported: [FilterOperator.TEXT_MATCH, FilterOperator.CONTAINS],
+    matches: (filters) => {
+      const filter = toChromaFilter(filters);
+      return (metadata) => mongoMatch(metadata, filter);
+    },
+  },
+  {
+    name: "QdrantVectorStore",
+    unsupported: [],
+    matches: (filters) => {
+      const filter = toQdrantFilter(filters);
+      return (metadata) => qdrantMatch(metadata, filter);
+    },
+  },
+];
+
+describe("Metadata filters", () => {
+  test.each(cases)("reference behaviour: $name", ({ filters, expected }) => {
+    expect(
+      matchingNodes((metadata) => metadataMatchesFilters(metadata, filters)),
+    ).toEqual(expected);
+  });
+
+  test("pushDownNegation applies De Morgan's laws", () => {
+    expect(
+      pushDownNegation({
+        condition: FilterCondition.NOT,
+        filters: [
+          { key: "year", value: 2020, operator: FilterOperator.GT },
+          { key: "author", value: ["bob"], operator: FilterOperator.IN },
+        ],
+      }),
+    ).toEqual({
+      condition: FilterCondition.OR,
+      filters: [
+        { key: "year", value: 2020, operator: FilterOperator.LTE },
+        { key: "author", value: ["bob"], operator: FilterOperator.NIN },
+      ],
+    });
+  });
+
+  describe.each(stores)("$name", ({ unsupported, matches }) => {
+    test.each(cases)("$name", ({ filters, expected }) => {
+      if (usedOperators(filters).some((op) => unsupported.includes(op))) {
+        expect(() => matches(filters)).toThrow();
+        return;
+      }
+      expect(matchingNodes(matches(filters))).toEqual(expected);
+    });
+  });
+
+  describe("SimpleVectorStore", () => {
+    test.each(cases)("$name", async ({ filters, expected }) => {
+      const store = new SimpleVectorStore();
+      await store.add(
+        Object.entries(nodes).map(
+          ([id_, metadata]) =>
+            new TextNode({ id_, metadata, embedding: [1, 0] }),
+        ),
+      );
+      const result = await store.query({
+        queryEmbedding: [1, 0],
+        similarityTopK: 10,
+        mode: VectorStoreQueryMode.DEFAULT,
+        filters,
+      });
+      expect(result.ids.sort()).toEqual(expected);
+    });
+  });
+
+  describe("PGVectorStore", () => {
+    test("builds a parameterized condition", () => {
+      const params: unknown[] = ["[0.1,0.2]"];
+      const condition = toPostgresCondition(
+        {
+          condition: FilterCondition.OR,
+          filters: [
+            { key: "author", value: "alice" },
+            { key: "year", value: 2021, operator: FilterOperator.GTE },
+          ],
+        },
+        params,
+      );
+      expect(condition).toBe(
+        "(metadata->$2::text = $3::jsonb OR (jsonb_typeof(metadata->$4::text) = jsonb_typeof($5::jsonb) AND metadata->$4::text >= $5::jsonb))",
+      );
+      expect(params).toEqual([
+        "[0.1,0.2]",
+        "author",
+        '"alice"',
+        "year",
+        "2021",
+      ]);
+    });
+
+    test("escapes text match patterns", () => {
+      const params: unknown[] = [];
+      const condition = toPostgresCondition(
+        {
+          condition: FilterCondition.NOT,
+          filters: [
+            {
+              key: "title",
+              value: "100%",
+              operator: FilterOperator.TEXT_MATCH,
+            },
+          ],
+        },
+        params,
+      );
+      expect(condition).toBe(
+        "NOT COALESCE((metadata->>$1::text LIKE $2), false)",
+      );
+      expect(params).toEqual(["title", "%100\\%%"]);
+    });
+
+    test("returns undefined without filters", () => {
+      expect(toPostgresCondition({ filters: [] }, [])).toBeUndefined();
+    });
+  });
+});
@@ -133,6 +133,44 @@ describe("QdrantVectorStore", () => {
         expect(searchResult.ids).toEqual(["1"]);
         expect(searchResult.similarities).toEqual([0.1]);
       });
+
+      it("should run a dense and a sparse search in hybrid mode", async () => {
+        const hybridStore = new TestableQdrantVectorStore({
+          client: mockQdrantClient,
+          collectionName: "testCollection",
+          enableHybrid: true,
+        });
+        const point = (id: string, score: number) => ({
+          id,
+          score,
+          version: 1,
+          payload: { _node_content: JSON.stringify({ text: id }) },
+        });
+        mockQdrantClient.search
+          .mockResolvedValueOnce([point("1", 0.9), point("2", 0.1)])
+          .mockResolvedValueOnce([point("2", 3), point("3", 1)]);
+
+        const searchResult = await hybridStore.query({
+          queryEmbedding: [0.1, 0.2],
+          querySparseEmbedding: { indices: [7], values: [1] },
+          similarityTopK: 2,
+          mode: VectorStoreQueryMode.HYBRID,
+          alpha: 0.4,
+        });
+
+        expect(mockQdrantClient.search).toHaveBeenCalledWith("testCollection", {
+          vector: { name: "text-dense", vector: [0.1, 0.2] },
+          limit: 2,
+        });
+        expect(mockQdrantClient.search).toHaveBeenCalledWith("testCollection", {
+          vector: {
+            name: "text-sparse",
+            vector: { indices: [7], values: [1] },
+          },
+          limit: 2,
+        });
+        expect(searchResult.ids).toEqual(["2", "1"]);
+      });
     });
   });
 });
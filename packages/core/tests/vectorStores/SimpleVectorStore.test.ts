@@ -0,0 +1,85 @@
+import { NodeRelationship, TextNode } from "llamaindex/Node";
+import {
+  FilterOperator,
+  SimpleVectorStore,
+  VectorStoreQueryMode,
+} from "llamaindex/storage/index";
+import { beforeEach, describe, expect, test } from "vitest";
+
+describe("SimpleVectorStore", () => {
+  let store: SimpleVectorStore;
+
+  beforeEach(async () => {
+    store = new SimpleVectorStore();
+    await store.add([
+      new TextNode({
+        id_: "1",
+        embedding: [1, 0],
+        metadata: { author: "alice", year: 2020 },
+        relationships: {
+          [NodeRelationship.SOURCE]: { nodeId: "doc1", metadata: {} },
+        },
+      }),
+      new TextNode({
+        id_: "2",
+        embedding: [0.9, 0.1],
+        metadata: { author: "bob", year: 2021 },
+        relationships: {
+          [NodeRelationship.SOURCE]: { nodeId: "doc2", metadata: {} },
+        },
+      }),
+      new TextNode({
+        id_: "3",
+        embedding: [0, 1],
+        metadata: { author: "bob", year: 2022 },
+      }),
+    ]);
+  });
+
+  test("query filters nodes by metadata", async () => {
+    const result = await store.query({
+      queryEmbedding: [1, 0],
+      similarityTopK: 2,
+      mode: VectorStoreQueryMode.DEFAULT,
+      filters: { filters: [{ key: "author", value: "bob" }] },
+    });
+    expect(result.ids).toEqual(["2", "3"]);
+  });
+
+  test("deleteNodes deletes nodes matching the filters", async () => {
+    const deleted = await store.deleteNodes(undefined, {
+      filters: [{ key: "year", value: 2021, operator: FilterOperator.GTE }],
+    });
+    expect(deleted).toEqual(["2", "3"]);
+    expect(Object.keys(store.toDict().embeddingDict)).toEqual(["1"]);
+    expect(Object.keys(store.toDict().metadataDict)).toEqual(["1"]);
+    expect(store.toDict().textIdToRefDocId).toEqual({ "1": "doc1" });
+  });
+
+  test("deleteNodes only deletes the given nodes matching the filters", async () => {
+    const deleted = await store.deleteNodes(["1", "2"], {
+      filters: [{ key: "author", value: "bob" }],
+    });
+    expect(deleted).toEqual(["2"]);
+    expect(Object.keys(store.toDict().embeddingDict)).toEqual(["1", "3"]);
+  });
+
+  test("delete removes the metadata of the deleted nodes", async () => {
+    await store.delete("doc1");
+    expect(store.toDict().metadataDict).toEqual({
+      "2": { author: "bob", year: 2021 },
+      "3": { author: "bob", year: 2022 },
+    });
+  });
+
+  test("metadata is kept by toDict and fromDict", async () => {
+    const restored = SimpleVectorStore.fromDict(store.toDict());
+    const result = await restored.query({
+      queryEmbedding: [1, 0],
+      similarityTopK: 3,
+      mode: VectorStoreQueryMode.DEFAULT,
+      filters: { filters: [{ key: "author", value: "alice" }] },
+    });
+    expect(result.ids).toEqual(["1"]);
+  });
+});